@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createIcyDemuxer, splitStreamTitle } from '../../../utils/icyMetadata';
+import { findKnownStation, isStationStreamUrl, isStationUuid } from '../../../utils/knownStations';
+import { fetchPublic } from '../../../utils/publicFetch';
+import { clientKey, createConnectionLimiter, createRateLimiter } from '../../../utils/rateLimit';
+import { parseStreamUrl } from '../../../utils/streamUrl';
+
+// Streams now-playing updates for a radio stream as server-sent events.
+// GET ?station=<stationuuid>&url=<one of that station's stream URLs>
+//   event: station      ICY headers (name, genre, bitrate) once connected
+//   event: metadata     { artist, title, raw } whenever the StreamTitle changes
+//   event: unavailable  { reason } when the stream can't be read or has no metadata
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 15 * 1000;
+// EventSource reconnects by itself, so long sessions are recycled instead of held open forever
+const MAX_SESSION_MS = 10 * 60 * 1000;
+
+// A listener needs one session at a time, plus a reconnect every few minutes or on errors
+const limiter = createRateLimiter({ limit: 20, windowMs: 60 * 1000 });
+// Room for a couple of tabs, and for the old session while a reconnect opens the new one
+const connections = createConnectionLimiter({ limit: 3 });
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const stationuuid = searchParams.get('station');
+  const streamUrl = parseStreamUrl(searchParams.get('url'));
+  if (!isStationUuid(stationuuid) || !streamUrl) {
+    return NextResponse.json({ error: 'Missing or invalid station or url parameter' }, { status: 400 });
+  }
+
+  const key = clientKey(request.headers);
+  if (!limiter.take(key)) {
+    return NextResponse.json({ error: 'Too many requests' }, {
+      status: 429,
+      headers: { 'Retry-After': String(Math.ceil(limiter.retryAfterMs(key) / 1000)) }
+    });
+  }
+
+  try {
+    const station = await findKnownStation(stationuuid);
+    if (!station || !isStationStreamUrl(station, streamUrl)) {
+      return NextResponse.json({ error: 'Not a stream of a known station' }, { status: 403 });
+    }
+  } catch (error) {
+    console.error(`Error looking up station ${stationuuid}:`, error);
+    return NextResponse.json({ error: 'Failed to look up the station' }, { status: 502 });
+  }
+
+  if (!connections.acquire(key)) {
+    return NextResponse.json({ error: 'Too many open now-playing connections' }, { status: 429 });
+  }
+  // Once per session, whichever end finishes it
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    connections.release(key);
+  };
+
+  const upstream = new AbortController();
+  request.signal.addEventListener('abort', () => upstream.abort());
+  const encoder = new TextEncoder();
+
+  // Set once the response is finished, from either end; the controller throws if used after that
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      // Safe to call repeatedly; timers and the upstream connection go even if the client closed first
+      const close = () => {
+        clearInterval(heartbeat);
+        clearTimeout(sessionTimer);
+        upstream.abort();
+        release();
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_MS);
+      const sessionTimer = setTimeout(close, MAX_SESSION_MS);
+      upstream.signal.addEventListener('abort', close);
+      write('retry: 5000\n\n');
+
+      try {
+        const res = await fetchPublic(streamUrl, {
+          headers: { 'Icy-MetaData': '1' },
+          signal: upstream.signal,
+          cache: 'no-store'
+        });
+        const metaInt = Number(res.headers.get('icy-metaint'));
+
+        if (!res.ok || !res.body || !metaInt) {
+          send('unavailable', { reason: res.ok ? 'Stream has no ICY metadata' : `Stream returned ${res.status}` });
+          close();
+          return;
+        }
+
+        send('station', {
+          name: res.headers.get('icy-name'),
+          genre: res.headers.get('icy-genre'),
+          bitrate: Number(res.headers.get('icy-br')) || null
+        });
+
+        // Stations repeat the same title in every block, only pass on changes
+        let lastTitle: string | null | undefined;
+        const demuxer = createIcyDemuxer(metaInt, {
+          onMetadata: fields => {
+            const nowPlaying = splitStreamTitle(fields.StreamTitle);
+            const raw = nowPlaying?.raw ?? null;
+            if (raw === lastTitle) return;
+            lastTitle = raw;
+            send('metadata', nowPlaying);
+          }
+        });
+
+        const reader = res.body.getReader();
+        while (!closed) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          demuxer.push(value);
+        }
+        close();
+      } catch (error) {
+        if (closed) return;
+        console.warn(`Failed to read metadata from ${streamUrl}:`, error);
+        send('unavailable', { reason: 'Could not connect to the stream' });
+        close();
+      }
+    },
+    // The client went away and the stream is already closed, so the abort must not close it again
+    cancel() {
+      closed = true;
+      upstream.abort();
+      release();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
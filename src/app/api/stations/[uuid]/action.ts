@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { isStationUuid } from '../../../../utils/knownStations';
+import type { StationActionResult } from '../../../../utils/stationsApi';
+
+// Stub shared by the vote and click routes, for test runs with RADIO_BROWSER_FIXTURE set.
+// Real votes and clicks are sent from the browser, since Radio Browser counts them per client IP.
+export function runStationAction(uuid: string, name: string) {
+  if (!process.env.RADIO_BROWSER_FIXTURE) {
+    return NextResponse.json({ error: 'Only available with RADIO_BROWSER_FIXTURE set' }, { status: 404 });
+  }
+  if (!isStationUuid(uuid)) {
+    return NextResponse.json({ error: 'Invalid station uuid' }, { status: 400 });
+  }
+
+  const body: StationActionResult = { ok: true, message: `${name} recorded (fixture mode)` };
+  return NextResponse.json(body);
+}
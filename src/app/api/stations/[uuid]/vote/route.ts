@@ -0,0 +1,7 @@
+import { NextRequest } from 'next/server';
+import { runStationAction } from '../action';
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ uuid: string }> }) {
+  const { uuid } = await params;
+  return runStationAction(uuid, 'vote');
+}
@@ -0,0 +1,107 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { NextRequest } from 'next/server'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { GET } from './route'
+import type { StationsResponse } from '../../../utils/stationsApi'
+
+function rawStation(stationuuid: string, tags: string, { votes = 0, name = stationuuid, lat = 10, lng = 20 } = {}) {
+  return {
+    stationuuid,
+    name,
+    url: `https://${stationuuid}.example/stream`,
+    url_resolved: `https://${stationuuid}.example/stream`,
+    homepage: '',
+    favicon: '',
+    tags,
+    country: '',
+    countrycode: '',
+    state: '',
+    language: '',
+    codec: 'MP3',
+    bitrate: 128,
+    hls: 0,
+    lastcheckok: 1,
+    lastchecktime: '',
+    lastchecktime_iso8601: null,
+    votes,
+    clickcount: 0,
+    clicktrend: 0,
+    geo_lat: lat,
+    geo_long: lng
+  }
+}
+
+const FIXTURE = [
+  rawStation('rock-only', 'rock', { lat: 1 }),
+  rawStation('jazz-only', 'jazz', { lat: 2 }),
+  rawStation('both', 'rock,jazz', { lat: 3 }),
+  // The same station listed twice: the copy with more votes is only tagged rock
+  rawStation('listed-twice-a', 'rock,jazz', { name: 'Twice FM', votes: 5, lat: 4 }),
+  rawStation('listed-twice-b', 'rock', { name: 'Twice FM', votes: 10, lat: 4 }),
+  rawStation('no-position', 'rock,jazz', { lat: Number.NaN })
+]
+
+let dir: string
+const previousFixture = process.env.RADIO_BROWSER_FIXTURE
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'stations-route-'))
+  const fixture = join(dir, 'stations.json')
+  await writeFile(fixture, JSON.stringify(FIXTURE))
+  process.env.RADIO_BROWSER_FIXTURE = fixture
+})
+
+afterAll(async () => {
+  process.env.RADIO_BROWSER_FIXTURE = previousFixture
+  await rm(dir, { recursive: true, force: true })
+})
+
+async function getStations(query: string) {
+  const res = await GET(new NextRequest(`http://localhost/api/stations?${query}`))
+  return { status: res.status, body: (await res.json()) as StationsResponse }
+}
+
+function uuids({ stations }: StationsResponse) {
+  return stations.map(station => station.stationuuid).sort()
+}
+
+describe('GET /api/stations', () => {
+  it('returns stations with any of the tags, without duplicates', async () => {
+    const { status, body } = await getStations('tag=rock,jazz')
+
+    expect(status).toBe(200)
+    expect(uuids(body)).toEqual(['both', 'jazz-only', 'listed-twice-b', 'rock-only'])
+    // Radio Browser's counts per tag, before dropping unplaceable stations and duplicates
+    expect(body.total).toBe(5 + 4)
+  })
+
+  it('accepts repeated tag parameters', async () => {
+    const { body } = await getStations('tag=rock&tag=jazz')
+
+    expect(uuids(body)).toEqual(['both', 'jazz-only', 'listed-twice-b', 'rock-only'])
+  })
+
+  it('returns stations with all of the tags, and counts only those', async () => {
+    const { body } = await getStations('tag=rock,jazz&match=all')
+
+    // listed-twice-b wins the duplicate in the rock list, but only listed-twice-a has both tags
+    expect(uuids(body)).toEqual(['both', 'listed-twice-a'])
+    expect(body.total).toBe(2)
+  })
+
+  it('matches all of a single tag like any', async () => {
+    const all = await getStations('tag=jazz&match=all')
+    const any = await getStations('tag=jazz')
+
+    expect(uuids(all.body)).toEqual(uuids(any.body))
+  })
+
+  it('rejects requests without tags or with too many', async () => {
+    expect((await getStations('tag=')).status).toBe(400)
+    // A comma-separated list is cut to the limit, repeated parameters are not
+    const tooMany = 'abcdefghijk'.split('').map(tag => `tag=${tag}`).join('&')
+    expect((await getStations(tooMany)).status).toBe(400)
+  })
+})
@@ -0,0 +1,100 @@
+import { readFile } from 'fs/promises';
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchStationsByTag } from '../../../utils/fetchStations';
+import type { RadioBrowserStation } from '../../../utils/fetchStations';
+import { dedupeStations, normalizeStation } from '../../../utils/normalizeStations';
+import type { Station } from '../../../utils/normalizeStations';
+import { createSwrCache } from '../../../utils/swrCache';
+import type { CacheStatus } from '../../../utils/swrCache';
+import type { StationsResponse, TagMatch } from '../../../utils/stationsApi';
+import { MAX_SELECTED_TAGS, parseTagList } from '../../../utils/tags';
+
+const TTL_SECONDS = 5 * 60;
+const STALE_SECONDS = 60 * 60;
+
+const cache = createSwrCache<StationsResponse>({
+  ttlMs: TTL_SECONDS * 1000,
+  staleMs: STALE_SECONDS * 1000
+});
+
+// Point RADIO_BROWSER_FIXTURE at a JSON file of raw stations to serve it instead of calling upstream
+async function loadUpstream(tag: string): Promise<RadioBrowserStation[]> {
+  const fixture = process.env.RADIO_BROWSER_FIXTURE;
+  if (fixture) {
+    const stations = JSON.parse(await readFile(fixture, 'utf8')) as RadioBrowserStation[];
+    return stations.filter(station => station.tags.toLowerCase().includes(tag));
+  }
+  return fetchStationsByTag(tag);
+}
+
+// Each tag is cached on its own so different combinations share upstream calls.
+// Lists are kept with their duplicates, which are only dropped once tags are combined:
+// deduping first could keep a different uuid for the same station in each list.
+function loadTag(tag: string) {
+  return cache.get(`tag:${tag}`, async () => {
+    const raw = await loadUpstream(tag);
+    return {
+      stations: raw.map(normalizeStation).filter((station): station is Station => station !== null),
+      total: raw.length,
+      fetchedAt: new Date().toISOString()
+    };
+  });
+}
+
+function combineStatus(statuses: CacheStatus[]): CacheStatus {
+  if (statuses.includes('MISS')) return 'MISS';
+  if (statuses.includes('STALE')) return 'STALE';
+  return 'HIT';
+}
+
+// Accepts `?tag=rock,jazz` or repeated `?tag=rock&tag=jazz`, plus `match=any|all`
+function parseTags(request: NextRequest) {
+  return Array.from(new Set(request.nextUrl.searchParams.getAll('tag').flatMap(parseTagList)));
+}
+
+export async function GET(request: NextRequest) {
+  const tags = parseTags(request);
+  const match: TagMatch = request.nextUrl.searchParams.get('match') === 'all' ? 'all' : 'any';
+
+  if (tags.length === 0) {
+    return NextResponse.json({ error: 'Missing tag parameter' }, { status: 400 });
+  }
+  if (tags.length > MAX_SELECTED_TAGS) {
+    return NextResponse.json({ error: `At most ${MAX_SELECTED_TAGS} tags can be combined` }, { status: 400 });
+  }
+
+  try {
+    const results = await Promise.all(tags.map(loadTag));
+    const perTag = results.map(({ value }) => value.stations);
+
+    let stations: Station[];
+    let total: number;
+    if (match === 'all') {
+      const others = perTag.slice(1).map(list => new Set(list.map(station => station.stationuuid)));
+      stations = dedupeStations(perTag[0].filter(station => others.every(uuids => uuids.has(station.stationuuid))));
+      // Adding up the per-tag totals would count stations that don't have every tag
+      total = stations.length;
+    } else {
+      stations = dedupeStations(perTag.flat());
+      total = results.reduce((sum, { value }) => sum + value.total, 0);
+    }
+
+    const body: StationsResponse = {
+      stations,
+      total,
+      fetchedAt: results
+        .map(({ value }) => value.fetchedAt)
+        .sort()[0]
+    };
+
+    return NextResponse.json(body, {
+      headers: {
+        'Cache-Control': `public, max-age=60, s-maxage=${TTL_SECONDS}, stale-while-revalidate=${STALE_SECONDS}`,
+        'X-Cache': combineStatus(results.map(({ status }) => status))
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching stations:', error);
+    return NextResponse.json({ error: 'Failed to load stations from Radio Browser' }, { status: 502 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findKnownStations } from '../../../utils/knownStations';
+import { clientKey, createRateLimiter } from '../../../utils/rateLimit';
+import { mapConcurrent, probeStream } from '../../../utils/streamProbe';
+import type { StreamProbe } from '../../../utils/streamProbe';
+import { MAX_HEALTH_STATIONS } from '../../../utils/stationsApi';
+import type { StreamHealthResponse } from '../../../utils/stationsApi';
+import { createSwrCache } from '../../../utils/swrCache';
+
+// Checks a batch of stations and reports which streams answer with audio.
+// POST { stations: stationuuid[] } -> { results: { [stationuuid]: StreamProbe } }
+// Only stations Radio Browser knows are checked, at the stream URL it lists for them.
+
+export const dynamic = 'force-dynamic';
+
+// Enough to get through a batch quickly without opening hundreds of sockets at once
+const CONCURRENCY = 10;
+
+// Stations come and go over hours, not minutes; a stale result is re-checked in the background
+const cache = createSwrCache<StreamProbe>({
+  ttlMs: 15 * 60 * 1000,
+  staleMs: 60 * 60 * 1000,
+  maxEntries: 10000
+});
+
+// The client only asks for what's in view, so this is plenty for panning around
+const limiter = createRateLimiter({ limit: 30, windowMs: 60 * 1000 });
+
+export async function POST(request: NextRequest) {
+  const key = clientKey(request.headers);
+  if (!limiter.take(key)) {
+    return NextResponse.json({ error: 'Too many requests' }, {
+      status: 429,
+      headers: { 'Retry-After': String(Math.ceil(limiter.retryAfterMs(key) / 1000)) }
+    });
+  }
+
+  const body = await request.json().catch(() => null);
+  const uuids: unknown = body?.stations;
+  if (!Array.isArray(uuids) || uuids.length === 0) {
+    return NextResponse.json({ error: 'Expected { stations: string[] }' }, { status: 400 });
+  }
+  if (uuids.length > MAX_HEALTH_STATIONS) {
+    return NextResponse.json({ error: `At most ${MAX_HEALTH_STATIONS} stations per request` }, { status: 400 });
+  }
+
+  let stations;
+  try {
+    stations = await findKnownStations(uuids.filter((uuid): uuid is string => typeof uuid === 'string'));
+  } catch (error) {
+    console.error('Error looking up stations to check:', error);
+    return NextResponse.json({ error: 'Failed to look up the stations' }, { status: 502 });
+  }
+
+  const known = Array.from(stations.values()).filter(station => station.url_resolved || station.url);
+  const probes = await mapConcurrent(known, CONCURRENCY, async station => {
+    const url = station.url_resolved || station.url;
+    return (await cache.get(url, () => probeStream(url))).value;
+  });
+
+  const results: StreamHealthResponse['results'] = {};
+  known.forEach((station, index) => {
+    results[station.stationuuid] = probes[index];
+  });
+  return NextResponse.json({ results } satisfies StreamHealthResponse, {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
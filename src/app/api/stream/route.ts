@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findKnownStation, isStationStreamUrl, isStationUuid } from '../../../utils/knownStations';
+import { fetchPublic } from '../../../utils/publicFetch';
+import { parseStreamUrl } from '../../../utils/streamUrl';
+
+// Relays a radio stream from our own origin. Browsers only let Web Audio read
+// cross-origin media that sends CORS headers, which most stations don't.
+// GET ?station=<stationuuid>&url=<one of that station's stream URLs>
+
+export const dynamic = 'force-dynamic';
+
+// Give up if the station doesn't answer with headers by then; the body can run for hours
+const CONNECT_TIMEOUT_MS = 10 * 1000;
+
+// Audio, Ogg and HLS playlists/segments; anything else (an HTML error page, say)
+// must never be served from our origin
+const RELAYED_TYPES = [
+  /^audio\//,
+  /^application\/ogg$/,
+  /^application\/(vnd\.apple\.mpegurl|x-mpegurl)$/,
+  /^video\/mp2t$/
+];
+// Plenty of stations send these for plain MP3/AAC
+const GENERIC_TYPES = ['', 'application/octet-stream', 'binary/octet-stream'];
+
+// The type to relay with, or null to refuse the stream
+function relayedContentType(contentType: string | null) {
+  const type = contentType?.split(';')[0].trim().toLowerCase() ?? '';
+  if (GENERIC_TYPES.includes(type)) return 'audio/mpeg';
+  return RELAYED_TYPES.some(pattern => pattern.test(type)) ? contentType : null;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const stationuuid = searchParams.get('station');
+  const streamUrl = parseStreamUrl(searchParams.get('url'));
+  if (!isStationUuid(stationuuid) || !streamUrl) {
+    return NextResponse.json({ error: 'Missing or invalid station or url parameter' }, { status: 400 });
+  }
+
+  try {
+    const station = await findKnownStation(stationuuid);
+    if (!station || !isStationStreamUrl(station, streamUrl)) {
+      return NextResponse.json({ error: 'Not a stream of a known station' }, { status: 403 });
+    }
+  } catch (error) {
+    console.error(`Error looking up station ${stationuuid}:`, error);
+    return NextResponse.json({ error: 'Failed to look up the station' }, { status: 502 });
+  }
+
+  const upstream = new AbortController();
+  request.signal.addEventListener('abort', () => upstream.abort());
+  const connectTimer = setTimeout(() => upstream.abort(), CONNECT_TIMEOUT_MS);
+
+  try {
+    // No Icy-MetaData header, so the body is plain audio
+    const res = await fetchPublic(streamUrl, { signal: upstream.signal, cache: 'no-store' });
+    clearTimeout(connectTimer);
+
+    if (!res.ok || !res.body) {
+      upstream.abort();
+      return NextResponse.json({ error: `Stream returned ${res.status}` }, { status: 502 });
+    }
+    const contentType = relayedContentType(res.headers.get('content-type'));
+    if (!contentType) {
+      upstream.abort();
+      return NextResponse.json({ error: 'Stream is not audio' }, { status: 502 });
+    }
+
+    return new Response(res.body, {
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': 'no-store',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Disposition': 'attachment'
+      }
+    });
+  } catch (error) {
+    clearTimeout(connectTimer);
+    if (request.signal.aborted) return new Response(null, { status: 499 });
+    console.error(`Error relaying ${streamUrl}:`, error);
+    return NextResponse.json({ error: 'Stream unavailable' }, { status: 502 });
+  }
+}
@@ -1,14 +1,35 @@
 'use client';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import WorldMap from '../components/WorldMap';
+import { parseViewState } from '../utils/urlState';
+import type { ViewState } from '../utils/urlState';
+import type { TagMatch } from '../utils/stationsApi';
 
 export default function Home() {
-  const [tag, setTag] = useState('jazz');
+  const [tags, setTags] = useState<string[] | null>(null);
+  const [tagMatch, setTagMatch] = useState<TagMatch>('any');
+  const [initialView, setInitialView] = useState<ViewState>({});
+
+  // The query string is only available on the client, so read it before the first station fetch
+  useEffect(() => {
+    const view = parseViewState(window.location.search);
+    setInitialView(view);
+    setTags(view.tags ?? ['jazz']);
+    setTagMatch(view.match ?? 'any');
+  }, []);
 
   return (
     <main className="flex flex-col h-full">
       <div className="flex-1">
-        <WorldMap tag={tag} onTagChange={setTag} />
+        {tags && (
+          <WorldMap
+            tags={tags}
+            tagMatch={tagMatch}
+            onTagsChange={setTags}
+            onTagMatchChange={setTagMatch}
+            initialView={initialView}
+          />
+        )}
       </div>
     </main>
   );
@@ -0,0 +1,98 @@
+'use client';
+import { useEffect, useRef } from 'react';
+import type { VisualizerMode } from '../utils/audioSettings';
+
+interface AudioVisualizerProps {
+  mode: Exclude<VisualizerMode, 'off'>;
+  getAnalyser: () => AnalyserNode | null;
+  isPlaying: boolean;
+  height?: number;
+}
+
+const BAR_COUNT = 48;
+
+function drawSpectrum(context: CanvasRenderingContext2D, analyser: AnalyserNode, buffer: Uint8Array) {
+  const { width, height } = context.canvas;
+  analyser.getByteFrequencyData(buffer);
+  // Log-spaced bars, so the bass doesn't get a single sliver of the width
+  const maxBin = buffer.length * 0.75;
+  const barWidth = width / BAR_COUNT;
+  const gradient = context.createLinearGradient(0, height, 0, 0);
+  gradient.addColorStop(0, '#A855F7');
+  gradient.addColorStop(1, '#EC4899');
+  context.fillStyle = gradient;
+
+  for (let bar = 0; bar < BAR_COUNT; bar++) {
+    const from = Math.floor(maxBin ** (bar / BAR_COUNT));
+    const to = Math.max(Math.floor(maxBin ** ((bar + 1) / BAR_COUNT)), from + 1);
+    let peak = 0;
+    for (let bin = from; bin < to; bin++) peak = Math.max(peak, buffer[bin]);
+    const barHeight = Math.max((peak / 255) * height, 1);
+    context.fillRect(bar * barWidth + 1, height - barHeight, barWidth - 2, barHeight);
+  }
+}
+
+function drawWaveform(context: CanvasRenderingContext2D, analyser: AnalyserNode, buffer: Float32Array) {
+  const { width, height } = context.canvas;
+  analyser.getFloatTimeDomainData(buffer);
+  context.strokeStyle = '#4ECDC4';
+  context.lineWidth = 2;
+  context.beginPath();
+  for (let i = 0; i < buffer.length; i++) {
+    const x = (i / (buffer.length - 1)) * width;
+    const y = (0.5 - buffer[i] / 2) * height;
+    if (i === 0) context.moveTo(x, y);
+    else context.lineTo(x, y);
+  }
+  context.stroke();
+}
+
+// Spectrum or waveform of the processed output, drawn on a canvas every frame while playing
+export default function AudioVisualizer({ mode, getAnalyser, isPlaying, height = 64 }: AudioVisualizerProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const getAnalyserRef = useRef(getAnalyser);
+  getAnalyserRef.current = getAnalyser;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    // Match the backing store to the displayed size so lines stay crisp
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.clientWidth * ratio;
+    canvas.height = canvas.clientHeight * ratio;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let bytes = new Uint8Array(0);
+    let floats = new Float32Array(0);
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const analyser = getAnalyserRef.current();
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      if (!analyser) return;
+      if (mode === 'spectrum') {
+        if (bytes.length !== analyser.frequencyBinCount) bytes = new Uint8Array(analyser.frequencyBinCount);
+        drawSpectrum(context, analyser, bytes);
+      } else {
+        if (floats.length !== analyser.fftSize) floats = new Float32Array(analyser.fftSize);
+        drawWaveform(context, analyser, floats);
+      }
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [mode, isPlaying]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full rounded-lg bg-white/5"
+      style={{ height }}
+      aria-hidden="true"
+    />
+  );
+}
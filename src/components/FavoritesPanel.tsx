@@ -0,0 +1,327 @@
+'use client';
+import { useRef, useState } from 'react';
+import Image from 'next/image';
+import type { ChangeEvent } from 'react';
+import type { FavoritesApi } from '../hooks/useFavorites';
+import { displayName, exportFavorites, importFavorites, sortFavorites } from '../utils/favorites';
+import type { FavoriteEntry, FavoritesExportFormat, FavoritesSort } from '../utils/favorites';
+import type { Station } from '../utils/normalizeStations';
+import { downloadFile } from '../utils/download';
+
+interface FavoritesPanelProps {
+  favorites: FavoritesApi;
+  onPlay: (station: Station) => void;
+  onClose: () => void;
+}
+
+interface RenameTarget {
+  kind: 'station' | 'folder';
+  id: string;
+}
+
+const sortOptions: { value: FavoritesSort; label: string }[] = [
+  { value: 'manual', label: 'My order' },
+  { value: 'name', label: 'Name' },
+  { value: 'added', label: 'Recently added' },
+  { value: 'country', label: 'Country' }
+];
+
+const exportFormats: { value: FavoritesExportFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'm3u', label: 'M3U' },
+  { value: 'pls', label: 'PLS' }
+];
+
+export default function FavoritesPanel({ favorites, onPlay, onClose }: FavoritesPanelProps) {
+  const [sort, setSort] = useState<FavoritesSort>('manual');
+  const [renaming, setRenaming] = useState<RenameTarget | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [newFolderName, setNewFolderName] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const groups = [
+    { id: null, name: 'Unfiled' },
+    ...favorites.folders
+  ].map(folder => ({
+    ...folder,
+    entries: sortFavorites(
+      favorites.favorites.filter(entry => entry.folderId === folder.id),
+      sort
+    )
+  }));
+
+  const startRename = (target: RenameTarget, currentName: string) => {
+    setRenaming(target);
+    setDraftName(currentName);
+  };
+
+  const commitRename = () => {
+    if (renaming?.kind === 'station') favorites.renameFavorite(renaming.id, draftName);
+    if (renaming?.kind === 'folder') favorites.renameFolder(renaming.id, draftName);
+    setRenaming(null);
+  };
+
+  const handleExport = (format: FavoritesExportFormat) => {
+    const { filename, type, content } = exportFavorites(
+      { favorites: favorites.favorites, folders: favorites.folders },
+      format
+    );
+    downloadFile(filename, content, type);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setStatus(null);
+    try {
+      const { imported, unmatched, rejected } = await importFavorites(await file.text());
+      favorites.mergeFavorites(imported);
+      setStatus(
+        `Imported ${imported.favorites.length} station${imported.favorites.length === 1 ? '' : 's'}` +
+        (unmatched.length > 0 ? `, ${unmatched.length} could not be matched` : '') +
+        (rejected > 0 ? `, ${rejected} invalid ${rejected === 1 ? 'entry was' : 'entries were'} skipped` : '')
+      );
+    } catch (error) {
+      console.error('Error importing favorites:', error);
+      setStatus('Could not import that file.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderRenameInput = () => (
+    <input
+      autoFocus
+      value={draftName}
+      onChange={(e) => setDraftName(e.target.value)}
+      onBlur={commitRename}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commitRename();
+        if (e.key === 'Escape') setRenaming(null);
+      }}
+      aria-label="New name"
+      className="flex-1 min-w-0 bg-white/10 text-white text-sm px-2 py-1 rounded focus:outline-none"
+    />
+  );
+
+  const renderEntry = (entry: FavoriteEntry) => {
+    const { station } = entry;
+    const isRenaming = renaming?.kind === 'station' && renaming.id === station.stationuuid;
+
+    return (
+      <div
+        key={station.stationuuid}
+        className="flex items-center justify-between p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+      >
+        <div className="flex items-center space-x-2 min-w-0 flex-1">
+          {station.favicon ? (
+            <Image
+              src={station.favicon}
+              alt={station.name}
+              width={24}
+              height={24}
+              className="rounded"
+            />
+          ) : (
+            <div className="w-6 h-6 bg-white/10 rounded flex-shrink-0" />
+          )}
+          {isRenaming ? renderRenameInput() : (
+            <button
+              onDoubleClick={() => startRename({ kind: 'station', id: station.stationuuid }, displayName(entry))}
+              className="text-white text-sm truncate text-left"
+              title="Double-click to rename"
+            >
+              {displayName(entry)}
+            </button>
+          )}
+        </div>
+        <div className="flex items-center space-x-1 flex-shrink-0">
+          {sort === 'manual' && (
+            <>
+              <button
+                onClick={() => favorites.moveFavorite(station.stationuuid, -1)}
+                className="p-1 rounded-full hover:bg-white/20 transition-colors text-white/60"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => favorites.moveFavorite(station.stationuuid, 1)}
+                className="p-1 rounded-full hover:bg-white/20 transition-colors text-white/60"
+                title="Move down"
+              >
+                ↓
+              </button>
+            </>
+          )}
+          {favorites.folders.length > 0 && (
+            <select
+              value={entry.folderId ?? ''}
+              onChange={(e) => favorites.moveToFolder(station.stationuuid, e.target.value || null)}
+              aria-label="Folder"
+              className="bg-white/10 text-white/80 text-xs rounded px-1 py-0.5 max-w-[5rem]"
+            >
+              <option value="">Unfiled</option>
+              {favorites.folders.map(folder => (
+                <option key={folder.id} value={folder.id}>{folder.name}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => onPlay(station)}
+            className="p-1 rounded-full hover:bg-white/20 transition-colors"
+            title="Play"
+          >
+            <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+            </svg>
+          </button>
+          <button
+            onClick={() => favorites.removeFavorite(station.stationuuid)}
+            className="p-1 rounded-full hover:bg-white/20 transition-colors"
+            title="Remove from Favorites"
+          >
+            <svg className="w-4 h-4 text-white/60" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed top-20 left-4 z-50 bg-black/90 backdrop-blur-sm border border-white/20 rounded-xl p-4 w-96 max-h-[calc(100vh-8rem)] overflow-y-auto">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-white">Favorites</h3>
+        <button
+          onClick={onClose}
+          className="text-white/60 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Toolbar */}
+      <div className="space-y-2 mb-4">
+        <div className="flex items-center justify-between space-x-2">
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as FavoritesSort)}
+            aria-label="Sort favorites"
+            className="bg-white/10 text-white text-sm rounded-lg px-2 py-1"
+          >
+            {sortOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="px-2 py-1 rounded-lg text-xs bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-50"
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+            {exportFormats.map(format => (
+              <button
+                key={format.value}
+                onClick={() => handleExport(format.value)}
+                disabled={favorites.favorites.length === 0}
+                className="px-2 py-1 rounded-lg text-xs bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-50"
+                title={`Export as ${format.label}`}
+              >
+                {format.label}
+              </button>
+            ))}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.m3u,.m3u8,.pls,application/json,audio/x-mpegurl,audio/x-scpls"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            favorites.addFolder(newFolderName);
+            setNewFolderName('');
+          }}
+          className="flex space-x-2"
+        >
+          <input
+            value={newFolderName}
+            onChange={(e) => setNewFolderName(e.target.value)}
+            placeholder="New folder..."
+            aria-label="New folder name"
+            className="flex-1 bg-white/10 text-white text-sm px-3 py-1 rounded-lg focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!newFolderName.trim()}
+            className="px-3 py-1 rounded-lg text-xs bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-50"
+          >
+            Add
+          </button>
+        </form>
+        {status && <p className="text-white/60 text-xs">{status}</p>}
+      </div>
+
+      <div className="space-y-4">
+        {favorites.favorites.length === 0 && favorites.folders.length === 0 ? (
+          <p className="text-white/60 text-sm">No favorite stations yet</p>
+        ) : (
+          groups.map(group => {
+            // Unfiled stations only need a heading once folders exist
+            if (group.id === null && (group.entries.length === 0 || favorites.folders.length === 0)) {
+              return group.entries.length > 0 ? (
+                <div key="unfiled" className="space-y-2">{group.entries.map(renderEntry)}</div>
+              ) : null;
+            }
+            const isRenaming = renaming?.kind === 'folder' && renaming.id === group.id;
+
+            return (
+              <div key={group.id ?? 'unfiled'} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  {isRenaming ? renderRenameInput() : (
+                    <h4 className="text-white/60 text-sm font-medium truncate">
+                      {group.name} <span className="text-white/40">({group.entries.length})</span>
+                    </h4>
+                  )}
+                  {group.id !== null && !isRenaming && (
+                    <div className="flex items-center space-x-2 text-xs">
+                      <button
+                        onClick={() => startRename({ kind: 'folder', id: group.id }, group.name)}
+                        className="text-white/40 hover:text-white transition-colors"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        onClick={() => favorites.removeFolder(group.id)}
+                        className="text-white/40 hover:text-white transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {group.entries.length === 0 ? (
+                  <p className="text-white/40 text-xs">Empty folder</p>
+                ) : group.entries.map(renderEntry)}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
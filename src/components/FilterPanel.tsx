@@ -0,0 +1,260 @@
+'use client';
+import { useMemo, useState } from 'react';
+import type { Station } from '../utils/normalizeStations';
+import {
+  BITRATE_STEPS,
+  CLICK_STEPS,
+  DEFAULT_FILTERS,
+  VOTE_STEPS,
+  activeFilterCount,
+  countAtLeast,
+  facetOptions,
+  isHttpsStation,
+  matchesFilters,
+  toggleFacetValue
+} from '../utils/stationFilters';
+import type { FacetField, StationFilters } from '../utils/stationFilters';
+
+interface FilterPanelProps {
+  // Stations before these filters are applied
+  stations: Station[];
+  filters: StationFilters;
+  onChange: (filters: StationFilters) => void;
+  // Stations whose stream didn't answer our own check, which runs for the stations in view
+  hideDead: boolean;
+  deadCount: number;
+  onHideDeadChange: (hideDead: boolean) => void;
+  onClose: () => void;
+}
+
+// Facet options shown before "Show all"
+const COLLAPSED_OPTIONS = 8;
+
+const FACETS: { field: FacetField; label: string }[] = [
+  { field: 'countries', label: 'Country' },
+  { field: 'languages', label: 'Language' },
+  { field: 'codecs', label: 'Codec' }
+];
+
+function FacetSection({
+  stations,
+  filters,
+  field,
+  label,
+  onChange
+}: {
+  stations: Station[];
+  filters: StationFilters;
+  field: FacetField;
+  label: string;
+  onChange: (filters: StationFilters) => void;
+}) {
+  const [showAll, setShowAll] = useState(false);
+  const options = useMemo(() => facetOptions(stations, filters, field), [stations, filters, field]);
+  const visible = showAll ? options : options.slice(0, COLLAPSED_OPTIONS);
+
+  if (options.length === 0) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-white/60 text-sm font-medium">{label}</h4>
+        {filters[field].length > 0 && (
+          <button
+            onClick={() => onChange({ ...filters, [field]: [] })}
+            className="text-xs text-white/40 hover:text-white transition-colors"
+          >
+            Any
+          </button>
+        )}
+      </div>
+      <div className={`flex flex-wrap gap-2 ${showAll ? 'max-h-40 overflow-y-auto' : ''}`}>
+        {visible.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onChange(toggleFacetValue(filters, field, option.value))}
+            className={`px-3 py-1 rounded-lg text-xs transition-colors capitalize ${
+              filters[field].includes(option.value)
+                ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium'
+                : option.count === 0
+                  ? 'bg-white/5 text-white/40'
+                  : 'bg-white/10 text-white hover:bg-white/20'
+            }`}
+          >
+            {option.label}
+            <span className="ml-1 opacity-60">{option.count}</span>
+          </button>
+        ))}
+      </div>
+      {options.length > COLLAPSED_OPTIONS && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-2 text-xs text-white/40 hover:text-white transition-colors"
+        >
+          {showAll ? 'Show fewer' : `Show all (${options.length})`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function MinimumSelect({
+  label,
+  value,
+  steps,
+  counts,
+  unit,
+  onChange
+}: {
+  label: string;
+  value: number;
+  steps: number[];
+  counts: Map<number, number>;
+  unit: string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between text-sm text-white">
+      <span className="text-white/60">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="bg-white/10 text-white text-xs rounded-lg px-2 py-1 focus:outline-none"
+      >
+        {steps.map(step => (
+          <option key={step} value={step} className="bg-black">
+            {step === 0 ? 'Any' : `${step}+ ${unit}`} ({counts.get(step) ?? 0})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default function FilterPanel({
+  stations,
+  filters,
+  onChange,
+  hideDead,
+  deadCount,
+  onHideDeadChange,
+  onClose
+}: FilterPanelProps) {
+  const matching = useMemo(
+    () => stations.filter(station => matchesFilters(station, filters)).length,
+    [stations, filters]
+  );
+  const bitrateCounts = useMemo(() => countAtLeast(stations, filters, 'minBitrate', BITRATE_STEPS), [stations, filters]);
+  const voteCounts = useMemo(() => countAtLeast(stations, filters, 'minVotes', VOTE_STEPS), [stations, filters]);
+  const clickCounts = useMemo(() => countAtLeast(stations, filters, 'minClicks', CLICK_STEPS), [stations, filters]);
+  const toggleCounts = useMemo(() => {
+    const withoutToggles = stations.filter(station =>
+      matchesFilters(station, { ...filters, httpsOnly: false, workingOnly: false })
+    );
+    return {
+      https: withoutToggles.filter(station => isHttpsStation(station) && (!filters.workingOnly || station.lastcheckok === 1)).length,
+      working: withoutToggles.filter(station => station.lastcheckok === 1 && (!filters.httpsOnly || isHttpsStation(station))).length
+    };
+  }, [stations, filters]);
+
+  return (
+    <div className="fixed top-20 right-4 z-50 bg-black/90 backdrop-blur-sm border border-white/20 rounded-xl p-4 w-80 max-h-[calc(100vh-8rem)] overflow-y-auto">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-lg font-semibold text-white">Filters</h3>
+        <button
+          onClick={onClose}
+          className="text-white/60 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-white/60 text-xs">
+          {matching} of {stations.length} stations
+        </p>
+        <button
+          onClick={() => onChange(DEFAULT_FILTERS)}
+          disabled={activeFilterCount(filters) === 0}
+          className="text-xs text-white/40 hover:text-white transition-colors disabled:opacity-50"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {FACETS.map(({ field, label }) => (
+          <FacetSection
+            key={field}
+            stations={stations}
+            filters={filters}
+            field={field}
+            label={label}
+            onChange={onChange}
+          />
+        ))}
+
+        <div className="space-y-2">
+          <h4 className="text-white/60 text-sm font-medium">Quality</h4>
+          <MinimumSelect
+            label="Bitrate"
+            value={filters.minBitrate}
+            steps={BITRATE_STEPS}
+            counts={bitrateCounts}
+            unit="kbps"
+            onChange={minBitrate => onChange({ ...filters, minBitrate })}
+          />
+          <label className="flex items-center justify-between text-sm text-white/60 cursor-pointer">
+            <span>HTTPS streams only ({toggleCounts.https})</span>
+            <input
+              type="checkbox"
+              checked={filters.httpsOnly}
+              onChange={(e) => onChange({ ...filters, httpsOnly: e.target.checked })}
+              className="accent-purple-500"
+            />
+          </label>
+          <label className="flex items-center justify-between text-sm text-white/60 cursor-pointer">
+            <span>Passed last check ({toggleCounts.working})</span>
+            <input
+              type="checkbox"
+              checked={filters.workingOnly}
+              onChange={(e) => onChange({ ...filters, workingOnly: e.target.checked })}
+              className="accent-purple-500"
+            />
+          </label>
+          <label className="flex items-center justify-between text-sm text-white/60 cursor-pointer">
+            <span>Hide streams that don&apos;t answer ({deadCount})</span>
+            <input
+              type="checkbox"
+              checked={hideDead}
+              onChange={(e) => onHideDeadChange(e.target.checked)}
+              className="accent-purple-500"
+            />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-white/60 text-sm font-medium">Popularity</h4>
+          <MinimumSelect
+            label="Votes"
+            value={filters.minVotes}
+            steps={VOTE_STEPS}
+            counts={voteCounts}
+            unit="votes"
+            onChange={minVotes => onChange({ ...filters, minVotes })}
+          />
+          <MinimumSelect
+            label="Clicks"
+            value={filters.minClicks}
+            steps={CLICK_STEPS}
+            counts={clickCounts}
+            unit="clicks"
+            onChange={minClicks => onChange({ ...filters, minClicks })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { MutableRefObject } from 'react';
+import { Circle, CircleMarker, MapContainer, Marker, Polyline, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import { divIcon } from 'leaflet';
+import type { DivIcon, LatLngBounds, Map as LeafletMap } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { clusterStationsForZoom } from '../utils/clusterStations';
+import type { StationCluster } from '../utils/clusterStations';
+import { MAX_ZOOM, MIN_ZOOM, TILE_ATTRIBUTION, TILE_URL } from '../utils/flatMap';
+import type { LatLng } from '../utils/geo';
+import type { JourneyArc } from '../utils/journey';
+import type { Station } from '../utils/normalizeStations';
+
+interface FlatMapProps {
+  stations: Station[];
+  selectedStation: Station | null;
+  focusedStation: Station | null;
+  journeyArcs: JourneyArc[];
+  center: { lat: number; lng: number };
+  zoom: number;
+  onStationClick: (station: Station) => void;
+  onStationHover: (station: Station | null) => void;
+  isDead?: (station: Station) => boolean;
+  nearby?: { center: LatLng; radiusKm: number } | null;
+  onMapClick?: (position: LatLng) => void;
+  onMove: (view: { lat: number; lng: number; zoom: number }) => void;
+  mapRef: MutableRefObject<LeafletMap | null>;
+  onReady?: () => void;
+}
+
+// Hands the Leaflet map to the parent, which uses it to fly to stations
+function MapBinder({ mapRef, onReady }: Pick<FlatMapProps, 'mapRef' | 'onReady'>) {
+  const map = useMap();
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+  useEffect(() => {
+    mapRef.current = map;
+    onReadyRef.current?.();
+    return () => {
+      mapRef.current = null;
+    };
+  }, [map, mapRef]);
+  return null;
+}
+
+// Markers just outside the view are drawn too, so they don't pop in while panning
+const VIEW_PADDING = 0.25;
+
+interface ViewTrackerProps extends Pick<FlatMapProps, 'onMove' | 'onMapClick'> {
+  onBounds: (bounds: LatLngBounds) => void;
+}
+
+function ViewTracker({ onMove, onMapClick, onBounds }: ViewTrackerProps) {
+  const map = useMapEvents({
+    moveend: () => {
+      const { lat, lng } = map.getCenter();
+      onBounds(map.getBounds().pad(VIEW_PADDING));
+      onMove({ lat, lng, zoom: map.getZoom() });
+    },
+    click: ({ latlng }) => onMapClick?.({ lat: latlng.lat, lng: latlng.lng })
+  });
+  const onBoundsRef = useRef(onBounds);
+  onBoundsRef.current = onBounds;
+  useEffect(() => {
+    onBoundsRef.current(map.getBounds().pad(VIEW_PADDING));
+  }, [map]);
+  return null;
+}
+
+// Only a few sizes and two colours come up, so icons are built once each rather than on every render
+const clusterIcons = new Map<string, DivIcon>();
+
+function clusterIcon(count: number, isSelected: boolean) {
+  const key = `${count}:${isSelected}`;
+  const cached = clusterIcons.get(key);
+  if (cached) return cached;
+  const size = Math.min(24 + Math.log2(count) * 6, 56);
+  const icon = divIcon({
+    className: '',
+    iconSize: [size, size],
+    html: `<div class="flex items-center justify-center w-full h-full rounded-full border border-white/40 text-white text-xs font-medium ${
+      isSelected ? 'bg-[#4ECDC4]/80' : 'bg-[#A78BFA]/80'
+    }">${count}</div>`
+  });
+  clusterIcons.set(key, icon);
+  return icon;
+}
+
+// Leaflet map of the same stations the globe shows, for machines where WebGL struggles
+// and for browsing at street level
+export default function FlatMap({
+  stations,
+  selectedStation,
+  focusedStation,
+  journeyArcs,
+  center,
+  zoom,
+  onStationClick,
+  onStationHover,
+  isDead,
+  nearby,
+  onMapClick,
+  onMove,
+  mapRef,
+  onReady
+}: FlatMapProps) {
+  const [currentZoom, setCurrentZoom] = useState(zoom);
+  // Null until the map has laid out
+  const [bounds, setBounds] = useState<LatLngBounds | null>(null);
+  const clusters = useMemo(() => clusterStationsForZoom(stations, currentZoom), [stations, currentZoom]);
+  // Only markers in view are drawn, at street level that can be a handful out of thousands
+  const visibleClusters = useMemo(
+    () => (bounds ? clusters.filter(cluster => bounds.contains([cluster.lat, cluster.lng])) : []),
+    [clusters, bounds]
+  );
+
+  const handleMove = (view: { lat: number; lng: number; zoom: number }) => {
+    setCurrentZoom(view.zoom);
+    onMove(view);
+  };
+
+  // Same as clicking a cluster on the globe: zoom in until it splits up
+  const handleClusterClick = (cluster: StationCluster) => {
+    mapRef.current?.flyTo([cluster.lat, cluster.lng], Math.min(currentZoom + 3, MAX_ZOOM), { duration: 1 });
+  };
+
+  // By uuid: stations restored from links, favorites or search are different objects
+  const isSelected = (station: Station) => station.stationuuid === selectedStation?.stationuuid;
+  const isFocused = (station: Station) => station.stationuuid === focusedStation?.stationuuid;
+
+  const stationColor = (station: Station) => {
+    if (isFocused(station)) return '#FF6B6B';
+    if (isSelected(station)) return '#4ECDC4';
+    return '#ffffff';
+  };
+  // Dead streams stay on the map, just faded like on the globe
+  const stationOpacity = (station: Station) =>
+    isDead?.(station) && !isSelected(station) && !isFocused(station) ? 0.25 : 0.8;
+
+  return (
+    <MapContainer
+      center={[center.lat, center.lng]}
+      zoom={zoom}
+      minZoom={MIN_ZOOM}
+      maxZoom={MAX_ZOOM}
+      worldCopyJump={true}
+      // One canvas instead of an SVG element per marker
+      preferCanvas={true}
+      className="w-full h-full bg-black"
+    >
+      <MapBinder mapRef={mapRef} onReady={onReady} />
+      <ViewTracker onMove={handleMove} onMapClick={onMapClick} onBounds={setBounds} />
+      <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} />
+
+      {journeyArcs.map(arc => (
+        <Polyline
+          key={arc.index}
+          positions={[[arc.startLat, arc.startLng], [arc.endLat, arc.endLng]]}
+          pathOptions={{ color: '#EC4899', weight: 2, opacity: 0.6, dashArray: '6 6' }}
+        />
+      ))}
+
+      {nearby && (
+        <>
+          <Circle
+            center={[nearby.center.lat, nearby.center.lng]}
+            radius={nearby.radiusKm * 1000}
+            pathOptions={{ color: '#EC4899', weight: 1.5, fillOpacity: 0.05 }}
+            interactive={false}
+          />
+          <CircleMarker
+            center={[nearby.center.lat, nearby.center.lng]}
+            radius={6}
+            pathOptions={{ color: '#ffffff', fillColor: '#EC4899', fillOpacity: 1, weight: 2 }}
+            interactive={false}
+          />
+        </>
+      )}
+
+      {visibleClusters.map(cluster => {
+        if (cluster.stations.length > 1) {
+          return (
+            <Marker
+              key={cluster.id}
+              position={[cluster.lat, cluster.lng]}
+              icon={clusterIcon(cluster.stations.length, cluster.stations.some(isSelected))}
+              title={`${cluster.stations.length} stations`}
+              eventHandlers={{ click: () => handleClusterClick(cluster) }}
+            />
+          );
+        }
+        const station = cluster.stations[0];
+        return (
+          <CircleMarker
+            key={cluster.id}
+            center={[station.latitude, station.longitude]}
+            radius={isSelected(station) || isFocused(station) ? 8 : 5}
+            pathOptions={{
+              color: stationColor(station),
+              fillColor: stationColor(station),
+              fillOpacity: stationOpacity(station),
+              opacity: stationOpacity(station),
+              weight: 1
+            }}
+            eventHandlers={{
+              click: () => onStationClick(station),
+              mouseover: () => onStationHover(station),
+              mouseout: () => onStationHover(null)
+            }}
+          />
+        );
+      })}
+    </MapContainer>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+import { useEffect, useRef, useState } from 'react';
+import { usePinnedTags } from '../hooks/usePinnedTags';
+import type { RadioBrowserTag } from '../utils/fetchStations';
+import type { TagMatch } from '../utils/stationsApi';
+import { MAX_SELECTED_TAGS, normalizeTag, searchTagCatalogue, toggleTag } from '../utils/tags';
+
+interface GenreSelectorProps {
+  tags: string[];
+  match: TagMatch;
+  onTagsChange: (tags: string[]) => void;
+  onMatchChange: (match: TagMatch) => void;
+}
+
+const genres = [
+  { value: 'jazz', label: 'Jazz', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' },
+  { value: 'rock', label: 'Rock', icon: 'M11.933 12.8a1 1 0 000-1.6L6.6 7.2A1 1 0 005 8v8a1 1 0 001.6.8l5.333-4zM19.933 12.8a1 1 0 000-1.6l-5.333-4A1 1 0 0013 8v8a1 1 0 001.6.8l5.333-4z' },
+  { value: 'classical', label: 'Classical', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' },
+  { value: 'electronic', label: 'Electronic', icon: 'M13 10V3L4 14h7v7l9-11h-7z' },
+  { value: 'lofi', label: 'Lofi', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' },
+  { value: 'blues', label: 'Blues', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' },
+  { value: 'hiphop', label: 'Hip Hop', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' },
+  { value: 'ambient', label: 'Ambient', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' }
+];
+
+const BUILT_IN_TAGS = genres.map(genre => genre.value);
+
+// Wait for the user to stop typing before querying the tag catalogue
+const SUGGEST_DELAY_MS = 250;
+
+function PinIcon({ className }: { className: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+    </svg>
+  );
+}
+
+export default function GenreSelector({ tags, match, onTagsChange, onMatchChange }: GenreSelectorProps) {
+  const { pinned, pin, unpin } = usePinnedTags();
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<RadioBrowserTag[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const filter = normalizeTag(query);
+    if (!filter) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setIsSearching(true);
+      searchTagCatalogue(filter)
+        .then(results => {
+          if (!cancelled) setSuggestions(results);
+        })
+        .catch(error => {
+          console.error('Error searching tags:', error);
+          if (!cancelled) setSuggestions([]);
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearching(false);
+        });
+    }, SUGGEST_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setShowSuggestions(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleToggle = (tag: string) => onTagsChange(toggleTag(tags, tag));
+
+  const handleSelectSuggestion = (tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (!tags.includes(normalized)) handleToggle(normalized);
+    setQuery('');
+    setShowSuggestions(false);
+  };
+
+  // Pinned tags and custom tags selected from search or a shared link sit next to the built-in genres
+  const customTags = Array.from(new Set([...pinned, ...tags])).filter(tag => !BUILT_IN_TAGS.includes(tag));
+  const isFull = tags.length >= MAX_SELECTED_TAGS;
+
+  const tagButtonClass = (tag: string) =>
+    `group relative px-4 py-2 rounded-lg text-sm transition-all duration-300 transform hover:scale-105 ${
+      tags.includes(tag)
+        ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium'
+        : 'bg-white/10 text-white hover:bg-white/20'
+    }`;
+
+  return (
+    <div className="flex-1 bg-black/80 backdrop-blur-sm rounded-xl border border-white/20 shadow-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-white/60 text-sm font-medium">Genres</h4>
+        {tags.length > 1 && (
+          <div className="flex space-x-1" title="Show stations with any or all of the selected genres">
+            {(['any', 'all'] as TagMatch[]).map(option => (
+              <button
+                key={option}
+                onClick={() => onMatchChange(option)}
+                className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                  match === option ? 'bg-white/30 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'
+                }`}
+              >
+                {option === 'any' ? 'Any' : 'All'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {genres.map((genre) => (
+          <button
+            key={genre.value}
+            onClick={() => handleToggle(genre.value)}
+            className={tagButtonClass(genre.value)}
+          >
+            <span className="flex items-center space-x-2">
+              {tags.includes(genre.value) && (
+                <span className="absolute -top-1 -right-1 w-2 h-2 bg-green-400 rounded-full animate-pulse" />
+              )}
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={genre.icon} />
+              </svg>
+              <span>{genre.label}</span>
+            </span>
+          </button>
+        ))}
+
+        {customTags.map(tag => {
+          const isPinned = pinned.includes(tag);
+          // The pin sits over the chip's right padding as a sibling, since buttons can't nest
+          return (
+            <div key={tag} className="relative">
+              <button onClick={() => handleToggle(tag)} className={`${tagButtonClass(tag)} pr-9`}>
+                {tags.includes(tag) && (
+                  <span className="absolute -top-1 -right-1 w-2 h-2 bg-green-400 rounded-full animate-pulse" />
+                )}
+                <span className="capitalize">{tag}</span>
+              </button>
+              <button
+                onClick={() => {
+                  if (isPinned) {
+                    unpin(tag);
+                  } else {
+                    pin(tag);
+                  }
+                }}
+                className={`absolute right-3 top-1/2 -translate-y-1/2 transition-colors ${
+                  isPinned ? 'text-white' : 'text-white/40 hover:text-white'
+                }`}
+                title={isPinned ? 'Unpin from the filter bar' : 'Pin to the filter bar'}
+                aria-label={isPinned ? `Unpin ${tag} from the filter bar` : `Pin ${tag} to the filter bar`}
+              >
+                <PinIcon className={`w-3.5 h-3.5 ${isPinned ? 'fill-current' : ''}`} />
+              </button>
+            </div>
+          );
+        })}
+
+        <div ref={containerRef} className="relative">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setShowSuggestions(true);
+            }}
+            onFocus={() => setShowSuggestions(true)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && normalizeTag(query)) handleSelectSuggestion(suggestions[0]?.name ?? query);
+              if (e.key === 'Escape') setShowSuggestions(false);
+            }}
+            disabled={isFull}
+            placeholder={isFull ? `Up to ${MAX_SELECTED_TAGS} genres` : 'Any other tag...'}
+            className="w-40 px-3 py-2 bg-white/10 rounded-lg text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+          />
+          {showSuggestions && normalizeTag(query) && (
+            <div className="absolute top-full left-0 mt-2 w-64 z-50 bg-black/90 backdrop-blur-sm rounded-xl border border-white/20 shadow-lg p-2 max-h-72 overflow-y-auto">
+              {isSearching && suggestions.length === 0 ? (
+                <p className="px-3 py-2 text-white/60 text-sm">Searching...</p>
+              ) : suggestions.length === 0 ? (
+                <p className="px-3 py-2 text-white/60 text-sm">No matching tags</p>
+              ) : (
+                suggestions.map(suggestion => {
+                  const tag = normalizeTag(suggestion.name);
+                  return (
+                    <div
+                      key={suggestion.name}
+                      className="flex items-center justify-between px-3 py-2 rounded-lg text-sm text-white hover:bg-white/20 transition-colors"
+                    >
+                      <button onClick={() => handleSelectSuggestion(tag)} className="flex-1 text-left truncate">
+                        {tag}
+                        <span className="ml-2 text-white/40 text-xs">{suggestion.stationcount.toLocaleString()}</span>
+                      </button>
+                      {!BUILT_IN_TAGS.includes(tag) && (
+                        <button
+                          onClick={() => (pinned.includes(tag) ? unpin(tag) : pin(tag))}
+                          className={`ml-2 transition-colors ${pinned.includes(tag) ? 'text-white' : 'text-white/40 hover:text-white'}`}
+                          title={pinned.includes(tag) ? 'Unpin from the filter bar' : 'Pin to the filter bar'}
+                        >
+                          <PinIcon className={`w-3.5 h-3.5 ${pinned.includes(tag) ? 'fill-current' : ''}`} />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+import { useMemo, useState } from 'react';
+import Image from 'next/image';
+import type { ListeningHistoryApi } from '../hooks/useListeningHistory';
+import { stationTotals } from '../utils/listeningHistory';
+import type { Station } from '../utils/normalizeStations';
+import { formatDuration, formatRelativeTime } from '../utils/format';
+
+interface HistoryPanelProps {
+  history: ListeningHistoryApi;
+  onPlay: (station: Station) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+type HistoryView = 'recent' | 'totals';
+
+function StationIcon({ station }: { station: Station }) {
+  return station.favicon ? (
+    <Image
+      src={station.favicon}
+      alt={station.name}
+      width={24}
+      height={24}
+      className="rounded"
+    />
+  ) : (
+    <div className="w-6 h-6 bg-white/10 rounded flex-shrink-0" />
+  );
+}
+
+function PlayButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className="p-1 rounded-full hover:bg-white/20 transition-colors flex-shrink-0"
+      title="Play again"
+    >
+      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+      </svg>
+    </button>
+  );
+}
+
+export default function HistoryPanel({ history, onPlay, onClose, className = 'left-4' }: HistoryPanelProps) {
+  const [view, setView] = useState<HistoryView>('recent');
+  const totals = useMemo(() => stationTotals(history.sessions), [history.sessions]);
+
+  const handleClear = () => {
+    if (window.confirm('Clear your whole listening history?')) {
+      history.clearHistory();
+    }
+  };
+
+  return (
+    <div className={`fixed top-20 ${className} z-50 bg-black/90 backdrop-blur-sm border border-white/20 rounded-xl p-4 w-80 max-h-[calc(100vh-8rem)] overflow-y-auto`}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-white">Recently Played</h3>
+        <button
+          onClick={onClose}
+          className="text-white/60 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex space-x-2">
+          {(['recent', 'totals'] as HistoryView[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 rounded-lg text-xs transition-colors ${
+                view === option
+                  ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium'
+                  : 'bg-white/10 text-white hover:bg-white/20'
+              }`}
+            >
+              {option === 'recent' ? 'Recent' : 'Most listened'}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleClear}
+          disabled={history.sessions.length === 0}
+          className="text-xs text-white/40 hover:text-white transition-colors disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {history.sessions.length === 0 ? (
+          <p className="text-white/60 text-sm">Nothing played yet</p>
+        ) : view === 'recent' ? (
+          history.sessions.map(session => (
+            <div
+              key={session.id}
+              className="flex items-center justify-between p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+            >
+              <div className="flex items-center space-x-2 min-w-0">
+                <StationIcon station={session.station} />
+                <div className="min-w-0">
+                  <p className="text-white text-sm truncate">{session.station.name}</p>
+                  <p className="text-white/40 text-xs truncate">
+                    {formatRelativeTime(session.endedAt)} · {formatDuration(session.durationMs)}
+                    {session.genre && ` · ${session.genre}`}
+                  </p>
+                </div>
+              </div>
+              <PlayButton onClick={() => onPlay(session.station)} />
+            </div>
+          ))
+        ) : (
+          totals.map(total => (
+            <div
+              key={total.station.stationuuid}
+              className="flex items-center justify-between p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+            >
+              <div className="flex items-center space-x-2 min-w-0">
+                <StationIcon station={total.station} />
+                <div className="min-w-0">
+                  <p className="text-white text-sm truncate">{total.station.name}</p>
+                  <p className="text-white/40 text-xs truncate">
+                    {formatDuration(total.totalMs)} over {total.plays} session{total.plays === 1 ? '' : 's'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => history.removeStation(total.station.stationuuid)}
+                  className="p-1 rounded-full hover:bg-white/20 transition-colors"
+                  title="Forget this station"
+                >
+                  <svg className="w-4 h-4 text-white/60" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+                <PlayButton onClick={() => onPlay(total.station)} />
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+import { useMemo } from 'react';
+import { summarizeJourney } from '../utils/journey';
+import type { Journey } from '../utils/journey';
+import { formatDistance, formatDuration, formatRelativeTime } from '../utils/format';
+
+interface JourneyPanelProps {
+  journeys: Journey[];
+  journey: Journey | null;
+  onSelectJourney: (id: string) => void;
+  // Index of the last stop shown
+  position: number;
+  onPositionChange: (position: number) => void;
+  isReplaying: boolean;
+  onToggleReplay: () => void;
+  onClose: () => void;
+  className?: string;
+}
+
+function describeJourney(journey: Journey, index: number) {
+  const when = index === 0 ? 'Latest' : formatRelativeTime(journey.endedAt);
+  return `${when} · ${journey.stops.length} station${journey.stops.length === 1 ? '' : 's'}`;
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-white/5 rounded-lg px-3 py-2 min-w-0">
+      <p className="text-white/40 text-xs">{label}</p>
+      <p className="text-white text-sm truncate">{value}</p>
+    </div>
+  );
+}
+
+export default function JourneyPanel({
+  journeys,
+  journey,
+  onSelectJourney,
+  position,
+  onPositionChange,
+  isReplaying,
+  onToggleReplay,
+  onClose,
+  className = 'left-4'
+}: JourneyPanelProps) {
+  // The summary follows the scrubber, so replaying builds it up stop by stop
+  const visibleStops = useMemo(() => journey?.stops.slice(0, position + 1) ?? [], [journey, position]);
+  const summary = useMemo(() => summarizeJourney(visibleStops), [visibleStops]);
+  const stop = journey?.stops[position];
+
+  return (
+    <div className={`fixed top-20 ${className} z-50 bg-black/90 backdrop-blur-sm border border-white/20 rounded-xl p-4 w-80 max-h-[calc(100vh-8rem)] overflow-y-auto`}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-white">Journey</h3>
+        <button
+          onClick={onClose}
+          className="text-white/60 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {!journey ? (
+        <p className="text-white/60 text-sm">Play a few stations and your route shows up here</p>
+      ) : (
+        <div className="space-y-4">
+          <select
+            value={journey.id}
+            onChange={(e) => onSelectJourney(e.target.value)}
+            className="w-full bg-white/10 text-white text-sm rounded-lg px-2 py-1 focus:outline-none"
+          >
+            {journeys.map((option, index) => (
+              <option key={option.id} value={option.id} className="bg-black">
+                {describeJourney(option, index)}
+              </option>
+            ))}
+          </select>
+
+          {/* Timeline */}
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={onToggleReplay}
+                disabled={journey.stops.length < 2}
+                className="p-1 rounded-full hover:bg-white/20 transition-colors disabled:opacity-50"
+                title={isReplaying ? 'Pause replay' : 'Replay journey'}
+              >
+                {isReplaying ? (
+                  <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                ) : (
+                  <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                )}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={journey.stops.length - 1}
+                value={position}
+                onChange={(e) => onPositionChange(Number(e.target.value))}
+                disabled={journey.stops.length < 2}
+                aria-label="Journey timeline"
+                className="flex-1 accent-purple-500"
+              />
+              <span className="text-white/40 text-xs">
+                {position + 1}/{journey.stops.length}
+              </span>
+            </div>
+            {stop && (
+              <div className="p-2 rounded-lg bg-white/10">
+                <p className="text-white text-sm truncate">{stop.station.name}</p>
+                <p className="text-white/40 text-xs truncate">
+                  {[stop.station.country, new Date(stop.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 gap-2">
+            <Stat label="Distance" value={formatDistance(summary.distanceKm)} />
+            <Stat label="Listened" value={formatDuration(summary.listenedMs)} />
+            <Stat label="Stations" value={String(summary.stations)} />
+            <Stat label="Countries" value={String(summary.countries.length)} />
+          </div>
+          {summary.countries.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-white/60 text-sm font-medium">Countries visited</h4>
+              <p className="text-white text-sm">{summary.countries.join(', ')}</p>
+            </div>
+          )}
+          {summary.genres.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-white/60 text-sm font-medium">Genres heard</h4>
+              <div className="flex flex-wrap gap-2">
+                {summary.genres.map(genre => (
+                  <span key={genre} className="px-2 py-0.5 rounded-lg bg-white/10 text-white/80 text-xs">
+                    {genre}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
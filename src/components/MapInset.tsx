@@ -0,0 +1,44 @@
+'use client';
+
+interface MapInsetProps {
+  lat: number;
+  lng: number;
+  width?: number;
+  height?: number;
+  // How many times the whole world fits across the inset
+  zoom?: number;
+}
+
+// Same equirectangular texture as the globe
+const EARTH_TEXTURE_URL = '//unpkg.com/three-globe/example/img/earth-dark.jpg';
+
+// Crops the world texture around a point, so no map tiles are needed
+export default function MapInset({ lat, lng, width = 320, height = 140, zoom = 4 }: MapInsetProps) {
+  const imageWidth = width * zoom;
+  const imageHeight = imageWidth / 2;
+  const x = ((lng + 180) / 360) * imageWidth;
+  const y = ((90 - lat) / 180) * imageHeight;
+
+  // Horizontally the texture repeats, vertically it stops at the poles
+  const offsetX = width / 2 - x;
+  const offsetY = Math.min(0, Math.max(height - imageHeight, height / 2 - y));
+
+  return (
+    <div
+      className="relative rounded-lg border border-white/20 overflow-hidden"
+      style={{
+        width,
+        height,
+        backgroundImage: `url(${EARTH_TEXTURE_URL})`,
+        backgroundSize: `${imageWidth}px ${imageHeight}px`,
+        backgroundPosition: `${offsetX}px ${offsetY}px`,
+        backgroundRepeat: 'repeat-x'
+      }}
+    >
+      <span
+        className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-pink-500 ring-4 ring-pink-500/30"
+        style={{ left: width / 2, top: offsetY + y }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+import { MAP_LAYERS } from '../utils/mapLayers';
+import type { LegendStop, MapLayer } from '../utils/mapLayers';
+
+interface MapLayerControlProps {
+  layer: MapLayer;
+  onLayerChange: (layer: MapLayer) => void;
+  legendTitle: string;
+  legend: LegendStop[];
+  hint?: string | null;
+}
+
+export default function MapLayerControl({ layer, onLayerChange, legendTitle, legend, hint }: MapLayerControlProps) {
+  return (
+    <div className="fixed bottom-8 left-4 z-40 bg-black/80 backdrop-blur-sm border border-white/20 rounded-xl p-3 w-56 space-y-3">
+      <div className="flex space-x-1">
+        {MAP_LAYERS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onLayerChange(option.value)}
+            className={`flex-1 py-1 rounded-lg text-xs transition-colors ${
+              layer === option.value
+                ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium'
+                : 'bg-white/10 text-white/60 hover:bg-white/20'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {layer !== 'points' && legend.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-white/60 text-xs">{legendTitle}</p>
+          <div
+            className="h-2 rounded-full"
+            style={{ background: `linear-gradient(to right, ${legend.map(stop => stop.color).join(', ')})` }}
+          />
+          <div className="flex justify-between text-white/40 text-xs">
+            {legend.map(stop => (
+              <span key={stop.label}>{stop.label}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {hint && <p className="text-white/40 text-xs">{hint}</p>}
+    </div>
+  );
+}
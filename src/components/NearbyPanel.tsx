@@ -0,0 +1,133 @@
+'use client';
+import type { Station } from '../utils/normalizeStations';
+import { RADIUS_OPTIONS_KM } from '../utils/nearby';
+import type { NearbyOrigin, NearbyStation } from '../utils/nearby';
+import { formatDistance } from '../utils/format';
+
+interface NearbyPanelProps {
+  origin: NearbyOrigin | null;
+  radiusKm: number;
+  onRadiusChange: (radiusKm: number) => void;
+  // Within the radius among the stations the current tags and filters show, closest first
+  nearby: NearbyStation[];
+  isLocating: boolean;
+  locateError: string | null;
+  onLocate: () => void;
+  isPlacingPin: boolean;
+  onTogglePlacePin: () => void;
+  onClear: () => void;
+  currentStation: Station | null;
+  onSelect: (station: Station) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+// Rows rendered; the rest are summed up below the list
+const MAX_ROWS = 100;
+
+export default function NearbyPanel({
+  origin,
+  radiusKm,
+  onRadiusChange,
+  nearby,
+  isLocating,
+  locateError,
+  onLocate,
+  isPlacingPin,
+  onTogglePlacePin,
+  onClear,
+  currentStation,
+  onSelect,
+  onClose,
+  className = 'left-4'
+}: NearbyPanelProps) {
+  return (
+    <div className={`fixed top-20 ${className} z-50 bg-black/90 backdrop-blur-sm border border-white/20 rounded-xl p-4 w-80 max-h-[calc(100vh-8rem)] overflow-y-auto`}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-white">Near Me</h3>
+        <button
+          onClick={onClose}
+          className="text-white/60 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex space-x-2">
+          <button
+            onClick={onLocate}
+            disabled={isLocating}
+            className="flex-1 py-1 rounded-lg text-xs bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium disabled:opacity-50"
+          >
+            {isLocating ? 'Locating…' : 'Use my location'}
+          </button>
+          <button
+            onClick={onTogglePlacePin}
+            className={`flex-1 py-1 rounded-lg text-xs transition-colors ${
+              isPlacingPin ? 'bg-white/30 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'
+            }`}
+          >
+            {isPlacingPin ? 'Click the map…' : 'Drop a pin'}
+          </button>
+        </div>
+        {locateError && <p className="text-red-400 text-xs">{locateError}</p>}
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center space-x-2 text-sm text-white/60">
+            <span>Within</span>
+            <select
+              value={radiusKm}
+              onChange={(e) => onRadiusChange(Number(e.target.value))}
+              className="bg-white/10 text-white text-xs rounded-lg px-2 py-1 focus:outline-none"
+            >
+              {RADIUS_OPTIONS_KM.map(km => (
+                <option key={km} value={km} className="bg-black">
+                  {km} km
+                </option>
+              ))}
+            </select>
+          </label>
+          {origin && (
+            <button onClick={onClear} className="text-xs text-white/40 hover:text-white transition-colors">
+              Clear
+            </button>
+          )}
+        </div>
+
+        {!origin ? (
+          <p className="text-white/60 text-sm">Share your location or drop a pin to find stations around it</p>
+        ) : nearby.length === 0 ? (
+          <p className="text-white/60 text-sm">No stations for the current tags and filters within {radiusKm} km</p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-white/40 text-xs">
+              {nearby.length} station{nearby.length === 1 ? '' : 's'} around{' '}
+              {origin.source === 'pin' ? 'the pin' : 'you'}
+            </p>
+            {nearby.slice(0, MAX_ROWS).map(({ station, distanceKm }) => (
+              <button
+                key={station.stationuuid}
+                onClick={() => onSelect(station)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm text-white transition-colors ${
+                  station.stationuuid === currentStation?.stationuuid ? 'bg-white/25' : 'bg-white/10 hover:bg-white/20'
+                }`}
+              >
+                <div className="flex items-center justify-between space-x-2">
+                  <span className="truncate">{station.name}</span>
+                  <span className="text-white/40 text-xs flex-shrink-0">{formatDistance(distanceKm)}</span>
+                </div>
+                {station.state && <p className="text-white/40 text-xs truncate">{station.state}</p>}
+              </button>
+            ))}
+            {nearby.length > MAX_ROWS && (
+              <p className="text-white/40 text-xs">and {nearby.length - MAX_ROWS} more further out</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+import type { RecorderApi } from '../hooks/useRecorder';
+import { BUFFER_OPTIONS_MS, BUFFER_UNSUPPORTED_MESSAGE } from '../utils/recorder';
+import { formatBytes, formatDuration } from '../utils/format';
+
+interface RecordingControlsProps {
+  recorder: RecorderApi;
+  isHls: boolean;
+}
+
+function formatMinutes(ms: number) {
+  return `${Math.round(ms / 60000)} min`;
+}
+
+export default function RecordingControls({ recorder, isHls }: RecordingControlsProps) {
+  const { active, error } = recorder;
+
+  if (!active) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={recorder.start}
+            disabled={!recorder.canRecord}
+            className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-white text-xs disabled:opacity-50"
+            title={isHls ? 'HLS streams can’t be recorded' : 'Record this station'}
+          >
+            <span className="w-2 h-2 bg-red-500 rounded-full" />
+            <span>Record</span>
+          </button>
+          <select
+            value=""
+            onChange={(e) => recorder.startBuffer(Number(e.target.value))}
+            disabled={!recorder.canBuffer}
+            className="bg-white/10 text-white text-xs rounded-lg px-2 py-1 focus:outline-none disabled:opacity-50"
+            aria-label="Keep a rolling buffer"
+            title={recorder.canRecord && !recorder.canBuffer ? BUFFER_UNSUPPORTED_MESSAGE : undefined}
+          >
+            <option value="" disabled className="bg-black">Keep the last…</option>
+            {BUFFER_OPTIONS_MS.map(ms => (
+              <option key={ms} value={ms} className="bg-black">
+                {formatMinutes(ms)}
+              </option>
+            ))}
+          </select>
+        </div>
+        {error && <p className="text-red-400 text-xs">{error}</p>}
+      </div>
+    );
+  }
+
+  const heldMs = Date.now() - active.startedAt;
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse flex-shrink-0" />
+      <p className="flex-grow text-white/80 text-xs truncate">
+        {active.mode === 'recording'
+          ? `Recording · ${formatDuration(heldMs)} · ${formatBytes(active.bytes)}`
+          : `Keeping the last ${formatMinutes(active.bufferMs ?? 0)} · ${formatDuration(heldMs)} held`}
+      </p>
+      {active.mode === 'buffering' && (
+        <button
+          onClick={recorder.saveBuffer}
+          className="px-2 py-1 rounded-lg bg-gradient-to-r from-purple-500 to-pink-500 text-white text-xs font-medium"
+        >
+          Save
+        </button>
+      )}
+      <button
+        onClick={recorder.stop}
+        className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-white text-xs"
+        title={active.mode === 'recording' ? 'Stop and keep the recording' : 'Stop buffering'}
+      >
+        Stop
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+import type { Recording } from '../utils/recorder';
+import { downloadFile } from '../utils/download';
+import { formatBytes, formatDuration, formatRelativeTime } from '../utils/format';
+
+interface RecordingsPanelProps {
+  recordings: Recording[];
+  onRemove: (id: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export default function RecordingsPanel({ recordings, onRemove, onClose, className = 'left-4' }: RecordingsPanelProps) {
+  return (
+    <div className={`fixed top-20 ${className} z-50 bg-black/90 backdrop-blur-sm border border-white/20 rounded-xl p-4 w-80 max-h-[calc(100vh-8rem)] overflow-y-auto`}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-white">Recordings</h3>
+        <button
+          onClick={onClose}
+          className="text-white/60 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {recordings.length === 0 ? (
+        <p className="text-white/60 text-sm">Record from the player and your clips show up here</p>
+      ) : (
+        <div className="space-y-2">
+          {recordings.map(recording => (
+            <div key={recording.id} className="flex items-center space-x-2 p-2 rounded-lg bg-white/10">
+              <div className="flex-grow min-w-0">
+                <p className="text-white text-sm truncate" title={recording.filename}>
+                  {recording.track?.raw ?? recording.station.name}
+                </p>
+                <p className="text-white/40 text-xs truncate">
+                  {[
+                    recording.track ? recording.station.name : null,
+                    formatDuration(recording.durationMs),
+                    formatBytes(recording.blob.size),
+                    formatRelativeTime(recording.startedAt)
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              </div>
+              <button
+                onClick={() => downloadFile(recording.filename, recording.blob)}
+                className="p-1 rounded-full hover:bg-white/20 transition-colors flex-shrink-0"
+                title="Download"
+              >
+                <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+              </button>
+              <button
+                onClick={() => onRemove(recording.id)}
+                className="p-1 rounded-full hover:bg-white/20 transition-colors flex-shrink-0"
+                title="Delete"
+              >
+                <svg className="w-4 h-4 text-white/60" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          ))}
+          <p className="text-white/40 text-xs">Recordings are kept until you close the page, so download the ones you want.</p>
+        </div>
+      )}
+    </div>
+  );
+}
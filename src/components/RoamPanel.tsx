@@ -0,0 +1,202 @@
+'use client';
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import type { RoamApi } from '../hooks/useRoam';
+import { useNow } from '../hooks/useNow';
+import type { Station } from '../utils/normalizeStations';
+import { DWELL_OPTIONS_MS, ROAM_RULES, describeTour } from '../utils/roam';
+import type { RoamRule } from '../utils/roam';
+import { formatDuration, formatRelativeTime } from '../utils/format';
+
+interface RoamPanelProps {
+  roam: RoamApi;
+  currentStation: Station | null;
+  onClose: () => void;
+  className?: string;
+}
+
+function DwellSelect({ value, onChange }: { value: number; onChange: (ms: number) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="bg-white/10 text-white text-xs rounded-lg px-2 py-1 focus:outline-none"
+    >
+      {DWELL_OPTIONS_MS.map(ms => (
+        <option key={ms} value={ms} className="bg-black">
+          {formatDuration(ms)} per station
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function RoamPanel({ roam, currentStation, onClose, className = 'left-4' }: RoamPanelProps) {
+  const now = useNow();
+  const [rule, setRule] = useState<RoamRule>('nearest');
+  const [dwellMs, setDwellMs] = useState(DWELL_OPTIONS_MS[1]);
+  const [routeName, setRouteName] = useState('');
+  const { session } = roam;
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    roam.saveTour(routeName);
+    setRouteName('');
+  };
+
+  return (
+    <div className={`fixed top-20 ${className} z-50 bg-black/90 backdrop-blur-sm border border-white/20 rounded-xl p-4 w-80 max-h-[calc(100vh-8rem)] overflow-y-auto`}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-white">Radio Roam</h3>
+        <button
+          onClick={onClose}
+          className="text-white/60 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="space-y-6">
+        {session?.active ? (
+          <div className="space-y-2">
+            <h4 className="text-white/60 text-sm font-medium">
+              {session.route ? `Replaying ${session.route.name}` : 'Roaming'}
+            </h4>
+            <div className="p-2 rounded-lg bg-white/10">
+              <p className="text-white text-sm">{describeTour(session.tour)}</p>
+              {session.nextAt !== null && (
+                <p className="text-white/40 text-xs">Next stop in {formatDuration(session.nextAt - now)}</p>
+              )}
+              {session.remainingMs !== null && (
+                <p className="text-white/40 text-xs">Paused, {formatDuration(session.remainingMs)} left at this stop</p>
+              )}
+            </div>
+            <div className="flex items-center justify-between">
+              <DwellSelect value={session.tour.dwellMs} onChange={roam.setDwell} />
+              <div className="flex space-x-2">
+                <button
+                  onClick={roam.skip}
+                  className="px-3 py-1 rounded-lg text-xs bg-white/10 text-white hover:bg-white/20 transition-colors"
+                >
+                  Skip
+                </button>
+                <button
+                  onClick={roam.stop}
+                  className="px-3 py-1 rounded-lg text-xs bg-white/10 text-white hover:bg-white/20 transition-colors"
+                >
+                  Stop
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <h4 className="text-white/60 text-sm font-medium">Start a tour</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {ROAM_RULES.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setRule(option.value)}
+                  title={option.description}
+                  className={`px-3 py-1 rounded-lg text-xs transition-colors ${
+                    rule === option.value ? 'bg-white/30 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-white/40 text-xs">{ROAM_RULES.find(option => option.value === rule)?.description}</p>
+            <div className="flex items-center justify-between">
+              <DwellSelect value={dwellMs} onChange={setDwellMs} />
+              <button
+                onClick={() => roam.start(rule, dwellMs, currentStation)}
+                className="px-3 py-1 rounded-lg text-xs bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium"
+              >
+                Start roaming
+              </button>
+            </div>
+            <p className="text-white/40 text-xs">
+              {currentStation ? `Starts from ${currentStation.name}.` : 'Starts from a random station.'}
+            </p>
+          </div>
+        )}
+
+        {/* Finished or stopped tour */}
+        {session && !session.active && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-white/60 text-sm font-medium">Last tour</h4>
+              <button
+                onClick={roam.clear}
+                className="text-xs text-white/60 hover:text-white transition-colors"
+              >
+                Discard
+              </button>
+            </div>
+            {session.endedReason && <p className="text-white/40 text-xs">{session.endedReason}</p>}
+            <p className="text-white text-sm">{describeTour(session.tour)}</p>
+            {session.tour.stops.length > 1 && !session.route && (
+              <form onSubmit={handleSave} className="flex space-x-2">
+                <input
+                  type="text"
+                  value={routeName}
+                  onChange={(e) => setRouteName(e.target.value)}
+                  placeholder="Name this tour"
+                  className="flex-1 min-w-0 bg-white/10 text-white text-sm rounded-lg px-2 py-1 placeholder-white/40 focus:outline-none"
+                />
+                <button
+                  type="submit"
+                  className="px-3 py-1 rounded-lg text-xs bg-white/10 text-white hover:bg-white/20 transition-colors"
+                >
+                  Save
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+
+        {/* Saved Routes */}
+        <div className="space-y-2">
+          <h4 className="text-white/60 text-sm font-medium">Saved tours</h4>
+          {roam.routes.length === 0 ? (
+            <p className="text-white/60 text-sm">No saved tours yet</p>
+          ) : (
+            roam.routes.map(route => (
+              <div key={route.id} className="flex items-center justify-between p-2 rounded-lg bg-white/10">
+                <div className="min-w-0">
+                  <p className="text-white text-sm truncate">{route.name}</p>
+                  <p className="text-white/40 text-xs truncate">
+                    {describeTour(route)} · {formatRelativeTime(route.createdAt)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    onClick={() => roam.replay(route)}
+                    className="p-1 rounded-full hover:bg-white/20 transition-colors"
+                    title="Replay"
+                  >
+                    <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => roam.removeRoute(route.id)}
+                    className="p-1 rounded-full hover:bg-white/20 transition-colors"
+                    title="Delete"
+                  >
+                    <svg className="w-4 h-4 text-white/60" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
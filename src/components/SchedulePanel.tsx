@@ -0,0 +1,229 @@
+'use client';
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import type { SchedulerApi } from '../hooks/useScheduler';
+import { useNow } from '../hooks/useNow';
+import { displayName } from '../utils/favorites';
+import type { FavoriteEntry } from '../utils/favorites';
+import type { Station } from '../utils/normalizeStations';
+import { DAY_LABELS, describeDays, upcomingSchedule } from '../utils/schedules';
+import { formatDuration } from '../utils/format';
+
+interface SchedulePanelProps {
+  scheduler: SchedulerApi;
+  favorites: FavoriteEntry[];
+  currentStation: Station | null;
+  onClose: () => void;
+  className?: string;
+}
+
+const SLEEP_MINUTES = [15, 30, 45, 60, 90];
+const FADE_SECONDS = [0, 10, 30, 60, 120];
+// Monday first
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function describeFade(seconds: number) {
+  return seconds === 0 ? 'No fade' : `${formatDuration(seconds * 1000)} fade`;
+}
+
+function FadeSelect({ value, onChange }: { value: number; onChange: (seconds: number) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="bg-white/10 text-white text-xs rounded-lg px-2 py-1 focus:outline-none"
+    >
+      {FADE_SECONDS.map(seconds => (
+        <option key={seconds} value={seconds} className="bg-black">
+          {describeFade(seconds)}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function SchedulePanel({
+  scheduler,
+  favorites,
+  currentStation,
+  onClose,
+  className = 'left-4'
+}: SchedulePanelProps) {
+  const now = useNow();
+  const [sleepFadeSeconds, setSleepFadeSeconds] = useState(30);
+  const [time, setTime] = useState('07:00');
+  const [days, setDays] = useState<number[]>([]);
+  const [fadeInSeconds, setFadeInSeconds] = useState(30);
+  const [stationuuid, setStationuuid] = useState('');
+
+  // Favorites, plus whatever is selected right now
+  const stationOptions = favorites.map(entry => ({ station: entry.station, label: displayName(entry) }));
+  if (currentStation && !stationOptions.some(option => option.station.stationuuid === currentStation.stationuuid)) {
+    stationOptions.unshift({ station: currentStation, label: `${currentStation.name} (current)` });
+  }
+  const chosen = stationOptions.find(option => option.station.stationuuid === stationuuid) ?? stationOptions[0];
+
+  const upcoming = upcomingSchedule({ schedules: scheduler.schedules }, now);
+  const { sleepTimer } = scheduler;
+
+  const toggleDay = (day: number) =>
+    setDays(prev => (prev.includes(day) ? prev.filter(existing => existing !== day) : [...prev, day]));
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    if (!chosen) return;
+    scheduler.addSchedule({ station: chosen.station, time, days, fadeInMs: fadeInSeconds * 1000 });
+    setDays([]);
+  };
+
+  return (
+    <div className={`fixed top-20 ${className} z-50 bg-black/90 backdrop-blur-sm border border-white/20 rounded-xl p-4 w-80 max-h-[calc(100vh-8rem)] overflow-y-auto`}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-white">Timers</h3>
+        <button
+          onClick={onClose}
+          className="text-white/60 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="space-y-6">
+        {/* Sleep Timer */}
+        <div className="space-y-2">
+          <h4 className="text-white/60 text-sm font-medium">Sleep timer</h4>
+          {sleepTimer ? (
+            <div className="flex items-center justify-between p-2 rounded-lg bg-white/10">
+              <div>
+                <p className="text-white text-sm">Stops in {formatDuration(sleepTimer.endsAt - now)}</p>
+                <p className="text-white/40 text-xs">{describeFade(sleepTimer.fadeMs / 1000)}</p>
+              </div>
+              <button
+                onClick={scheduler.cancelSleepTimer}
+                className="text-xs text-white/60 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {SLEEP_MINUTES.map(minutes => (
+                  <button
+                    key={minutes}
+                    onClick={() => scheduler.startSleepTimer(minutes * 60 * 1000, sleepFadeSeconds * 1000)}
+                    className="px-3 py-1 rounded-lg text-xs bg-white/10 text-white hover:bg-white/20 transition-colors"
+                  >
+                    {minutes} min
+                  </button>
+                ))}
+              </div>
+              <FadeSelect value={sleepFadeSeconds} onChange={setSleepFadeSeconds} />
+            </>
+          )}
+        </div>
+
+        {/* Alarms and Schedules */}
+        <div className="space-y-2">
+          <h4 className="text-white/60 text-sm font-medium">Alarms & schedules</h4>
+          {upcoming && (
+            <p className="text-white/40 text-xs">
+              Next: {upcoming.schedule.station.name} in {formatDuration(upcoming.at - now)}
+            </p>
+          )}
+          {scheduler.schedules.length === 0 ? (
+            <p className="text-white/60 text-sm">No alarms yet</p>
+          ) : (
+            scheduler.schedules.map(schedule => (
+              <div
+                key={schedule.id}
+                className={`flex items-center justify-between p-2 rounded-lg bg-white/10 ${schedule.enabled ? '' : 'opacity-50'}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-white text-sm">
+                    {schedule.time} <span className="text-white/60 text-xs">{describeDays(schedule.days)}</span>
+                  </p>
+                  <p className="text-white/40 text-xs truncate">
+                    {schedule.station.name} · {describeFade(schedule.fadeInMs / 1000)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={schedule.enabled}
+                    onChange={(e) => scheduler.setEnabled(schedule.id, e.target.checked)}
+                    className="accent-purple-500"
+                    title={schedule.enabled ? 'Turn off' : 'Turn on'}
+                  />
+                  <button
+                    onClick={() => scheduler.removeSchedule(schedule.id)}
+                    className="p-1 rounded-full hover:bg-white/20 transition-colors"
+                    title="Delete"
+                  >
+                    <svg className="w-4 h-4 text-white/60" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* New Alarm */}
+        {stationOptions.length === 0 ? (
+          <p className="text-white/40 text-xs">Add a favorite or pick a station to set an alarm.</p>
+        ) : (
+          <form onSubmit={handleAdd} className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <input
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                required
+                className="bg-white/10 text-white text-sm rounded-lg px-2 py-1 focus:outline-none [color-scheme:dark]"
+              />
+              <select
+                value={chosen?.station.stationuuid}
+                onChange={(e) => setStationuuid(e.target.value)}
+                className="flex-1 min-w-0 bg-white/10 text-white text-xs rounded-lg px-2 py-1 focus:outline-none"
+              >
+                {stationOptions.map(option => (
+                  <option key={option.station.stationuuid} value={option.station.stationuuid} className="bg-black">
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex space-x-1">
+              {DAY_ORDER.map(day => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={`flex-1 py-1 rounded text-xs transition-colors ${
+                    days.includes(day) ? 'bg-white/30 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'
+                  }`}
+                >
+                  {DAY_LABELS[day].slice(0, 2)}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <FadeSelect value={fadeInSeconds} onChange={setFadeInSeconds} />
+              <button
+                type="submit"
+                className="px-3 py-1 rounded-lg text-xs bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium"
+              >
+                Add {days.length === 0 ? 'alarm' : 'schedule'}
+              </button>
+            </div>
+            <p className="text-white/40 text-xs">Alarms go off while RoamFM is open in a tab.</p>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
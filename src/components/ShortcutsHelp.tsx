@@ -0,0 +1,47 @@
+'use client';
+import { SHORTCUTS } from '../utils/shortcuts';
+
+interface ShortcutsHelpProps {
+  onClose: () => void;
+}
+
+export default function ShortcutsHelp({ onClose }: ShortcutsHelpProps) {
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-black/90 border border-white/20 rounded-xl p-6 max-w-sm w-full"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+      >
+        <div className="flex justify-between items-start mb-4">
+          <h2 className="text-xl font-semibold text-white">Keyboard Shortcuts</h2>
+          <button
+            onClick={onClose}
+            className="text-white/60 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <dl className="space-y-2">
+          {SHORTCUTS.map(shortcut => (
+            <div key={shortcut.action} className="flex items-center justify-between">
+              <dt className="text-white/80 text-sm">{shortcut.description}</dt>
+              <dd>
+                <kbd className="px-2 py-0.5 rounded-md bg-white/10 border border-white/20 text-white text-xs font-mono">
+                  {shortcut.label}
+                </kbd>
+              </dd>
+            </div>
+          ))}
+        </dl>
+        <p className="mt-4 text-white/40 text-xs">
+          Media keys and lock screen controls also play, pause and step through your favorites.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+import type { PlaybackApi } from '../hooks/useAudioEngine';
+import { CROSSFADE_OPTIONS_MS, EQ_PRESETS, VISUALIZER_MODES } from '../utils/audioSettings';
+import type { VisualizerMode } from '../utils/audioSettings';
+
+interface SoundSettingsProps {
+  playback: PlaybackApi;
+}
+
+function describeCrossfade(ms: number) {
+  return ms === 0 ? 'Off' : `${ms / 1000}s`;
+}
+
+export default function SoundSettings({ playback }: SoundSettingsProps) {
+  const { settings } = playback;
+  const processing = playback.processingSupported;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-white/60 text-sm font-medium">Sound</h4>
+      <div className="flex flex-wrap gap-2">
+        {EQ_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => playback.setEqPreset(preset.id)}
+            disabled={!processing}
+            className={`px-3 py-1 rounded-lg text-xs transition-colors disabled:opacity-50 ${
+              settings.eqPreset === preset.id ? 'bg-white/30 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-2 text-white/60 text-xs">
+          <input
+            type="checkbox"
+            checked={settings.normalize}
+            onChange={(e) => playback.setNormalize(e.target.checked)}
+            disabled={!processing}
+            className="accent-purple-500"
+          />
+          <span>Even out loudness</span>
+        </label>
+        <label className="flex items-center space-x-2 text-white/60 text-xs">
+          <span>Crossfade</span>
+          <select
+            value={settings.crossfadeMs}
+            onChange={(e) => playback.setCrossfade(Number(e.target.value))}
+            className="bg-white/10 text-white text-xs rounded-lg px-2 py-1 focus:outline-none"
+          >
+            {CROSSFADE_OPTIONS_MS.map(ms => (
+              <option key={ms} value={ms} className="bg-black">
+                {describeCrossfade(ms)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {processing && (
+        <label className="flex items-center space-x-2 text-white/60 text-xs">
+          <span>Visualizer</span>
+          <select
+            value={settings.visualizer}
+            onChange={(e) => playback.setVisualizer(e.target.value as VisualizerMode)}
+            className="bg-white/10 text-white text-xs rounded-lg px-2 py-1 focus:outline-none"
+          >
+            {VISUALIZER_MODES.map(mode => (
+              <option key={mode.value} value={mode.value} className="bg-black">
+                {mode.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {processing && playback.state.bypassed && (
+        <p className="text-white/40 text-xs">
+          This station only plays straight from its server, so EQ and loudness levelling are off for it.
+        </p>
+      )}
+      {!processing && (
+        <p className="text-white/40 text-xs">EQ and loudness levelling need Web Audio, which this browser lacks.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import Image from 'next/image';
+import type { Station } from '../utils/normalizeStations';
+import { voteStation } from '../utils/stationsApi';
+import { formatRelativeTime } from '../utils/format';
+import MapInset from './MapInset';
+
+interface StationDetailsProps {
+  station: Station;
+  onClose: () => void;
+}
+
+type VoteState =
+  | { status: 'idle' }
+  | { status: 'sending' }
+  | { status: 'done'; message: string }
+  | { status: 'error'; message: string };
+
+function Fact({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="bg-white/5 rounded-lg px-3 py-2 min-w-0">
+      <p className="text-white/40 text-xs">{label}</p>
+      <p className="text-white text-sm truncate">{children}</p>
+    </div>
+  );
+}
+
+function describeLastCheck(station: Station) {
+  const checkedAt = station.lastchecktime ? Date.parse(station.lastchecktime) : NaN;
+  const when = Number.isNaN(checkedAt) ? 'never checked' : formatRelativeTime(checkedAt);
+  return station.lastcheckok === 1 ? `Online, ${when}` : `Failing, ${when}`;
+}
+
+export default function StationDetails({ station, onClose }: StationDetailsProps) {
+  const [vote, setVote] = useState<VoteState>({ status: 'idle' });
+  // Votes we sent this session, so the count reflects them right away
+  const [extraVotes, setExtraVotes] = useState(0);
+
+  useEffect(() => {
+    setVote({ status: 'idle' });
+    setExtraVotes(0);
+  }, [station.stationuuid]);
+
+  const handleVote = async () => {
+    setVote({ status: 'sending' });
+    try {
+      const result = await voteStation(station.stationuuid);
+      if (result.ok) {
+        setExtraVotes(count => count + 1);
+        setVote({ status: 'done', message: 'Thanks for voting!' });
+      } else {
+        setVote({ status: 'error', message: result.message });
+      }
+    } catch (error) {
+      console.error('Error voting for station:', error);
+      setVote({ status: 'error', message: 'Could not reach Radio Browser' });
+    }
+  };
+
+  const tags = station.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  const location = [station.state, station.country].filter(Boolean).join(', ');
+
+  return (
+    <div className="fixed top-0 right-0 bottom-0 z-50 w-96 bg-black/90 backdrop-blur-sm border-l border-white/20 p-4 overflow-y-auto animate-fadeIn">
+      <div className="flex justify-between items-start mb-4">
+        <div className="flex items-center space-x-3 min-w-0">
+          {station.favicon ? (
+            <Image
+              src={station.favicon}
+              alt={station.name}
+              width={40}
+              height={40}
+              className="rounded-lg object-cover"
+            />
+          ) : (
+            <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-pink-500 rounded-lg flex-shrink-0" />
+          )}
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-white truncate">{station.name}</h3>
+            {location && <p className="text-white/60 text-sm truncate">{location}</p>}
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-white/60 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <MapInset lat={station.latitude} lng={station.longitude} width={352} />
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {tags.map(tag => (
+              <span key={tag} className="px-2 py-0.5 rounded-lg bg-white/10 text-white/80 text-xs">
+                {tag}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Fact label="Language">{station.language || 'Unknown'}</Fact>
+          <Fact label="Codec">{station.codec || 'Unknown'}</Fact>
+          <Fact label="Bitrate">{station.bitrate > 0 ? `${station.bitrate} kbps` : 'Unknown'}</Fact>
+          <Fact label="HLS">{station.hls === 1 ? 'Yes' : 'No'}</Fact>
+          <Fact label="Votes">{(station.votes + extraVotes).toLocaleString()}</Fact>
+          <Fact label="Clicks">
+            {station.clickcount.toLocaleString()}
+            {station.clicktrend !== 0 && (
+              <span className={`ml-1 text-xs ${station.clicktrend > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {station.clicktrend > 0 ? '+' : ''}{station.clicktrend}
+              </span>
+            )}
+          </Fact>
+        </div>
+
+        <div className="flex items-center space-x-2 text-sm">
+          <span className={`w-2 h-2 rounded-full ${station.lastcheckok === 1 ? 'bg-green-400' : 'bg-red-400'}`} />
+          <span className="text-white/60">Last check: {describeLastCheck(station)}</span>
+        </div>
+
+        <div className="space-y-1">
+          {station.homepage && (
+            <a
+              href={station.homepage}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-purple-400 hover:text-purple-300 text-sm truncate block"
+            >
+              {station.homepage}
+            </a>
+          )}
+          {(station.url_resolved || station.url) && (
+            <a
+              href={station.url_resolved || station.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-purple-400 hover:text-purple-300 text-sm truncate block"
+            >
+              Open Stream
+            </a>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleVote}
+            disabled={vote.status === 'sending' || vote.status === 'done'}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg text-sm bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium hover:from-purple-600 hover:to-pink-600 transition-colors disabled:opacity-50"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
+            </svg>
+            <span>{vote.status === 'sending' ? 'Voting...' : 'Upvote'}</span>
+          </button>
+          {(vote.status === 'done' || vote.status === 'error') && (
+            <p className={`text-xs ${vote.status === 'error' ? 'text-red-400' : 'text-white/60'}`}>{vote.message}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+import { useEffect, useId, useRef, useState } from 'react';
+import type { KeyboardEvent, RefObject } from 'react';
+import Image from 'next/image';
+import type { Station } from '../utils/normalizeStations';
+import { searchWorldwide } from '../utils/stationSearch';
+import type { SearchField, SearchMatch, SearchResult } from '../utils/stationSearch';
+
+interface StationSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  // Matches among the loaded stations, best first
+  results: SearchResult[];
+  onSelect: (station: Station) => void;
+  showFilters: boolean;
+  onToggleFilters: () => void;
+  // Lets the page focus the field from a keyboard shortcut
+  inputRef?: RefObject<HTMLInputElement | null>;
+}
+
+type WorldwideSearch =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'done'; results: SearchResult[] }
+  | { status: 'error' };
+
+// Rows rendered in the dropdown, the list scrolls past the first few
+const MAX_RESULTS = 50;
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  name: 'Name',
+  tags: 'Tags',
+  state: 'City',
+  country: 'Country',
+  language: 'Language'
+};
+
+function Highlight({ text, ranges }: Pick<SearchMatch, 'text' | 'ranges'>) {
+  const parts = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start > cursor) parts.push(<span key={cursor}>{text.slice(cursor, start)}</span>);
+    parts.push(
+      <mark key={start} className="bg-transparent text-pink-400 font-semibold">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(<span key={cursor}>{text.slice(cursor)}</span>);
+  return <>{parts}</>;
+}
+
+function ResultRow({ result, isActive, onSelect, onHover }: {
+  result: SearchResult;
+  isActive: boolean;
+  onSelect: () => void;
+  onHover: () => void;
+}) {
+  const { station, matches } = result;
+  const nameMatch = matches.find(match => match.field === 'name');
+  // Explain why a station matched when it wasn't by name
+  const detail = matches.find(match => match.field !== 'name');
+
+  return (
+    <button
+      onClick={onSelect}
+      onMouseEnter={onHover}
+      className={`w-full text-left px-3 py-2 rounded-lg text-sm text-white transition-colors ${
+        isActive ? 'bg-white/25' : 'bg-white/10 hover:bg-white/20'
+      }`}
+    >
+      <div className="flex items-center space-x-2">
+        {station.favicon ? (
+          <Image
+            src={station.favicon}
+            alt={station.name}
+            width={16}
+            height={16}
+            className="rounded"
+          />
+        ) : (
+          <div className="w-4 h-4 bg-white/10 rounded flex-shrink-0" />
+        )}
+        <div className="min-w-0">
+          <p className="truncate">
+            {nameMatch ? <Highlight text={nameMatch.text} ranges={nameMatch.ranges} /> : station.name}
+          </p>
+          <p className="text-white/40 text-xs truncate">
+            {detail ? (
+              <>
+                {FIELD_LABELS[detail.field]}: <Highlight text={detail.text} ranges={detail.ranges} />
+              </>
+            ) : (
+              [station.state, station.country].filter(Boolean).join(', ')
+            )}
+          </p>
+        </div>
+      </div>
+    </button>
+  );
+}
+
+export default function StationSearch({
+  query,
+  onQueryChange,
+  results,
+  onSelect,
+  showFilters,
+  onToggleFilters,
+  inputRef
+}: StationSearchProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [worldwide, setWorldwide] = useState<WorldwideSearch>({ status: 'idle' });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const listId = useId();
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  const hasQuery = query.trim() !== '';
+  const visible = worldwide.status === 'done' ? worldwide.results.slice(0, MAX_RESULTS) : results.slice(0, MAX_RESULTS);
+
+  // A new query starts over with the loaded stations
+  useEffect(() => {
+    setActiveIndex(0);
+    setWorldwide({ status: 'idle' });
+  }, [query]);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // Keep the keyboard selection in view
+  useEffect(() => {
+    const row = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleSelect = (station: Station) => {
+    onSelect(station);
+    setIsOpen(false);
+  };
+
+  const handleSearchWorldwide = async () => {
+    const searchedFor = query;
+    setWorldwide({ status: 'loading' });
+    try {
+      const found = await searchWorldwide(searchedFor);
+      // Ignore answers for a query the user has moved on from
+      if (queryRef.current === searchedFor) setWorldwide({ status: 'done', results: found });
+    } catch (error) {
+      console.error('Error searching worldwide:', error);
+      if (queryRef.current === searchedFor) setWorldwide({ status: 'error' });
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      return;
+    }
+    if (!hasQuery) return;
+    setIsOpen(true);
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, Math.max(visible.length - 1, 0)));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const result = visible[activeIndex];
+      if (result) {
+        handleSelect(result.station);
+      } else if (worldwide.status === 'idle') {
+        handleSearchWorldwide();
+      }
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <div className="relative bg-black/80 backdrop-blur-sm rounded-full border border-white/20 shadow-lg">
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => {
+            onQueryChange(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search stations, tags, cities, countries..."
+          className="w-full bg-transparent text-white px-6 py-3 rounded-full focus:outline-none focus:border-white/40"
+          role="combobox"
+          aria-controls={listId}
+          aria-expanded={isOpen && hasQuery}
+          aria-autocomplete="list"
+        />
+        <div className="absolute right-4 top-1/2 transform -translate-y-1/2 flex items-center space-x-2">
+          <button
+            onClick={onToggleFilters}
+            className="p-1 rounded-full hover:bg-white/10 transition-colors"
+            title={showFilters ? "Hide Filters" : "Show Filters"}
+          >
+            <svg
+              className={`w-5 h-5 text-white/60 transform transition-transform duration-300 ${showFilters ? 'rotate-180' : ''}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          <svg
+            className="w-5 h-5 text-white/60"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+        </div>
+      </div>
+
+      {/* Search Dropdown */}
+      {isOpen && hasQuery && (
+        <div className="absolute top-full left-0 right-0 mt-2 bg-black/90 backdrop-blur-sm border border-white/20 rounded-xl shadow-xl p-4 animate-fadeIn">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-white/60 text-sm font-medium">
+              {worldwide.status === 'done' ? 'Worldwide Results' : 'Search Results'}
+            </h4>
+            {visible.length > 0 && (
+              <span className="text-white/40 text-xs">
+                {worldwide.status === 'done' ? worldwide.results.length : results.length} found
+              </span>
+            )}
+          </div>
+
+          {visible.length > 0 ? (
+            <div ref={listRef} id={listId} className="space-y-2 max-h-80 overflow-y-auto" role="listbox">
+              {visible.map((result, index) => (
+                <ResultRow
+                  key={result.station.stationuuid}
+                  result={result}
+                  isActive={index === activeIndex}
+                  onSelect={() => handleSelect(result.station)}
+                  onHover={() => setActiveIndex(index)}
+                />
+              ))}
+            </div>
+          ) : worldwide.status === 'done' ? (
+            <p className="text-white/60 text-sm">No stations with a location match &quot;{query.trim()}&quot;</p>
+          ) : (
+            <div className="flex items-center justify-between">
+              <p className="text-white/60 text-sm">
+                {worldwide.status === 'error' ? 'Worldwide search failed' : 'No loaded station matches'}
+              </p>
+              <button
+                onClick={handleSearchWorldwide}
+                disabled={worldwide.status === 'loading'}
+                className="px-3 py-1 rounded-lg text-xs bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-50"
+              >
+                {worldwide.status === 'loading' ? 'Searching...' : 'Search worldwide'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
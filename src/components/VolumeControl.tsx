@@ -0,0 +1,43 @@
+'use client';
+
+interface VolumeControlProps {
+  volume: number;
+  muted: boolean;
+  onVolumeChange: (volume: number) => void;
+  onToggleMute: () => void;
+}
+
+export default function VolumeControl({ volume, muted, onVolumeChange, onToggleMute }: VolumeControlProps) {
+  const silent = muted || volume === 0;
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={onToggleMute}
+        className="p-1 rounded-full hover:bg-white/20 transition-colors"
+        title={muted ? 'Unmute' : 'Mute'}
+      >
+        {silent ? (
+          <svg className="w-5 h-5 text-white/60" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2" />
+          </svg>
+        ) : (
+          <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+          </svg>
+        )}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={muted ? 0 : Math.round(volume * 100)}
+        onChange={(e) => onVolumeChange(Number(e.target.value) / 100)}
+        aria-label="Volume"
+        className="flex-1 accent-purple-500"
+      />
+      <span className="text-white/40 text-xs w-8 text-right">{muted ? 'Off' : `${Math.round(volume * 100)}%`}</span>
+    </div>
+  );
+}
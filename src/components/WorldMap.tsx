@@ -1,39 +1,113 @@
 'use client';
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import dynamic from 'next/dynamic';
-import { fetchStationsByTag } from '../utils/fetchStations';
+import { fetchStations, reportClick } from '../utils/stationsApi';
+import type { TagMatch } from '../utils/stationsApi';
+import { matchedTags } from '../utils/tags';
+import { DEFAULT_FILTERS, activeFilterCount, matchesFilters } from '../utils/stationFilters';
+import type { StationFilters } from '../utils/stationFilters';
+import { createSearchIndex } from '../utils/stationSearch';
+import { fetchStationsByUuids } from '../utils/fetchStations';
+import { normalizeStation } from '../utils/normalizeStations';
+import type { Station } from '../utils/normalizeStations';
+import { describeMoodReasons, inferMood } from '../utils/moodInference';
+import type { Mood, MoodInference } from '../utils/moodInference';
+import { clusterStations, quantizePointOfView, stationsInView } from '../utils/clusterStations';
+import type { PointOfView, StationCluster } from '../utils/clusterStations';
+import { adjacentFavorite } from '../utils/favorites';
+import { useFavorites } from '../hooks/useFavorites';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useMediaSession } from '../hooks/useMediaSession';
+import { useAudioEngine } from '../hooks/useAudioEngine';
+import { useAudioLevels } from '../hooks/useAudioLevels';
+import { useNowPlaying } from '../hooks/useNowPlaying';
+import { useListeningHistory } from '../hooks/useListeningHistory';
+import { useScheduler } from '../hooks/useScheduler';
+import { useRoam } from '../hooks/useRoam';
+import { useRecorder } from '../hooks/useRecorder';
+import { useStreamHealth } from '../hooks/useStreamHealth';
+import { groupJourneys, journeyArcs } from '../utils/journey';
+import type { JourneyArc } from '../utils/journey';
+import {
+  HEX_SATURATION,
+  countStationsByCountry,
+  featureCountryCode,
+  legendStops,
+  loadCountryFeatures,
+  rampColor
+} from '../utils/mapLayers';
+import type { CountryFeature, MapLayer } from '../utils/mapLayers';
+import { FOCUS_ZOOM, altitudeToZoom, supportsWebGL, viewModeStore, zoomToAltitude } from '../utils/flatMap';
+import type { ViewMode } from '../utils/flatMap';
+import { DEFAULT_RADIUS_KM, altitudeForRadius, circlePoints, locateUser, stationsWithin } from '../utils/nearby';
+import type { NearbyOrigin } from '../utils/nearby';
+import type { PlayOptions, PlaybackState } from '../utils/audioEngine';
+import { useUrlStateWriter } from '../hooks/useUrlState';
+import { viewStateUrl } from '../utils/urlState';
+import type { ViewState } from '../utils/urlState';
+import FavoritesPanel from './FavoritesPanel';
+import HistoryPanel from './HistoryPanel';
+import GenreSelector from './GenreSelector';
+import FilterPanel from './FilterPanel';
+import StationSearch from './StationSearch';
+import StationDetails from './StationDetails';
+import SchedulePanel from './SchedulePanel';
+import RoamPanel from './RoamPanel';
+import JourneyPanel from './JourneyPanel';
+import MapLayerControl from './MapLayerControl';
+import SoundSettings from './SoundSettings';
+import AudioVisualizer from './AudioVisualizer';
+import VolumeControl from './VolumeControl';
+import ShortcutsHelp from './ShortcutsHelp';
+import RecordingControls from './RecordingControls';
+import RecordingsPanel from './RecordingsPanel';
+import NearbyPanel from './NearbyPanel';
 import Image from 'next/image';
 import type { GlobeMethods } from 'react-globe.gl';
 import type { MutableRefObject } from 'react';
+import type { Map as LeafletMap } from 'leaflet';
 
 // Add a type interface for WorldMapProps
 interface WorldMapProps {
-  tag: string;
-  onTagChange: (tag: string) => void;
+  tags: string[];
+  tagMatch: TagMatch;
+  onTagsChange: (tags: string[]) => void;
+  onTagMatchChange: (match: TagMatch) => void;
+  // View restored from a shared link
+  initialView?: ViewState;
 }
 
-interface Station {
-  name: string;
-  latitude: number;
-  longitude: number;
-  url_resolved?: string;
-  favicon?: string;
-  country?: string;
-  mood?: string;
-}
+type CameraState = Pick<ViewState, 'lat' | 'lng' | 'alt'>;
 
 interface RingData {
   lat: number;
   lng: number;
-  maxR: number;
-  propagationSpeed: number;
-  repeatPeriod: number;
-  color: () => string;
   altitude: number;
 }
 
+const ROAM_FLIGHT_MS = 2500;
+const JOURNEY_STEP_MS = 1500;
+const ROAM_CROSSFADE_MS = 2000;
+// How far the arrow keys turn the globe at full zoom-out, or pan the flat map
+const ROTATE_STEP_DEGREES = 20;
+const PAN_STEP_PIXELS = 200;
+// Streams checked around the centre of the view; more get checked as the user moves around
+const MAX_PROBED_IN_VIEW = 100;
+// Stations whose stream didn't answer stay on the map, just faded
+const DEAD_STATION_COLOR = 'rgba(255, 255, 255, 0.25)';
+
+// Marks the centre of the "near me" radius
+function createPinElement() {
+  const pin = document.createElement('div');
+  pin.className = 'w-3 h-3 rounded-full bg-pink-500 border-2 border-white shadow-lg pointer-events-none';
+  return pin;
+}
+
+// Ring shape while nothing is audible; with sound it follows the audio levels
+const IDLE_RING = { maxR: 5, propagationSpeed: 2, repeatPeriod: 1300 };
+
 // Replace countries with moods
-const moods = [
+const moods: { value: Mood; label: string; icon: string }[] = [
   { value: 'relaxed', label: 'Relaxed', icon: 'M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z' },
   { value: 'energetic', label: 'Energetic', icon: 'M13 10V3L4 14h7v7l9-11h-7z' },
   { value: 'focused', label: 'Focused', icon: 'M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z' },
@@ -43,32 +117,49 @@ const moods = [
   { value: 'nostalgic', label: 'Nostalgic', icon: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z' }
 ];
 
-// Add more genres
-const genres = [
-  { value: 'jazz', label: 'Jazz', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' },
-  { value: 'rock', label: 'Rock', icon: 'M11.933 12.8a1 1 0 000-1.6L6.6 7.2A1 1 0 005 8v8a1 1 0 001.6.8l5.333-4zM19.933 12.8a1 1 0 000-1.6l-5.333-4A1 1 0 0013 8v8a1 1 0 001.6.8l5.333-4z' },
-  { value: 'classical', label: 'Classical', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' },
-  { value: 'electronic', label: 'Electronic', icon: 'M13 10V3L4 14h7v7l9-11h-7z' },
-  { value: 'lofi', label: 'Lofi', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' },
-  { value: 'blues', label: 'Blues', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' },
-  { value: 'hiphop', label: 'Hip Hop', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' },
-  { value: 'ambient', label: 'Ambient', icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' }
-];
+// Status line shown under the station name in the floating player
+function describePlayback({ status, error, reconnectAttempt, bypassed }: PlaybackState) {
+  switch (status) {
+    case 'loading':
+      return 'Connecting...';
+    case 'buffering':
+      return 'Buffering...';
+    case 'playing':
+      return bypassed ? 'Live, normalization unavailable for this station' : 'Live';
+    case 'reconnecting':
+      return `Reconnecting (attempt ${reconnectAttempt})...`;
+    case 'paused':
+      return error ?? 'Paused';
+    case 'error':
+      return error ?? 'Playback failed';
+    default:
+      return '';
+  }
+}
 
 // Dynamically load Globe on client only
 const Globe = dynamic(() => import('react-globe.gl'), { ssr: false });
+const FlatMap = dynamic(() => import('./FlatMap'), { ssr: false });
 
-export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
+export default function WorldMap({ tags, tagMatch, onTagsChange, onTagMatchChange, initialView = {} }: WorldMapProps) {
   const [stations, setStations] = useState<Station[]>([]);
   const [selectedStation, setSelectedStation] = useState<Station | null>(null);
   const [hoveredStation, setHoveredStation] = useState<Station | null>(null);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
-  const [isPlaying, setIsPlaying] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedMood, setSelectedMood] = useState<string | null>(null);
+  const [selectedMood, setSelectedMood] = useState<Mood | null>(initialView.mood ?? null);
   const [isExpanded, setIsExpanded] = useState(false);
-  const [showSearchDropdown, setShowSearchDropdown] = useState(false);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const deckRefs = useRef<(HTMLAudioElement | null)[]>([]);
+  const playback = useAudioEngine(deckRefs);
+  const audioLevels = useAudioLevels(playback);
+  // HLS streams don't carry ICY metadata
+  const history = useListeningHistory(playback.state, tags.join(', '));
+  const nowPlayingStation = playback.isActive && playback.state.station?.hls !== 1 ? playback.state.station : null;
+  const { nowPlaying } = useNowPlaying(
+    nowPlayingStation?.stationuuid ?? null,
+    nowPlayingStation ? playback.state.sourceUrl : null
+  );
+  const recorder = useRecorder(playback.state, nowPlaying);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showDebug, setShowDebug] = useState(false);
@@ -85,70 +176,92 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
     height: typeof window !== 'undefined' ? window.innerHeight : 0
   });
   const [focusedStation, setFocusedStation] = useState<Station | null>(null);
-  const searchRef = useRef<HTMLDivElement>(null);
   const [showFilters, setShowFilters] = useState(true);
   const [ringsData, setRingsData] = useState<RingData[]>([]);
-  const [favorites, setFavorites] = useState<Station[]>([]);
+  const favorites = useFavorites();
   const [showAbout, setShowAbout] = useState(false);
   const [showFavorites, setShowFavorites] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showFilterPanel, setShowFilterPanel] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [showRoam, setShowRoam] = useState(false);
+  const [showJourney, setShowJourney] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showRecordings, setShowRecordings] = useState(false);
+  const [showNearby, setShowNearby] = useState(false);
+  const [nearbyOrigin, setNearbyOrigin] = useState<NearbyOrigin | null>(null);
+  const [nearbyRadiusKm, setNearbyRadiusKm] = useState(DEFAULT_RADIUS_KM);
+  const [isPlacingPin, setIsPlacingPin] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [locateError, setLocateError] = useState<string | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  // Null follows the latest journey and its newest stop
+  const [journeyId, setJourneyId] = useState<string | null>(null);
+  const [journeyPosition, setJourneyPosition] = useState<number | null>(null);
+  const [isReplayingJourney, setIsReplayingJourney] = useState(false);
+  const [mapLayer, setMapLayer] = useState<MapLayer>('points');
+  const [countryFeatures, setCountryFeatures] = useState<CountryFeature[]>([]);
+  const [hoveredCountry, setHoveredCountry] = useState<CountryFeature | null>(null);
+  const [layerError, setLayerError] = useState<string | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+  // Stations whose play was already reported to Radio Browser this session
+  const reportedClicksRef = useRef(new Set<string>());
+  const [stationFilters, setStationFilters] = useState<StationFilters>(DEFAULT_FILTERS);
+  const [hideDeadStations, setHideDeadStations] = useState(false);
+  // Quantized camera position, drives how coarsely stations are clustered
+  const [pointOfView, setPointOfView] = useState<PointOfView>({ lat: 0, lng: 0, altitude: 2.5 });
+  const [isGlobeReady, setIsGlobeReady] = useState(false);
+  const [isFlatMapReady, setIsFlatMapReady] = useState(false);
+  // Null until the saved preference is read, so the globe doesn't start loading for nothing
+  const [viewMode, setViewMode] = useState<ViewMode | null>(null);
+  const flatMapRef = useRef<LeafletMap | null>(null);
+  const viewModeRef = useRef(viewMode);
+  viewModeRef.current = viewMode;
+  const hasRestoredViewRef = useRef(false);
+  // Unquantized camera position, for shareable links
+  const cameraRef = useRef<CameraState>({});
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
+
+  // Stable dependency for the fetch, the array itself is recreated by the parent
+  const tagKey = tags.join(',');
 
   useEffect(() => {
     setIsLoading(true);
     setError(null);
     
-    console.log('Fetching stations for tag:', tag);
-    fetchStationsByTag(tag)
-      .then(data => {
-        console.log('Raw API response:', data);
-        if (!Array.isArray(data) || data.length === 0) {
-          setError('No stations found for this tag');
+    const controller = new AbortController();
+
+    const selectedTags = tagKey.split(',');
+    console.log(`Fetching stations for tags (${tagMatch}):`, selectedTags);
+    fetchStations(selectedTags, tagMatch, controller.signal)
+      .then(({ stations: data, total }) => {
+        if (data.length === 0) {
+          setError(selectedTags.length > 1 ? 'No stations found for these genres' : 'No stations found for this tag');
           setStations([]);
         } else {
-          // Log the first few stations to check their structure
-          console.log('Sample stations:', data.slice(0, 3));
-          
-          // Remove duplicates and ensure coordinates are numbers
-          const uniqueStations = data.reduce((acc: Station[], current) => {
-            // Convert coordinates to numbers if they're strings
-            const lat = parseFloat(current.latitude || current.geo_lat);
-            const lng = parseFloat(current.longitude || current.geo_long);
-            
-            const isDuplicate = acc.some(station => 
-              station.name === current.name && 
-              station.latitude === lat && 
-              station.longitude === lng
-            );
-            
-            if (!isDuplicate && !isNaN(lat) && !isNaN(lng)) {
-              acc.push({
-                ...current,
-                latitude: lat,
-                longitude: lng
-              });
-            }
-            return acc;
-          }, []);
-
-          console.log('Processed stations:', uniqueStations);
-          setStations(uniqueStations.slice(0, 500));
+          // Stations arrive normalized and deduped from /api/stations
+          setStations(data);
           setDebugInfo(prev => ({
             ...prev,
-            stationsCount: data.length,
-            validStationsCount: uniqueStations.length,
+            stationsCount: total,
+            validStationsCount: data.length,
             lastUpdate: new Date().toISOString(),
             rawStations: data.slice(0, 3)
           }));
         }
       })
       .catch(error => {
+        if (controller.signal.aborted) return;
         console.error('Error fetching stations:', error);
         setError('Failed to load stations. Please try again.');
         setStations([]);
       })
       .finally(() => {
-        setIsLoading(false);
+        if (!controller.signal.aborted) setIsLoading(false);
       });
-  }, [tag]);
+
+    return () => controller.abort();
+  }, [tagKey, tagMatch]);
 
   useEffect(() => {
     if (globeRef.current) {
@@ -189,16 +302,35 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
     return () => window.removeEventListener('mousemove', handleMouseMove);
   }, []);
 
+  useEffect(() => {
+    setViewMode(viewModeStore.load() ?? (supportsWebGL() ? 'globe' : 'flat'));
+  }, []);
+
+  const toggleViewMode = () => {
+    const next = viewMode === 'flat' ? 'globe' : 'flat';
+    setViewMode(next);
+    viewModeStore.save(next);
+  };
+
+  // Moves whichever map is showing; `altitude` is in globe terms
+  const moveCamera = (lat: number, lng: number, altitude: number, durationMs = 1000) => {
+    if (viewModeRef.current === 'flat') {
+      flatMapRef.current?.flyTo([lat, lng], altitudeToZoom(altitude), { duration: durationMs / 1000 });
+    } else {
+      globeRef.current?.pointOfView({ lat, lng, altitude }, durationMs);
+    }
+  };
+
   // Add function to focus on station
-  const focusOnStation = (station: Station) => {
-    if (globeRef.current) {
-      const { latitude, longitude } = station;
-      globeRef.current.pointOfView({
-        lat: latitude,
-        lng: longitude,
-        altitude: 2
-      }, 1000);
+  const focusOnStation = (station: Station, durationMs = 1000) => {
+    const { latitude, longitude } = station;
+    // The flat map is for close-up browsing, so it zooms in further than the globe
+    if (viewModeRef.current === 'flat' && flatMapRef.current) {
+      const zoom = Math.max(flatMapRef.current.getZoom(), FOCUS_ZOOM);
+      flatMapRef.current.flyTo([latitude, longitude], zoom, { duration: durationMs / 1000 });
+      return;
     }
+    globeRef.current?.pointOfView({ lat: latitude, lng: longitude, altitude: 2 }, durationMs);
   };
 
   // Modify handleStationClick to include focus
@@ -206,30 +338,308 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
     setSelectedStation(station);
     setFocusedStation(station);
     focusOnStation(station);
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.src = station.url_resolved || '';
-      audioRef.current.play();
-      setIsPlaying(true);
+    playback.play(station);
+  };
+
+  // Alarms select their station like a click does, so the player and play button follow along
+  const playScheduledStation = (station: Station, options: PlayOptions) => {
+    setSelectedStation(station);
+    setFocusedStation(station);
+    focusOnStation(station);
+    return playback.play(station, options);
+  };
+  const scheduler = useScheduler(playback, playScheduledStation);
+
+  // Moods are inferred from tags, name and language, with the selected tags the station matched as genre hint
+  const stationMoods = useMemo(
+    () => new Map<string, MoodInference>(
+      stations.map(station => [station.stationuuid, inferMood(station, { genre: matchedTags(station, tags) })])
+    ),
+    [stations, tags]
+  );
+
+  const moodCounts = useMemo(() => {
+    const counts = new Map<Mood, number>();
+    stationMoods.forEach(({ moods: stationMoodList }) => {
+      stationMoodList.forEach(mood => counts.set(mood, (counts.get(mood) ?? 0) + 1));
+    });
+    return counts;
+  }, [stationMoods]);
+
+  // Only what's in view or pointed at is checked, rather than every loaded station
+  const healthCandidates = useMemo(
+    () => [
+      ...stationsInView(stations, pointOfView, MAX_PROBED_IN_VIEW),
+      ...[hoveredStation, selectedStation].filter((station): station is Station => station !== null)
+    ],
+    [stations, pointOfView, hoveredStation, selectedStation]
+  );
+  const streamHealth = useStreamHealth(stations, healthCandidates);
+  const { statusOf: streamStatusOf } = streamHealth;
+  const searchIndex = useMemo(() => createSearchIndex(stations), [stations]);
+  const searchResults = useMemo(() => searchIndex.search(searchQuery), [searchIndex, searchQuery]);
+
+  // Search, mood and dead streams narrow the list first, the filter panel counts what is left
+  const searchedStations = useMemo(() => {
+    const matchingIds = searchQuery.trim() ? new Set(searchResults.map(result => result.station.stationuuid)) : null;
+    return stations.filter(station => {
+      const matchesSearch = !matchingIds || matchingIds.has(station.stationuuid);
+      const matchesMood = !selectedMood || !!stationMoods.get(station.stationuuid)?.moods.includes(selectedMood);
+      const isAlive = !hideDeadStations || streamStatusOf(station) !== 'dead';
+      return matchesSearch && matchesMood && isAlive;
+    });
+  }, [stations, searchQuery, searchResults, selectedMood, stationMoods, hideDeadStations, streamStatusOf]);
+
+  const filteredStations = useMemo(
+    () => searchedStations.filter(station => matchesFilters(station, stationFilters)),
+    [searchedStations, stationFilters]
+  );
+
+  // Tags and filters still apply, the radius only narrows what they show
+  const nearbyStations = useMemo(
+    () => (nearbyOrigin ? stationsWithin(filteredStations, nearbyOrigin, nearbyRadiusKm) : []),
+    [filteredStations, nearbyOrigin, nearbyRadiusKm]
+  );
+  const nearbyCircle = useMemo(
+    () => (nearbyOrigin ? [{ points: circlePoints(nearbyOrigin, nearbyRadiusKm) }] : []),
+    [nearbyOrigin, nearbyRadiusKm]
+  );
+
+  // Ranked search results limited to what the globe is showing
+  const visibleSearchResults = useMemo(() => {
+    const visibleIds = new Set(filteredStations.map(station => station.stationuuid));
+    return searchResults.filter(result => visibleIds.has(result.station.stationuuid));
+  }, [searchResults, filteredStations]);
+
+  const activeFilters = activeFilterCount(stationFilters);
+
+  const { sessions: historySessions, liveSession } = history;
+  const journeys = useMemo(
+    () => groupJourneys(historySessions, liveSession && { ...liveSession, durationMs: 0 }),
+    [historySessions, liveSession]
+  );
+  const journey = journeys.find(option => option.id === journeyId) ?? journeys[0] ?? null;
+  const lastStop = journey ? journey.stops.length - 1 : 0;
+  const journeyStop = Math.min(journeyPosition ?? lastStop, lastStop);
+  const journeyArcsData = useMemo(() => (journey ? journeyArcs(journey.stops, journeyStop) : []), [journey, journeyStop]);
+
+  // Replaying steps through the stops, flying the camera along
+  useEffect(() => {
+    if (!isReplayingJourney || !journey) return;
+    if (journeyStop >= journey.stops.length - 1) {
+      setIsReplayingJourney(false);
+      setJourneyPosition(null);
+      return;
     }
+    const timer = setTimeout(() => {
+      const next = journeyStop + 1;
+      setJourneyPosition(next);
+      focusOnStation(journey.stops[next].station, JOURNEY_STEP_MS * 0.8);
+    }, JOURNEY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isReplayingJourney, journey, journeyStop]);
+
+  const toggleJourneyReplay = () => {
+    if (isReplayingJourney) {
+      setIsReplayingJourney(false);
+      return;
+    }
+    if (!journey) return;
+    // From the top when the scrubber is at the end
+    if (journeyStop >= journey.stops.length - 1) {
+      setJourneyPosition(0);
+      focusOnStation(journey.stops[0].station, JOURNEY_STEP_MS * 0.8);
+    }
+    setIsReplayingJourney(true);
   };
 
-  const togglePlayback = () => {
-    if (audioRef.current) {
-      if (isPlaying) {
-        audioRef.current.pause();
-      } else {
-        audioRef.current.play();
+  // Roam hops get a slower flight and always crossfade, so the tour feels like travelling
+  const roam = useRoam(filteredStations, playback.state, (station) => {
+    setSelectedStation(station);
+    setFocusedStation(station);
+    focusOnStation(station, ROAM_FLIGHT_MS);
+    playback.play(station, { crossfadeMs: Math.max(playback.settings.crossfadeMs, ROAM_CROSSFADE_MS) });
+  });
+
+  // Country outlines are only downloaded once someone switches to the choropleth
+  useEffect(() => {
+    if (mapLayer !== 'choropleth' || countryFeatures.length > 0) return;
+    let cancelled = false;
+    setLayerError(null);
+    loadCountryFeatures()
+      .then(features => {
+        if (!cancelled) setCountryFeatures(features);
+      })
+      .catch(error => {
+        console.error('Error loading country outlines:', error);
+        if (!cancelled) setLayerError('Country outlines failed to load');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mapLayer, countryFeatures.length]);
+
+  // Counted before the attribute filters, so picking a country doesn't blank out the others
+  const countryCounts = useMemo(() => countStationsByCountry(searchedStations), [searchedStations]);
+  const maxCountryCount = useMemo(() => Math.max(0, ...countryCounts.values()), [countryCounts]);
+  const selectedCountry = stationFilters.countries.length === 1 ? stationFilters.countries[0] : null;
+
+  const toggleCountryFilter = (feature: CountryFeature) => {
+    const code = featureCountryCode(feature);
+    if (!code) return;
+    setStationFilters(prev => ({
+      ...prev,
+      countries: prev.countries.length === 1 && prev.countries[0] === code ? [] : [code]
+    }));
+  };
+
+  const countryColor = (feature: CountryFeature) => {
+    const code = featureCountryCode(feature);
+    const count = code ? countryCounts.get(code) ?? 0 : 0;
+    if (code && code === selectedCountry) return 'rgba(78, 205, 196, 0.8)';
+    if (count === 0) return 'rgba(255, 255, 255, 0.04)';
+    return rampColor(count, maxCountryCount, feature === hoveredCountry ? 0.95 : 0.7);
+  };
+
+  const layerLegend = mapLayer === 'hexbin'
+    ? legendStops(HEX_SATURATION, { saturated: true })
+    : legendStops(maxCountryCount);
+
+  const layerHint = (() => {
+    if (mapLayer === 'hexbin') return 'Click a column to zoom in';
+    if (mapLayer !== 'choropleth') return null;
+    if (layerError) return layerError;
+    if (selectedCountry) {
+      const name = countryFeatures.find(feature => featureCountryCode(feature) === selectedCountry)?.properties.NAME;
+      return `Showing ${name ?? selectedCountry} only, click it again to clear`;
+    }
+    return 'Click a country to show only its stations';
+  })();
+
+  const selectedStationMood = selectedStation ? stationMoods.get(selectedStation.stationuuid) : undefined;
+
+  const clusters = useMemo(
+    () => clusterStations(filteredStations, pointOfView),
+    [filteredStations, pointOfView]
+  );
+
+  // Clusters with more than one station get a count label on the globe
+  const clusterLabels = useMemo(
+    () => clusters.filter(cluster => cluster.stations.length > 1),
+    [clusters]
+  );
+
+  const currentView = (): ViewState => ({
+    tags,
+    match: tagMatch,
+    station: selectedStation?.stationuuid,
+    mood: selectedMood ?? undefined,
+    ...cameraRef.current
+  });
+  const scheduleUrlWrite = useUrlStateWriter(currentView);
+
+  useEffect(() => {
+    scheduleUrlWrite();
+  }, [tagKey, tagMatch, selectedStation, selectedMood, scheduleUrlWrite]);
+
+  // Restore the station and camera from a shared link once the map can be moved
+  useEffect(() => {
+    if (hasRestoredViewRef.current || !(isGlobeReady || isFlatMapReady)) return;
+    hasRestoredViewRef.current = true;
+
+    const { station: stationuuid, lat, lng, alt } = initialView;
+    const restoreCamera = () => {
+      if (lat === undefined || lng === undefined || alt === undefined) return false;
+      moveCamera(lat, lng, alt);
+      return true;
+    };
+    const restoreStation = (station: Station) => {
+      setSelectedStation(station);
+      setFocusedStation(station);
+      if (!restoreCamera()) focusOnStation(station);
+    };
+
+    if (!stationuuid) {
+      restoreCamera();
+      return;
+    }
+    const match = stations.find(station => station.stationuuid === stationuuid);
+    if (match) {
+      restoreStation(match);
+      return;
+    }
+    // Linked stations don't have to be part of the selected tags
+    fetchStationsByUuids([stationuuid])
+      .then(raw => {
+        const station = raw.map(normalizeStation).find(Boolean);
+        if (station) {
+          restoreStation(station);
+        } else {
+          restoreCamera();
+        }
+      })
+      .catch(error => {
+        console.error('Error restoring linked station:', error);
+        restoreCamera();
+      });
+  }, [isGlobeReady, isFlatMapReady, stations, initialView]);
+
+  const handleShare = async () => {
+    const url = viewStateUrl(currentView());
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: selectedStation?.name ?? 'RoamFM', url });
+        return;
       }
-      setIsPlaying(!isPlaying);
+      await navigator.clipboard.writeText(url);
+      setShareMessage('Link copied');
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Error sharing link:', error);
+      setShareMessage('Could not copy link');
     }
+    setTimeout(() => setShareMessage(null), 2000);
   };
 
-  const filteredStations = stations.filter(station => {
-    const matchesSearch = station.name.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesMood = !selectedMood || station.mood === selectedMood;
-    return matchesSearch && matchesMood;
-  });
+  // Selecting a station from a link doesn't start playback, so the first press plays it
+  const togglePlayback = () => {
+    if (selectedStation && playback.state.station?.stationuuid !== selectedStation.stationuuid) {
+      playback.play(selectedStation);
+    } else {
+      playback.toggle();
+    }
+  };
+
+  const handleZoom = (pov: PointOfView) => {
+    cameraRef.current = { lat: pov.lat, lng: pov.lng, alt: pov.altitude };
+    scheduleUrlWrite();
+    const next = quantizePointOfView(pov);
+    setPointOfView(prev =>
+      prev.lat === next.lat && prev.lng === next.lng && prev.altitude === next.altitude ? prev : next
+    );
+  };
+
+  // Zoom in far enough for the cluster to split up
+  const handleClusterClick = (cluster: StationCluster) => {
+    if (cluster.stations.length === 1) {
+      handleStationClick(cluster.stations[0]);
+      return;
+    }
+    if (globeRef.current) {
+      const { altitude } = globeRef.current.pointOfView();
+      globeRef.current.pointOfView({
+        lat: cluster.lat,
+        lng: cluster.lng,
+        altitude: Math.max(altitude / 2.5, 0.2)
+      }, 1000);
+    }
+  };
+
+  const clusterRadius = (count: number) => {
+    const base = dimensions.width < 768 ? 0.3 : 0.5;
+    return Math.min(base + Math.log2(count) * 0.25, 3);
+  };
 
   const handleRandomStation = () => {
     if (filteredStations.length > 0) {
@@ -239,29 +649,118 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
     }
   };
 
-  // Add click outside handler
-  useEffect(() => {
-    function handleClickOutside(event: MouseEvent) {
-      if (searchRef.current && !searchRef.current.contains(event.target as Node)) {
-        setShowSearchDropdown(false);
-      }
+  // Steps through favorites in their manual order, starting from whatever is playing
+  const playAdjacentFavorite = (direction: -1 | 1) => {
+    const current = playback.state.station ?? selectedStation;
+    const entry = adjacentFavorite(favorites, current?.stationuuid ?? null, direction);
+    if (entry) handleStationClick(entry.station);
+  };
+
+  const toggleCurrentFavorite = () => {
+    const station = selectedStation ?? playback.state.station;
+    if (station) favorites.toggleFavorite(station);
+  };
+
+  // `east` and `north` are -1, 0 or 1
+  const rotateView = (east: number, north: number) => {
+    if (viewMode === 'flat') {
+      flatMapRef.current?.panBy([east * PAN_STEP_PIXELS, -north * PAN_STEP_PIXELS]);
+      return;
     }
+    const globe = globeRef.current;
+    if (!globe) return;
+    const { lat, lng, altitude } = globe.pointOfView();
+    // Smaller steps when zoomed in, so a press doesn't skip past whole countries
+    const step = ROTATE_STEP_DEGREES * Math.min(altitude / 2.5, 1);
+    globe.pointOfView({
+      lat: Math.max(-80, Math.min(80, lat + north * step)),
+      lng: lng + east * step,
+      altitude
+    }, 300);
+  };
 
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, []);
+  const placeNearbyOrigin = (origin: NearbyOrigin, radiusKm = nearbyRadiusKm) => {
+    setNearbyOrigin(origin);
+    setIsPlacingPin(false);
+    setLocateError(null);
+    moveCamera(origin.lat, origin.lng, altitudeForRadius(radiusKm));
+  };
+
+  const handleLocate = async () => {
+    setIsLocating(true);
+    setLocateError(null);
+    try {
+      const position = await locateUser();
+      placeNearbyOrigin({ ...position, source: 'geolocation' });
+    } catch (error) {
+      setLocateError(error instanceof Error ? error.message : 'Could not find your location');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleMapClick = ({ lat, lng }: { lat: number; lng: number }) => {
+    if (isPlacingPin) placeNearbyOrigin({ lat, lng, source: 'pin' });
+  };
+
+  const handleNearbyRadiusChange = (radiusKm: number) => {
+    setNearbyRadiusKm(radiusKm);
+    if (nearbyOrigin) moveCamera(nearbyOrigin.lat, nearbyOrigin.lng, altitudeForRadius(radiusKm));
+  };
+
+  useKeyboardShortcuts({
+    togglePlay: togglePlayback,
+    random: handleRandomStation,
+    favorite: toggleCurrentFavorite,
+    nextFavorite: () => playAdjacentFavorite(1),
+    previousFavorite: () => playAdjacentFavorite(-1),
+    search: () => searchInputRef.current?.focus(),
+    rotateLeft: () => rotateView(-1, 0),
+    rotateRight: () => rotateView(1, 0),
+    rotateUp: () => rotateView(0, 1),
+    rotateDown: () => rotateView(0, -1),
+    help: () => setShowShortcuts(show => !show)
+  });
+
+  useMediaSession(playback.state, {
+    play: () => {
+      if (!playback.isActive) togglePlayback();
+    },
+    pause: playback.pause,
+    nextFavorite: () => playAdjacentFavorite(1),
+    previousFavorite: () => playAdjacentFavorite(-1),
+    random: handleRandomStation
+  });
 
   // Add function to create ring data for a station
   const createRingData = (station: Station): RingData => ({
     lat: station.latitude,
     lng: station.longitude,
-    maxR: 5,
-    propagationSpeed: 2,
-    repeatPeriod: 1300,
-    color: () => '#4ECDC4',
     altitude: 0.1
   });
 
+  // The globe reads these each time it emits a ring, so louder passages send out
+  // bigger, faster, denser rings and the bass drives the beat
+  const ringMaxRadius = () => {
+    const { amplitude, mid } = audioLevels.current;
+    return amplitude > 0 ? 2 + amplitude * 5 + mid * 3 : IDLE_RING.maxR;
+  };
+  const ringPropagationSpeed = () => {
+    const { amplitude, bass } = audioLevels.current;
+    return amplitude > 0 ? 1.5 + bass * 5 : IDLE_RING.propagationSpeed;
+  };
+  const ringRepeatPeriod = () => {
+    const { amplitude, bass } = audioLevels.current;
+    return amplitude > 0 ? Math.max(IDLE_RING.repeatPeriod - bass * 1000 - amplitude * 200, 250) : IDLE_RING.repeatPeriod;
+  };
+  const ringColor = () => {
+    // Treble brightens the ring, and each ring fades as it spreads
+    const { amplitude, treble } = audioLevels.current;
+    const opacity = amplitude > 0 ? 0.4 + amplitude * 0.6 : 1;
+    const green = Math.round(205 + treble * 50);
+    return (t: number) => `rgba(78, ${green}, 196, ${opacity * (1 - t)})`;
+  };
+
   // Update rings when selected station changes
   useEffect(() => {
     if (selectedStation) {
@@ -272,156 +771,41 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
     }
   }, [selectedStation]);
 
-  const toggleFavorite = (station: Station) => {
-    setFavorites(prev => {
-      const isFavorite = prev.some(fav => fav.name === station.name);
-      if (isFavorite) {
-        return prev.filter(fav => fav.name !== station.name);
-      } else {
-        return [...prev, station];
-      }
-    });
-  };
+  // Radio Browser ranks stations by clicks, report the first time each one actually plays
+  const playingUuid = playback.state.status === 'playing' ? playback.state.station?.stationuuid : undefined;
+  useEffect(() => {
+    if (!playingUuid || reportedClicksRef.current.has(playingUuid)) return;
+    reportedClicksRef.current.add(playingUuid);
+    reportClick(playingUuid).catch(error => console.warn('Failed to report station click:', error));
+  }, [playingUuid]);
+
+  const hoveredProbe = hoveredStation ? streamHealth.probeOf(hoveredStation) : null;
+  const isSelectedFavorite = selectedStation ? favorites.isFavorite(selectedStation.stationuuid) : false;
 
   return (
     <div className="relative w-screen h-screen">
       {/* Top Controls Bar */}
       <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-50 w-full max-w-4xl px-4">
         <div className="flex flex-col space-y-3">
-          {/* Search Bar */}
-          <div className="relative" ref={searchRef}>
-            <div className="relative bg-black/80 backdrop-blur-sm rounded-full border border-white/20 shadow-lg">
-              <input
-                type="text"
-                value={searchQuery}
-                onChange={(e) => {
-                  setSearchQuery(e.target.value);
-                  setShowSearchDropdown(true);
-                }}
-                onFocus={() => setShowSearchDropdown(true)}
-                placeholder="Search stations..."
-                className="w-full bg-transparent text-white px-6 py-3 rounded-full focus:outline-none focus:border-white/40"
-              />
-              <div className="absolute right-4 top-1/2 transform -translate-y-1/2 flex items-center space-x-2">
-                <button
-                  onClick={() => setShowFilters(!showFilters)}
-                  className="p-1 rounded-full hover:bg-white/10 transition-colors"
-                  title={showFilters ? "Hide Filters" : "Show Filters"}
-                >
-                  <svg 
-                    className={`w-5 h-5 text-white/60 transform transition-transform duration-300 ${showFilters ? 'rotate-180' : ''}`}
-                    fill="none" 
-                    stroke="currentColor" 
-                    viewBox="0 0 24 24"
-                  >
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                  </svg>
-                </button>
-                <svg 
-                  className="w-5 h-5 text-white/60" 
-                  fill="none" 
-                  stroke="currentColor" 
-                  viewBox="0 0 24 24"
-                >
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-                </svg>
-              </div>
-            </div>
-
-            {/* Search Dropdown */}
-            {showSearchDropdown && (
-              <div className="absolute top-full left-0 right-0 mt-2 bg-black/90 backdrop-blur-sm border border-white/20 rounded-xl shadow-xl p-4 animate-fadeIn">
-                <div className="space-y-4">
-                  {/* Search Results Preview */}
-                  {searchQuery && (
-                    <div>
-                      <h4 className="text-white/60 text-sm font-medium mb-2">Search Results</h4>
-                      <div className="space-y-2">
-                        {filteredStations.slice(0, 5).map((station) => (
-                          <button
-                            key={station.name}
-                            onClick={() => {
-                              handleStationClick(station);
-                              setShowSearchDropdown(false);
-                            }}
-                            className="w-full text-left px-3 py-2 rounded-lg text-sm bg-white/10 text-white hover:bg-white/20 transition-colors"
-                          >
-                            <div className="flex items-center space-x-2">
-                              {station.favicon ? (
-                                <Image 
-                                  src={station.favicon} 
-                                  alt={station.name}
-                                  width={16}
-                                  height={16}
-                                  className="rounded"
-                                />
-                              ) : (
-                                <div className="w-4 h-4 bg-white/10 rounded" />
-                              )}
-                              <span className="truncate">{station.name}</span>
-                            </div>
-                          </button>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </div>
-            )}
-          </div>
+          <StationSearch
+            query={searchQuery}
+            onQueryChange={setSearchQuery}
+            results={visibleSearchResults}
+            onSelect={handleStationClick}
+            showFilters={showFilters}
+            onToggleFilters={() => setShowFilters(!showFilters)}
+            inputRef={searchInputRef}
+          />
 
           {/* Filters Bar */}
           {showFilters && (
             <div className="flex space-x-3 animate-fadeIn">
-              {/* Genre Selector */}
-              <div className="flex-1 bg-black/80 backdrop-blur-sm rounded-xl border border-white/20 shadow-lg p-3">
-                <h4 className="text-white/60 text-sm font-medium mb-2">Genres</h4>
-                <div className="flex flex-wrap gap-2">
-                  {genres.map((genre) => (
-                    <button
-                      key={genre.value}
-                      onClick={() => onTagChange(genre.value)}
-                      className={`group relative px-4 py-2 rounded-lg text-sm transition-all duration-300 transform hover:scale-105 ${
-                        tag === genre.value
-                          ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium'
-                          : 'bg-white/10 text-white hover:bg-white/20'
-                      }`}
-                    >
-                      <span className="flex items-center space-x-2">
-                        {tag === genre.value && (
-                          <span className="absolute -top-1 -right-1 w-2 h-2 bg-green-400 rounded-full animate-pulse" />
-                        )}
-                        {genre.value === 'jazz' && (
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
-                          </svg>
-                        )}
-                        {genre.value === 'rock' && (
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.933 12.8a1 1 0 000-1.6L6.6 7.2A1 1 0 005 8v8a1 1 0 001.6.8l5.333-4zM19.933 12.8a1 1 0 000-1.6l-5.333-4A1 1 0 0013 8v8a1 1 0 001.6.8l5.333-4z" />
-                          </svg>
-                        )}
-                        {genre.value === 'classical' && (
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
-                          </svg>
-                        )}
-                        {genre.value === 'electronic' && (
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                          </svg>
-                        )}
-                        {genre.value === 'lofi' && (
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
-                          </svg>
-                        )}
-                        <span>{genre.label}</span>
-                      </span>
-                    </button>
-                  ))}
-                </div>
-              </div>
+              <GenreSelector
+                tags={tags}
+                match={tagMatch}
+                onTagsChange={onTagsChange}
+                onMatchChange={onTagMatchChange}
+              />
 
               {/* Mood Selector */}
               <div className="flex-1 bg-black/80 backdrop-blur-sm rounded-xl border border-white/20 shadow-lg p-3">
@@ -440,6 +824,7 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
                       }`}
                     >
                       {mood.label}
+                      <span className="ml-1 text-xs opacity-60">{moodCounts.get(mood.value) ?? 0}</span>
                     </button>
                   ))}
                 </div>
@@ -480,6 +865,11 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
               {hoveredStation.country && (
                 <p className="text-white/60 text-xs">{hoveredStation.country}</p>
               )}
+              {hoveredProbe?.status === 'dead' && (
+                <p className="text-red-400 text-xs">
+                  Stream not answering{hoveredProbe.reason ? `: ${hoveredProbe.reason}` : ''}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -502,8 +892,10 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
           <div>Map Loaded: {debugInfo.mapLoaded ? '✅' : '❌'}</div>
           <div>Total Stations: {debugInfo.stationsCount}</div>
           <div>Valid Stations: {debugInfo.validStationsCount}</div>
+          <div>Filtered Stations: {filteredStations.length}</div>
+          <div>Rendered Points: {clusters.length}</div>
           <div>Last Update: {debugInfo.lastUpdate}</div>
-          <div>Current Tag: {tag}</div>
+          <div>Current Tags: {tags.join(tagMatch === 'all' ? ' + ' : ' | ')}</div>
           <div>Loading: {isLoading ? '✅' : '❌'}</div>
           {error && <div className="text-red-400">Error: {error}</div>}
           <div className="mt-2">
@@ -528,47 +920,157 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
         </div>
       )}
 
+      {/* 2D Map */}
+      {!error && stations.length > 0 && viewMode === 'flat' && (
+        <div className={`w-full h-full ${isPlacingPin ? 'cursor-crosshair' : ''}`}>
+          <FlatMap
+            stations={filteredStations}
+            selectedStation={selectedStation}
+            focusedStation={focusedStation}
+            journeyArcs={journeyArcsData}
+            center={{ lat: cameraRef.current.lat ?? 20, lng: cameraRef.current.lng ?? 0 }}
+            zoom={altitudeToZoom(cameraRef.current.alt ?? 2.5)}
+            onStationClick={handleStationClick}
+            onStationHover={setHoveredStation}
+            isDead={(station) => streamHealth.statusOf(station) === 'dead'}
+            nearby={nearbyOrigin ? { center: nearbyOrigin, radiusKm: nearbyRadiusKm } : null}
+            onMapClick={handleMapClick}
+            onMove={({ lat, lng, zoom }) => handleZoom({ lat, lng, altitude: zoomToAltitude(zoom) })}
+            mapRef={flatMapRef}
+            onReady={() => setIsFlatMapReady(true)}
+          />
+        </div>
+      )}
+
       {/* 3D Globe */}
-      {!error && stations.length > 0 && (
-        <div className="w-full h-full">
+      {!error && stations.length > 0 && viewMode === 'globe' && (
+        <div className={`w-full h-full ${isPlacingPin ? 'cursor-crosshair' : ''}`}>
           <Globe
             ref={globeRef}
             width={dimensions.width}
             height={dimensions.height}
             globeImageUrl="//unpkg.com/three-globe/example/img/earth-dark.jpg"
             backgroundColor="rgba(0,0,0,0)"
-            pointsData={filteredStations}
-            pointLat="latitude"
-            pointLng="longitude"
+            pointsData={mapLayer === 'hexbin' ? [] : clusters}
+            pointLat="lat"
+            pointLng="lng"
             pointColor={(point: object) => {
-              const station = point as Station;
-              if (station === focusedStation) return '#FF6B6B';
-              if (station === selectedStation) return '#4ECDC4';
-              return '#ffffff';
+              const { stations: members } = point as StationCluster;
+              if (members.length > 1) {
+                return members.some(station => station.stationuuid === selectedStation?.stationuuid) ? '#4ECDC4' : '#A78BFA';
+              }
+              const station = members[0];
+              // By uuid: stations restored from links, favorites or search are different objects
+              if (station.stationuuid === focusedStation?.stationuuid) return '#FF6B6B';
+              if (station.stationuuid === selectedStation?.stationuuid) return '#4ECDC4';
+              return streamHealth.statusOf(station) === 'dead' ? DEAD_STATION_COLOR : '#ffffff';
             }}
             pointRadius={(point: object) => {
-              const station = point as Station;
-              if (station === focusedStation) return dimensions.width < 768 ? 0.6 : 0.8;
-              if (station === selectedStation) return dimensions.width < 768 ? 0.4 : 0.6;
+              const { stations: members } = point as StationCluster;
+              if (members.length > 1) return clusterRadius(members.length);
+              const station = members[0];
+              if (station.stationuuid === focusedStation?.stationuuid) return dimensions.width < 768 ? 0.6 : 0.8;
+              if (station.stationuuid === selectedStation?.stationuuid) return dimensions.width < 768 ? 0.4 : 0.6;
               return dimensions.width < 768 ? 0.3 : 0.5;
             }}
+            labelsData={mapLayer === 'hexbin' ? [] : clusterLabels}
+            labelLat="lat"
+            labelLng="lng"
+            labelText={(label: object) => String((label as StationCluster).stations.length)}
+            labelSize={(label: object) => clusterRadius((label as StationCluster).stations.length) * 0.9}
+            labelColor={() => '#ffffff'}
+            labelAltitude={0.11}
+            labelIncludeDot={false}
+            labelResolution={2}
+            labelsTransitionDuration={0}
+            onLabelClick={(label: object) => handleClusterClick(label as StationCluster)}
+            polygonsData={mapLayer === 'choropleth' ? countryFeatures : []}
+            polygonCapColor={(feature: object) => countryColor(feature as CountryFeature)}
+            polygonSideColor={() => 'rgba(255, 255, 255, 0.05)'}
+            polygonStrokeColor={() => 'rgba(255, 255, 255, 0.2)'}
+            polygonAltitude={(feature: object) => (feature === hoveredCountry ? 0.02 : 0.008)}
+            polygonLabel={(feature: object) => {
+              const country = feature as CountryFeature;
+              const count = countryCounts.get(featureCountryCode(country) ?? '') ?? 0;
+              return `${country.properties.NAME}: ${count} station${count === 1 ? '' : 's'}`;
+            }}
+            onPolygonHover={(feature: object | null) => setHoveredCountry(feature as CountryFeature | null)}
+            onPolygonClick={(feature: object) => toggleCountryFilter(feature as CountryFeature)}
+            polygonsTransitionDuration={300}
+            hexBinPointsData={mapLayer === 'hexbin' ? filteredStations : []}
+            hexBinPointLat={(station: object) => (station as Station).latitude}
+            hexBinPointLng={(station: object) => (station as Station).longitude}
+            hexBinResolution={3}
+            hexMargin={0.2}
+            hexAltitude={({ sumWeight }: { sumWeight: number }) => 0.01 + (Math.min(sumWeight, HEX_SATURATION) / HEX_SATURATION) * 0.3}
+            hexTopColor={({ sumWeight }: { sumWeight: number }) => rampColor(Math.min(sumWeight, HEX_SATURATION), HEX_SATURATION)}
+            hexSideColor={({ sumWeight }: { sumWeight: number }) => rampColor(Math.min(sumWeight, HEX_SATURATION), HEX_SATURATION, 0.6)}
+            hexLabel={({ sumWeight }: { sumWeight: number }) => `${sumWeight} station${sumWeight === 1 ? '' : 's'}`}
+            onHexClick={({ center }: { center: { lat: number; lng: number } }) => {
+              if (!globeRef.current) return;
+              const { altitude } = globeRef.current.pointOfView();
+              globeRef.current.pointOfView({ ...center, altitude: Math.max(altitude / 2.5, 0.2) }, 1000);
+            }}
+            hexTransitionDuration={300}
+            arcsData={journeyArcsData}
+            arcColor={(arc: object) =>
+              (arc as JourneyArc).index === journeyStop
+                ? ['#A855F7', '#EC4899']
+                : ['rgba(168, 85, 247, 0.35)', 'rgba(236, 72, 153, 0.35)']
+            }
+            arcStroke={0.6}
+            arcAltitudeAutoScale={0.4}
+            arcDashLength={0.5}
+            arcDashGap={0.15}
+            arcDashAnimateTime={2500}
+            arcsTransitionDuration={500}
             ringsData={ringsData}
-            ringColor={() => '#4ECDC4'}
-            ringMaxRadius="maxR"
-            ringPropagationSpeed="propagationSpeed"
-            ringRepeatPeriod="repeatPeriod"
+            ringColor={ringColor}
+            ringMaxRadius={ringMaxRadius}
+            ringPropagationSpeed={ringPropagationSpeed}
+            ringRepeatPeriod={ringRepeatPeriod}
             ringAltitude="altitude"
+            pathsData={nearbyCircle}
+            pathPoints="points"
+            pathPointLat="lat"
+            pathPointLng="lng"
+            pathPointAlt={0.005}
+            pathColor={() => 'rgba(236, 72, 153, 0.8)'}
+            pathStroke={1.5}
+            pathTransitionDuration={0}
+            htmlElementsData={nearbyOrigin ? [nearbyOrigin] : []}
+            htmlLat="lat"
+            htmlLng="lng"
+            htmlElement={createPinElement}
+            onGlobeClick={handleMapClick}
             onPointClick={(point: object) => {
-              handleStationClick(point as Station);
+              handleClusterClick(point as StationCluster);
             }}
             onPointHover={(point: object | null) => {
-              setHoveredStation(point as Station | null);
+              const cluster = point as StationCluster | null;
+              setHoveredStation(cluster && cluster.stations.length === 1 ? cluster.stations[0] : null);
+            }}
+            onZoom={handleZoom}
+            onGlobeReady={() => {
+              setIsGlobeReady(true);
+              // Pick up where the flat map left off when switching back
+              const { lat, lng, alt } = cameraRef.current;
+              if (hasRestoredViewRef.current && lat !== undefined && lng !== undefined && alt !== undefined) {
+                globeRef.current?.pointOfView({ lat, lng, altitude: alt });
+              }
             }}
             enablePointerInteraction={true}
             animateIn={true}
             pointAltitude={0.1}
+            // Merging bakes every point into one mesh the globe can't pick from, so single
+            // stations would lose their click (play) and hover (name, health check), and each
+            // selection or health result would rebuild the whole mesh. Clustering already keeps
+            // the far side to a few coarse cells, which is what keeps the point count down
             pointsMerge={false}
-            pointLabel={(point: object) => (point as Station).name}
+            pointLabel={(point: object) => {
+              const { stations: members } = point as StationCluster;
+              return members.length > 1 ? `${members.length} stations` : members[0].name;
+            }}
             pointsTransitionDuration={300}
           />
         </div>
@@ -606,8 +1108,39 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
                   {selectedStation.country && (
                     <p className="text-white/60 text-sm truncate">{selectedStation.country}</p>
                   )}
+                  {nowPlaying && (
+                    <p className="text-purple-300 text-sm truncate" title={nowPlaying.raw}>
+                      {nowPlaying.artist ? `${nowPlaying.artist} — ${nowPlaying.title}` : nowPlaying.title}
+                    </p>
+                  )}
+                  {scheduler.blockedAlarm ? (
+                    <p className="text-xs text-amber-300">
+                      The {scheduler.blockedAlarm.time} alarm was blocked by the browser, press play to start it
+                    </p>
+                  ) : (
+                    <p
+                      className={`text-xs truncate ${playback.state.status === 'error' ? 'text-red-400' : 'text-white/40'}`}
+                      title={playback.state.error ?? undefined}
+                    >
+                      {describePlayback(playback.state)}
+                    </p>
+                  )}
                 </div>
                 <div className="flex items-center space-x-4">
+                  <button
+                    onClick={handleShare}
+                    className="relative p-2 rounded-full bg-white/10 hover:bg-white/20 transition-all duration-300 hover:scale-110"
+                    title="Share"
+                  >
+                    <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                    </svg>
+                    {shareMessage && (
+                      <span className="absolute -top-8 left-1/2 -translate-x-1/2 whitespace-nowrap bg-black/90 border border-white/20 text-white text-xs px-2 py-1 rounded">
+                        {shareMessage}
+                      </span>
+                    )}
+                  </button>
                   <button
                     onClick={handleRandomStation}
                     className="p-2 rounded-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 transition-all duration-300 hover:scale-110"
@@ -618,21 +1151,21 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
                     </svg>
                   </button>
                   <button
-                    onClick={() => selectedStation && toggleFavorite(selectedStation)}
+                    onClick={() => selectedStation && favorites.toggleFavorite(selectedStation)}
                     className={`p-2 rounded-full transition-all duration-300 hover:scale-110 ${
-                      favorites.some(fav => fav.name === selectedStation?.name)
+                      isSelectedFavorite
                         ? 'bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600'
                         : 'bg-white/10 hover:bg-white/20'
                     }`}
-                    title={favorites.some(fav => fav.name === selectedStation?.name) ? "Remove from Favorites" : "Add to Favorites"}
+                    title={isSelectedFavorite ? "Remove from Favorites" : "Add to Favorites"}
                   >
                     <svg 
                       className={`w-6 h-6 transform transition-transform duration-300 ${
-                        favorites.some(fav => fav.name === selectedStation?.name)
+                        isSelectedFavorite
                           ? 'text-white scale-110'
                           : 'text-white/60 group-hover:text-white'
                       }`}
-                      fill={favorites.some(fav => fav.name === selectedStation?.name) ? "currentColor" : "none"}
+                      fill={isSelectedFavorite ? "currentColor" : "none"}
                       stroke="currentColor" 
                       viewBox="0 0 24 24"
                     >
@@ -643,7 +1176,7 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
                     onClick={togglePlayback}
                     className="p-2 rounded-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 transition-all duration-300 hover:scale-110"
                   >
-                    {isPlaying ? (
+                    {playback.isActive ? (
                       <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                       </svg>
@@ -670,10 +1203,29 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
                 </div>
               </div>
 
+              <div className="mt-3 space-y-2">
+                <VolumeControl
+                  volume={playback.settings.volume}
+                  muted={playback.settings.muted}
+                  onVolumeChange={playback.setVolume}
+                  onToggleMute={playback.toggleMute}
+                />
+                {playback.state.station && (
+                  <RecordingControls recorder={recorder} isHls={playback.state.station.hls === 1} />
+                )}
+              </div>
+
               {/* Expanded Content */}
               {isExpanded && (
                 <div className="mt-4 pt-4 border-t border-white/10 animate-fadeIn">
                   <div className="space-y-4">
+                    {playback.processingSupported && playback.settings.visualizer !== 'off' && (
+                      <AudioVisualizer
+                        mode={playback.settings.visualizer}
+                        getAnalyser={playback.getAnalyser}
+                        isPlaying={playback.state.status === 'playing'}
+                      />
+                    )}
                     {/* Station Info */}
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
@@ -688,6 +1240,17 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
                           {selectedStation.country && (
                             <p className="text-white/60 text-sm">{selectedStation.country}</p>
                           )}
+                          {selectedStationMood?.mood && (
+                            <p className="text-white/60 text-sm">
+                              Mood: <span className="text-white capitalize">{selectedStationMood.mood}</span>
+                            </p>
+                          )}
+                          <button
+                            onClick={() => setShowDetails(true)}
+                            className="text-purple-400 hover:text-purple-300 text-sm"
+                          >
+                            More details
+                          </button>
                         </div>
                       </div>
                       <div className="space-y-2">
@@ -711,15 +1274,51 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
                         </div>
                       </div>
                     </div>
+                    {nowPlaying && (
+                      <div className="space-y-1">
+                        <h4 className="text-white/60 text-sm font-medium">Now Playing</h4>
+                        <p className="text-white text-sm">{nowPlaying.title}</p>
+                        {nowPlaying.artist && (
+                          <p className="text-white/60 text-sm">{nowPlaying.artist}</p>
+                        )}
+                      </div>
+                    )}
+                    {selectedStationMood?.mood && (
+                      <p className="text-white/40 text-xs">
+                        Why {selectedStationMood.mood}: {describeMoodReasons(selectedStationMood.reasons)}
+                      </p>
+                    )}
+                    <SoundSettings playback={playback} />
                   </div>
                 </div>
               )}
             </div>
           </div>
-          <audio ref={audioRef} className="hidden" />
         </div>
       )}
 
+      {/* Kept mounted so the audio engine owns its two decks for the whole session */}
+      {[0, 1].map(deck => (
+        <audio
+          key={deck}
+          ref={(audio) => {
+            deckRefs.current[deck] = audio;
+          }}
+          className="hidden"
+        />
+      ))}
+
+      {/* Data Layers and Legend */}
+      {!error && stations.length > 0 && viewMode === 'globe' && (
+        <MapLayerControl
+          layer={mapLayer}
+          onLayerChange={setMapLayer}
+          legendTitle={mapLayer === 'hexbin' ? 'Stations per area' : 'Stations per country'}
+          legend={layerLegend}
+          hint={layerHint}
+        />
+      )}
+
       {/* Top Left Controls */}
       <div className="fixed top-4 left-4 z-50 flex flex-col space-y-3">
         {/* Info Button */}
@@ -751,6 +1350,145 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
           </svg>
         </button>
+
+        {/* History Button */}
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="w-12 h-12 bg-black/80 backdrop-blur-sm rounded-full border border-white/20 shadow-lg hover:scale-110 transition-all duration-300 flex items-center justify-center group"
+          title="Recently Played"
+        >
+          <svg 
+            className="w-6 h-6 text-white transform transition-transform duration-300 group-hover:scale-110" 
+            fill="none" 
+            stroke="currentColor" 
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
+
+        {/* Timers Button */}
+        <button
+          onClick={() => setShowSchedules(!showSchedules)}
+          className="relative w-12 h-12 bg-black/80 backdrop-blur-sm rounded-full border border-white/20 shadow-lg hover:scale-110 transition-all duration-300 flex items-center justify-center group"
+          title="Sleep timer and alarms"
+        >
+          <svg 
+            className="w-6 h-6 text-white transform transition-transform duration-300 group-hover:scale-110" 
+            fill="none" 
+            stroke="currentColor" 
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+          </svg>
+          {scheduler.sleepTimer && (
+            <span className="absolute -top-1 -right-1 w-3 h-3 bg-green-400 rounded-full animate-pulse" />
+          )}
+        </button>
+
+        {/* Roam Button */}
+        <button
+          onClick={() => setShowRoam(!showRoam)}
+          className="relative w-12 h-12 bg-black/80 backdrop-blur-sm rounded-full border border-white/20 shadow-lg hover:scale-110 transition-all duration-300 flex items-center justify-center group"
+          title="Radio roam"
+        >
+          <svg 
+            className="w-6 h-6 text-white transform transition-transform duration-300 group-hover:scale-110" 
+            fill="none" 
+            stroke="currentColor" 
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+          </svg>
+          {roam.session?.active && (
+            <span className="absolute -top-1 -right-1 w-3 h-3 bg-green-400 rounded-full animate-pulse" />
+          )}
+        </button>
+
+        {/* Near Me Button */}
+        <button
+          onClick={() => setShowNearby(!showNearby)}
+          className="relative w-12 h-12 bg-black/80 backdrop-blur-sm rounded-full border border-white/20 shadow-lg hover:scale-110 transition-all duration-300 flex items-center justify-center group"
+          title="Stations near me"
+        >
+          <svg 
+            className="w-6 h-6 text-white transform transition-transform duration-300 group-hover:scale-110" 
+            fill="none" 
+            stroke="currentColor" 
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+          {nearbyOrigin && (
+            <span className="absolute -top-1 -right-1 w-3 h-3 bg-green-400 rounded-full animate-pulse" />
+          )}
+        </button>
+
+        {/* Recordings Button */}
+        <button
+          onClick={() => setShowRecordings(!showRecordings)}
+          className="relative w-12 h-12 bg-black/80 backdrop-blur-sm rounded-full border border-white/20 shadow-lg hover:scale-110 transition-all duration-300 flex items-center justify-center group"
+          title="Recordings"
+        >
+          <svg 
+            className="w-6 h-6 text-white transform transition-transform duration-300 group-hover:scale-110" 
+            fill="none" 
+            stroke="currentColor" 
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+          </svg>
+          {recorder.active && (
+            <span className="absolute -top-1 -right-1 w-3 h-3 bg-red-500 rounded-full animate-pulse" />
+          )}
+        </button>
+
+        {/* 2D/3D Button */}
+        <button
+          onClick={toggleViewMode}
+          className="w-12 h-12 bg-black/80 backdrop-blur-sm rounded-full border border-white/20 shadow-lg hover:scale-110 transition-all duration-300 flex items-center justify-center group text-white text-sm font-semibold"
+          title={viewMode === 'flat' ? 'Switch to the 3D globe' : 'Switch to the 2D map'}
+        >
+          {viewMode === 'flat' ? '3D' : '2D'}
+        </button>
+
+        {/* Journey Button */}
+        <button
+          onClick={() => setShowJourney(!showJourney)}
+          className="w-12 h-12 bg-black/80 backdrop-blur-sm rounded-full border border-white/20 shadow-lg hover:scale-110 transition-all duration-300 flex items-center justify-center group"
+          title="Listening journey"
+        >
+          <svg 
+            className="w-6 h-6 text-white transform transition-transform duration-300 group-hover:scale-110" 
+            fill="none" 
+            stroke="currentColor" 
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
+
+        {/* Filters Button */}
+        <button
+          onClick={() => setShowFilterPanel(!showFilterPanel)}
+          className="relative w-12 h-12 bg-black/80 backdrop-blur-sm rounded-full border border-white/20 shadow-lg hover:scale-110 transition-all duration-300 flex items-center justify-center group"
+          title="Filters"
+        >
+          <svg 
+            className="w-6 h-6 text-white transform transition-transform duration-300 group-hover:scale-110" 
+            fill="none" 
+            stroke="currentColor" 
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+          </svg>
+          {activeFilters > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full text-white text-xs flex items-center justify-center">
+              {activeFilters}
+            </span>
+          )}
+        </button>
       </div>
 
       {/* About Modal */}
@@ -773,65 +1511,141 @@ export default function WorldMap({ tag, onTagChange }: WorldMapProps) {
               <p>Features:</p>
               <ul className="list-disc list-inside space-y-2">
                 <li>Explore radio stations on a 3D globe</li>
-                <li>Filter by genres and moods</li>
+                <li>Filter by genre, mood, country, language and stream quality</li>
                 <li>Save your favorite stations</li>
                 <li>Real-time streaming</li>
               </ul>
+              <button
+                onClick={() => {
+                  setShowAbout(false);
+                  setShowShortcuts(true);
+                }}
+                className="text-sm text-purple-300 hover:text-purple-200 transition-colors"
+              >
+                Keyboard shortcuts (press ?)
+              </button>
             </div>
           </div>
         </div>
       )}
 
+      {showShortcuts && <ShortcutsHelp onClose={() => setShowShortcuts(false)} />}
+
       {/* Favorites List */}
       {showFavorites && (
-        <div className="fixed top-20 left-4 z-50 bg-black/90 backdrop-blur-sm border border-white/20 rounded-xl p-4 w-80 max-h-[calc(100vh-8rem)] overflow-y-auto">
-          <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-semibold text-white">Favorites</h3>
-            <button
-              onClick={() => setShowFavorites(false)}
-              className="text-white/60 hover:text-white transition-colors"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
-          </div>
-          <div className="space-y-2">
-            {favorites.length === 0 ? (
-              <p className="text-white/60 text-sm">No favorite stations yet</p>
-            ) : (
-              favorites.map((station) => (
-                <div
-                  key={station.name}
-                  className="flex items-center justify-between p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
-                >
-                  <div className="flex items-center space-x-2">
-                    {station.favicon ? (
-                      <Image 
-                        src={station.favicon} 
-                        alt={station.name}
-                        width={24}
-                        height={24}
-                        className="rounded"
-                      />
-                    ) : (
-                      <div className="w-6 h-6 bg-white/10 rounded" />
-                    )}
-                    <span className="text-white text-sm truncate">{station.name}</span>
-                  </div>
-                  <button
-                    onClick={() => handleStationClick(station)}
-                    className="p-1 rounded-full hover:bg-white/20 transition-colors"
-                  >
-                    <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
-                    </svg>
-                  </button>
-                </div>
-              ))
-            )}
-          </div>
-        </div>
+        <FavoritesPanel
+          favorites={favorites}
+          onPlay={handleStationClick}
+          onClose={() => setShowFavorites(false)}
+        />
+      )}
+
+      {/* Recently Played, next to Favorites when both are open */}
+      {showHistory && (
+        <HistoryPanel
+          history={history}
+          onPlay={handleStationClick}
+          onClose={() => setShowHistory(false)}
+          className={showFavorites ? 'left-[26rem]' : 'left-4'}
+        />
+      )}
+
+      {/* Sleep Timer and Alarms */}
+      {showSchedules && (
+        <SchedulePanel
+          scheduler={scheduler}
+          favorites={favorites.favorites}
+          currentStation={selectedStation}
+          onClose={() => setShowSchedules(false)}
+          className={showFavorites || showHistory ? 'left-[26rem]' : 'left-4'}
+        />
+      )}
+
+      {/* Roam Mode */}
+      {showRoam && (
+        <RoamPanel
+          roam={roam}
+          currentStation={selectedStation}
+          onClose={() => setShowRoam(false)}
+          className={showFavorites || showHistory || showSchedules ? 'left-[26rem]' : 'left-4'}
+        />
+      )}
+
+      {/* Listening Journey */}
+      {showJourney && (
+        <JourneyPanel
+          journeys={journeys}
+          journey={journey}
+          onSelectJourney={(id) => {
+            setJourneyId(id);
+            setJourneyPosition(null);
+            setIsReplayingJourney(false);
+          }}
+          position={journeyStop}
+          onPositionChange={(position) => {
+            setIsReplayingJourney(false);
+            // Dragging to the end goes back to following new stops
+            setJourneyPosition(journey && position >= journey.stops.length - 1 ? null : position);
+          }}
+          isReplaying={isReplayingJourney}
+          onToggleReplay={toggleJourneyReplay}
+          onClose={() => setShowJourney(false)}
+          className={showFavorites || showHistory || showSchedules || showRoam ? 'left-[26rem]' : 'left-4'}
+        />
+      )}
+
+      {/* Recordings */}
+      {showRecordings && (
+        <RecordingsPanel
+          recordings={recorder.recordings}
+          onRemove={recorder.remove}
+          onClose={() => setShowRecordings(false)}
+          className={showFavorites || showHistory || showSchedules || showRoam || showJourney ? 'left-[26rem]' : 'left-4'}
+        />
+      )}
+
+      {/* Near Me */}
+      {showNearby && (
+        <NearbyPanel
+          origin={nearbyOrigin}
+          radiusKm={nearbyRadiusKm}
+          onRadiusChange={handleNearbyRadiusChange}
+          nearby={nearbyStations}
+          isLocating={isLocating}
+          locateError={locateError}
+          onLocate={handleLocate}
+          isPlacingPin={isPlacingPin}
+          onTogglePlacePin={() => setIsPlacingPin(!isPlacingPin)}
+          onClear={() => {
+            setNearbyOrigin(null);
+            setIsPlacingPin(false);
+          }}
+          currentStation={selectedStation}
+          onSelect={handleStationClick}
+          onClose={() => {
+            setShowNearby(false);
+            setIsPlacingPin(false);
+          }}
+          className={showFavorites || showHistory || showSchedules || showRoam || showJourney || showRecordings ? 'left-[26rem]' : 'left-4'}
+        />
+      )}
+
+      {/* Station Detail Drawer */}
+      {showDetails && selectedStation && (
+        <StationDetails station={selectedStation} onClose={() => setShowDetails(false)} />
+      )}
+
+      {/* Station Filters */}
+      {showFilterPanel && (
+        <FilterPanel
+          stations={searchedStations}
+          filters={stationFilters}
+          onChange={setStationFilters}
+          hideDead={hideDeadStations}
+          deadCount={streamHealth.deadCount}
+          onHideDeadChange={setHideDeadStations}
+          onClose={() => setShowFilterPanel(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import { createAudioEngine, initialPlaybackState } from '../utils/audioEngine';
+import type { AudioEngine, PlayOptions, PlaybackState } from '../utils/audioEngine';
+import { createAudioGraph } from '../utils/audioGraph';
+import type { AudioGraph } from '../utils/audioGraph';
+import { audioSettingsStore, defaultAudioSettings, eqPreset } from '../utils/audioSettings';
+import type { AudioSettings, EqPresetId, VisualizerMode } from '../utils/audioSettings';
+import type { Station } from '../utils/normalizeStations';
+import { proxiedStreamUrl } from '../utils/streamUrl';
+
+// Statuses in which the player counts as on, even if no audio is coming out yet
+const ACTIVE_STATUSES: PlaybackState['status'][] = ['loading', 'buffering', 'playing', 'reconnecting'];
+
+// Plays stations on two <audio> decks so switching can crossfade
+export function useAudioEngine(deckRefs: RefObject<(HTMLAudioElement | null)[]>) {
+  const engineRef = useRef<AudioEngine | null>(null);
+  const graphRef = useRef<AudioGraph | null>(null);
+  const [state, setState] = useState<PlaybackState>(initialPlaybackState);
+  const [settings, setSettings] = useState<AudioSettings>(defaultAudioSettings);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Whether EQ and loudness normalization work in this browser
+  const [processingSupported, setProcessingSupported] = useState(false);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    const decks = deckRefs.current.filter((audio): audio is HTMLAudioElement => audio !== null);
+    if (decks.length === 0) return;
+    const graph = createAudioGraph(decks);
+    const engine = createAudioEngine(decks, {
+      output: graph,
+      // The graph can only process streams served from our own origin; what the proxy
+      // refuses plays on the graph's direct elements instead
+      resolveSourceUrl: graph.supported ? source => proxiedStreamUrl(source.stationuuid, source.url) : source => source.url,
+      directElements: graph.directDecks
+    });
+    graphRef.current = graph;
+    engineRef.current = engine;
+    setProcessingSupported(graph.supported);
+    const unsubscribe = engine.subscribe(setState);
+
+    return () => {
+      unsubscribe();
+      engine.destroy();
+      graph.destroy();
+      engineRef.current = null;
+      graphRef.current = null;
+    };
+  }, [deckRefs]);
+
+  useEffect(() => {
+    setSettings(audioSettingsStore.load());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) audioSettingsStore.save(settings);
+  }, [settings, isLoaded]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === audioSettingsStore.key) setSettings(audioSettingsStore.load());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (!graph) return;
+    graph.setVolume(settings.volume);
+    graph.setMuted(settings.muted);
+    graph.setEq(eqPreset(settings.eqPreset).gains);
+    graph.setNormalize(settings.normalize);
+  }, [settings]);
+
+  const isActive = ACTIVE_STATUSES.includes(state.status);
+
+  const updateSettings = (patch: Partial<AudioSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  return {
+    state,
+    isActive,
+    settings,
+    processingSupported,
+    play: (station: Station, options?: PlayOptions) => {
+      if (station.stationuuid !== engineRef.current?.getState().station?.stationuuid) {
+        graphRef.current?.resetLoudness();
+      }
+      return engineRef.current?.play(station, { crossfadeMs: settingsRef.current.crossfadeMs, ...options });
+    },
+    pause: () => engineRef.current?.pause(),
+    fadeOut: (durationMs: number) => engineRef.current?.fadeOut(durationMs) ?? Promise.resolve(),
+    resume: () => engineRef.current?.resume(),
+    stop: () => engineRef.current?.stop(),
+    // Current rather than as of the last render, for callers that just changed it
+    getState: () => engineRef.current?.getState() ?? initialPlaybackState,
+    toggle: () => {
+      if (isActive) {
+        engineRef.current?.pause();
+      } else {
+        engineRef.current?.resume();
+      }
+    },
+    // Moving the slider also unmutes, like most players
+    setVolume: (volume: number) => updateSettings({ volume: Math.min(Math.max(volume, 0), 1), muted: false }),
+    toggleMute: () => setSettings(prev => ({ ...prev, muted: !prev.muted })),
+    setNormalize: (normalize: boolean) => updateSettings({ normalize }),
+    setEqPreset: (id: EqPresetId) => updateSettings({ eqPreset: id }),
+    setCrossfade: (crossfadeMs: number) => updateSettings({ crossfadeMs }),
+    setVisualizer: (visualizer: VisualizerMode) => updateSettings({ visualizer }),
+    // Null until something has played, or without Web Audio
+    getAnalyser: () => graphRef.current?.getAnalyser() ?? null
+  };
+}
+
+export type PlaybackApi = ReturnType<typeof useAudioEngine>;
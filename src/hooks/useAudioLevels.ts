@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+import type { PlaybackApi } from './useAudioEngine';
+import { SILENT_LEVELS, createLevelMeter, smoothLevels } from '../utils/audioLevels';
+import type { AudioLevels } from '../utils/audioLevels';
+
+// Live levels of whatever is playing, refreshed every animation frame.
+// Kept in a ref rather than state so the globe can read them without re-rendering the page.
+export function useAudioLevels(playback: PlaybackApi) {
+  const levelsRef = useRef<AudioLevels>(SILENT_LEVELS);
+  const playbackRef = useRef(playback);
+  playbackRef.current = playback;
+  const isPlaying = playback.state.status === 'playing';
+
+  useEffect(() => {
+    let frame = 0;
+    let analyser: AnalyserNode | null = null;
+    let meter: ReturnType<typeof createLevelMeter> | null = null;
+
+    const tick = () => {
+      if (isPlaying) {
+        const current = playbackRef.current.getAnalyser();
+        if (current !== analyser) {
+          analyser = current;
+          meter = current ? createLevelMeter(current) : null;
+        }
+      }
+      // Paused or without Web Audio, the levels settle back to silence
+      const next = isPlaying && meter ? meter.read() : smoothLevels(levelsRef.current, SILENT_LEVELS);
+      levelsRef.current = next;
+      if (isPlaying || next.amplitude > 0.001) frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  return levelsRef;
+}
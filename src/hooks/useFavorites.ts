@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as favoritesModel from '../utils/favorites';
+import type { FavoritesState } from '../utils/favorites';
+import type { Station } from '../utils/normalizeStations';
+
+// Favorites state persisted to localStorage
+export function useFavorites() {
+  const [state, setState] = useState<FavoritesState>(favoritesModel.emptyFavorites);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load after mount so the server render and first client render match
+  useEffect(() => {
+    setState(favoritesModel.favoritesStore.load());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) favoritesModel.favoritesStore.save(state);
+  }, [state, isLoaded]);
+
+  // Keep several open tabs in sync
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === favoritesModel.favoritesStore.key) setState(favoritesModel.favoritesStore.load());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const isFavorite = useCallback(
+    (stationuuid: string) => favoritesModel.isFavorite(state, stationuuid),
+    [state]
+  );
+
+  return {
+    ...state,
+    isFavorite,
+    toggleFavorite: (station: Station) => setState(prev => favoritesModel.toggleFavorite(prev, station)),
+    removeFavorite: (stationuuid: string) => setState(prev => favoritesModel.removeFavorite(prev, stationuuid)),
+    renameFavorite: (stationuuid: string, name: string) =>
+      setState(prev => favoritesModel.renameFavorite(prev, stationuuid, name)),
+    moveFavorite: (stationuuid: string, direction: -1 | 1) =>
+      setState(prev => favoritesModel.moveFavorite(prev, stationuuid, direction)),
+    moveToFolder: (stationuuid: string, folderId: string | null) =>
+      setState(prev => favoritesModel.moveFavoriteToFolder(prev, stationuuid, folderId)),
+    addFolder: (name: string) => setState(prev => favoritesModel.addFolder(prev, name)),
+    renameFolder: (folderId: string, name: string) => setState(prev => favoritesModel.renameFolder(prev, folderId, name)),
+    removeFolder: (folderId: string) => setState(prev => favoritesModel.removeFolder(prev, folderId)),
+    mergeFavorites: (imported: FavoritesState) => setState(prev => favoritesModel.mergeFavorites(prev, imported))
+  };
+}
+
+export type FavoritesApi = ReturnType<typeof useFavorites>;
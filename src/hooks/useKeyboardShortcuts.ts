@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { isEditableTarget, isSpaceActivatedTarget, matchShortcut } from '../utils/shortcuts';
+import type { ShortcutAction } from '../utils/shortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// Runs the handler for each shortcut pressed anywhere on the page, except while
+// typing, and except Space while a button or other control has focus
+export function useKeyboardShortcuts(handlers: ShortcutHandlers) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || isEditableTarget(event.target)) return;
+      if (event.key === ' ' && isSpaceActivatedTarget(event.target)) return;
+      const action = matchShortcut(event);
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      // Stops space and the arrows from scrolling the page
+      event.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PlaybackState } from '../utils/audioEngine';
+import { addSession, emptyHistory, historyStore, removeStationHistory } from '../utils/listeningHistory';
+import type { HistoryState } from '../utils/listeningHistory';
+import type { Station } from '../utils/normalizeStations';
+
+interface OpenSession {
+  station: Station;
+  genre: string;
+  startedAt: number;
+  // Set while audio is actually coming out
+  playingSince: number | null;
+  accumulatedMs: number;
+}
+
+// Statuses that end a listening session; buffering and reconnects only pause the clock
+const ENDING_STATUSES: PlaybackState['status'][] = ['paused', 'error', 'idle'];
+
+function closeSession(session: OpenSession, endedAt: number) {
+  return {
+    station: session.station,
+    genre: session.genre,
+    startedAt: session.startedAt,
+    endedAt,
+    durationMs: session.accumulatedMs + (session.playingSince ? endedAt - session.playingSince : 0)
+  };
+}
+
+// Records a session per station played, driven by the audio engine's state
+export function useListeningHistory(playbackState: PlaybackState, genre: string) {
+  const [history, setHistory] = useState<HistoryState>(emptyHistory);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const sessionRef = useRef<OpenSession | null>(null);
+  // The session in progress, for views that show it before it is recorded
+  const [liveSession, setLiveSession] = useState<Pick<OpenSession, 'station' | 'genre' | 'startedAt'> | null>(null);
+  const historyRef = useRef(history);
+  const genreRef = useRef(genre);
+  historyRef.current = history;
+  genreRef.current = genre;
+
+  useEffect(() => {
+    setHistory(historyStore.load());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) historyStore.save(history);
+  }, [history, isLoaded]);
+
+  const { status, station } = playbackState;
+
+  useEffect(() => {
+    const now = Date.now();
+    const session = sessionRef.current;
+
+    if (session && (station?.stationuuid !== session.station.stationuuid || ENDING_STATUSES.includes(status))) {
+      sessionRef.current = null;
+      setLiveSession(null);
+      setHistory(prev => addSession(prev, closeSession(session, now)));
+    }
+
+    const current = sessionRef.current;
+    if (status === 'playing' && station) {
+      if (!current) {
+        sessionRef.current = { station, genre: genreRef.current, startedAt: now, playingSince: now, accumulatedMs: 0 };
+        setLiveSession({ station, genre: genreRef.current, startedAt: now });
+      } else if (current.playingSince === null) {
+        current.playingSince = now;
+      }
+    } else if (current?.playingSince) {
+      current.accumulatedMs += now - current.playingSince;
+      current.playingSince = null;
+    }
+  }, [status, station]);
+
+  // Closing the tab ends the session; save synchronously since React won't get another render
+  useEffect(() => {
+    const handlePageHide = () => {
+      const session = sessionRef.current;
+      if (!session) return;
+      sessionRef.current = null;
+      historyStore.save(addSession(historyRef.current, closeSession(session, Date.now())));
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
+  return {
+    sessions: history.sessions,
+    liveSession,
+    clearHistory: () => setHistory(emptyHistory()),
+    removeStation: (stationuuid: string) => setHistory(prev => removeStationHistory(prev, stationuuid))
+  };
+}
+
+export type ListeningHistoryApi = ReturnType<typeof useListeningHistory>;
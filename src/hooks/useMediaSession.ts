@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+import type { PlaybackState } from '../utils/audioEngine';
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  nextFavorite: () => void;
+  previousFavorite: () => void;
+  random: () => void;
+}
+
+function sessionPlaybackState({ status }: PlaybackState): MediaSessionPlaybackState {
+  if (status === 'paused') return 'paused';
+  if (status === 'idle' || status === 'error') return 'none';
+  return 'playing';
+}
+
+// Browsers throw for actions they don't support
+function setActionHandler(action: MediaSessionAction, handler: MediaSessionActionHandler | null) {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Leave the OS default
+  }
+}
+
+// Shows the station on the lock screen and in the OS media controls, and lets
+// hardware media keys control playback
+export function useMediaSession(state: PlaybackState, handlers: MediaSessionHandlers) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const { station } = state;
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.metadata = station
+      ? new MediaMetadata({
+          title: station.name,
+          artist: [station.state, station.country].filter(Boolean).join(', '),
+          album: 'RoamFM',
+          artwork: station.favicon ? [{ src: station.favicon }] : []
+        })
+      : null;
+  }, [station]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.playbackState = sessionPlaybackState(state);
+  }, [state]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    const actions: [MediaSessionAction, () => void][] = [
+      ['play', () => handlersRef.current.play()],
+      ['pause', () => handlersRef.current.pause()],
+      ['stop', () => handlersRef.current.pause()],
+      ['nexttrack', () => handlersRef.current.nextFavorite()],
+      ['previoustrack', () => handlersRef.current.previousFavorite()],
+      // Live streams can't seek, so the skip-forward button is free for a random station
+      ['seekforward', () => handlersRef.current.random()]
+    ];
+    actions.forEach(([action, handler]) => setActionHandler(action, handler));
+    return () => actions.forEach(([action]) => setActionHandler(action, null));
+  }, []);
+}
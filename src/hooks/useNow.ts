@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+
+// Re-renders every second while mounted, for countdowns
+export function useNow() {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+  return now;
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import type { NowPlaying } from '../utils/icyMetadata';
+
+export type NowPlayingStatus = 'idle' | 'connecting' | 'live' | 'unavailable';
+
+// Subscribes to /api/now-playing for the stream that is currently playing;
+// the server only reads streams of the station they're listed under
+export function useNowPlaying(stationuuid: string | null, streamUrl: string | null) {
+  const [nowPlaying, setNowPlaying] = useState<NowPlaying | null>(null);
+  const [status, setStatus] = useState<NowPlayingStatus>('idle');
+
+  useEffect(() => {
+    setNowPlaying(null);
+    if (!stationuuid || !streamUrl) {
+      setStatus('idle');
+      return;
+    }
+
+    setStatus('connecting');
+    const params = new URLSearchParams({ station: stationuuid, url: streamUrl });
+    const source = new EventSource(`/api/now-playing?${params}`);
+    source.addEventListener('station', () => setStatus('live'));
+    source.addEventListener('metadata', (event) => {
+      setNowPlaying(JSON.parse((event as MessageEvent<string>).data));
+      setStatus('live');
+    });
+    // Without this EventSource would keep reconnecting to a stream that has no metadata
+    source.addEventListener('unavailable', () => {
+      setStatus('unavailable');
+      source.close();
+    });
+    // Refused (unknown station, too many connections) rather than dropped, so it won't reconnect
+    source.addEventListener('error', () => {
+      if (source.readyState === EventSource.CLOSED) setStatus('unavailable');
+    });
+
+    return () => source.close();
+  }, [stationuuid, streamUrl]);
+
+  return { nowPlaying, status };
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { normalizeTag, pinnedTagsStore } from '../utils/tags';
+
+// Custom tags the user pinned next to the built-in genres
+export function usePinnedTags() {
+  const [pinned, setPinned] = useState<string[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    setPinned(pinnedTagsStore.load());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) pinnedTagsStore.save(pinned);
+  }, [pinned, isLoaded]);
+
+  return {
+    pinned,
+    pin: (tag: string) => {
+      const normalized = normalizeTag(tag);
+      if (normalized) setPinned(prev => (prev.includes(normalized) ? prev : [...prev, normalized]));
+    },
+    unpin: (tag: string) => setPinned(prev => prev.filter(existing => existing !== tag))
+  };
+}
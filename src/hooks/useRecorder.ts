@@ -0,0 +1,191 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PlaybackState } from '../utils/audioEngine';
+import type { NowPlaying } from '../utils/icyMetadata';
+import type { Station } from '../utils/normalizeStations';
+import { createId } from '../utils/persistentStore';
+import {
+  BUFFER_UNSUPPORTED_MESSAGE,
+  canBuffer,
+  canRecord,
+  createStreamRecorder,
+  recordingFilename
+} from '../utils/recorder';
+import type { Recording, StreamRecorder } from '../utils/recorder';
+
+export interface ActiveRecording {
+  // 'buffering' keeps the last `bufferMs` of audio until it's saved
+  mode: 'recording' | 'buffering';
+  station: Station;
+  sourceUrl: string;
+  track: NowPlaying | null;
+  bufferMs: number | null;
+  startedAt: number;
+  bytes: number;
+}
+
+// How often the size and length shown in the player refresh
+const PROGRESS_INTERVAL_MS = 1000;
+
+// Records the station that's playing. Recordings are held in memory for the session.
+export function useRecorder(state: PlaybackState, nowPlaying: NowPlaying | null) {
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [active, setActive] = useState<ActiveRecording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<StreamRecorder | null>(null);
+  const activeRef = useRef(active);
+  const playbackRef = useRef(state);
+  playbackRef.current = state;
+  const nowPlayingRef = useRef(nowPlaying);
+  nowPlayingRef.current = nowPlaying;
+  // Length of a buffer to start again once the next station plays
+  const pendingBufferRef = useRef<number | null>(null);
+
+  const updateActive = (next: ActiveRecording | null) => {
+    activeRef.current = next;
+    setActive(next);
+  };
+
+  const keep = (blob: Blob, recording: ActiveRecording, track: NowPlaying | null, startedAt: number) => {
+    if (blob.size === 0) return;
+    const saved: Recording = {
+      id: createId(),
+      station: recording.station,
+      track,
+      filename: recordingFilename(recording.station, track, startedAt, blob.type),
+      blob,
+      startedAt,
+      durationMs: Date.now() - startedAt
+    };
+    setRecordings(prev => [saved, ...prev]);
+  };
+
+  const begin = (mode: ActiveRecording['mode'], bufferMs: number | null) => {
+    const { station, sourceUrl } = playbackRef.current;
+    pendingBufferRef.current = null;
+    if (!station || !sourceUrl || !canRecord(station, sourceUrl)) return;
+    if (mode === 'buffering' && !canBuffer(station, sourceUrl)) {
+      setError(BUFFER_UNSUPPORTED_MESSAGE);
+      return;
+    }
+    recorderRef.current?.stop();
+    setError(null);
+
+    const recording: ActiveRecording = {
+      mode,
+      station,
+      sourceUrl,
+      track: nowPlayingRef.current,
+      bufferMs,
+      startedAt: Date.now(),
+      bytes: 0
+    };
+    const recorder = createStreamRecorder(station, sourceUrl, {
+      bufferMs: bufferMs ?? undefined,
+      // Keep whatever made it before the connection dropped
+      onError: (cause) => {
+        if (recorderRef.current !== recorder) return;
+        console.error('Recording stopped:', cause);
+        setError(
+          cause.message === BUFFER_UNSUPPORTED_MESSAGE ? cause.message : 'Recording stopped: the stream could not be read'
+        );
+        if (mode === 'recording') keep(recorder.snapshot(), recording, activeRef.current?.track ?? null, recorder.startedAt);
+        recorderRef.current = null;
+        updateActive(null);
+      },
+      onLimit: (blob) => {
+        if (recorderRef.current !== recorder) return;
+        keep(blob, recording, activeRef.current?.track ?? null, recorder.startedAt);
+        setError('Recording stopped at the size limit');
+        recorderRef.current = null;
+        updateActive(null);
+      }
+    });
+    recorderRef.current = recorder;
+    updateActive(recording);
+  };
+
+  const stop = () => {
+    const recorder = recorderRef.current;
+    const recording = activeRef.current;
+    recorderRef.current = null;
+    updateActive(null);
+    if (!recorder || !recording) return;
+    const blob = recorder.stop();
+    // A rolling buffer that was never saved is just dropped
+    if (recording.mode === 'recording') keep(blob, recording, recording.track, recorder.startedAt);
+  };
+
+  // Saves the buffered audio and carries on buffering
+  const saveBuffer = () => {
+    const recorder = recorderRef.current;
+    const recording = activeRef.current;
+    if (!recorder || recording?.mode !== 'buffering') return;
+    keep(recorder.snapshot(), recording, nowPlayingRef.current, recorder.startedAt);
+  };
+
+  // The first track heard names the file, for recordings started before the metadata arrived
+  useEffect(() => {
+    const recording = activeRef.current;
+    if (recording && !recording.track && nowPlaying) updateActive({ ...recording, track: nowPlaying });
+  }, [nowPlaying]);
+
+  const isActive = active !== null;
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(() => {
+      const recorder = recorderRef.current;
+      const recording = activeRef.current;
+      if (recorder && recording) {
+        updateActive({ ...recording, bytes: recorder.bytes, startedAt: recorder.startedAt });
+      }
+    }, PROGRESS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  // Recordings belong to one station: switching ends a recording, and moves a buffer to the new station
+  // once it starts playing
+  const followPlayback = () => {
+    const { station, status } = playbackRef.current;
+    const recording = activeRef.current;
+    if (status === 'idle') {
+      pendingBufferRef.current = null;
+      stop();
+      return;
+    }
+    if (recording && station?.stationuuid !== recording.station.stationuuid) {
+      stop();
+      if (recording.mode === 'buffering') pendingBufferRef.current = recording.bufferMs;
+    }
+    if (!activeRef.current && pendingBufferRef.current !== null && status === 'playing') {
+      begin('buffering', pendingBufferRef.current);
+    }
+  };
+
+  const followPlaybackRef = useRef(followPlayback);
+  followPlaybackRef.current = followPlayback;
+  const stationuuid = state.station?.stationuuid;
+
+  useEffect(() => {
+    followPlaybackRef.current();
+  }, [stationuuid, state.status]);
+
+  useEffect(() => () => {
+    recorderRef.current?.stop();
+  }, []);
+
+  return {
+    recordings,
+    active,
+    error,
+    canRecord: canRecord(state.station, state.sourceUrl),
+    canBuffer: canBuffer(state.station, state.sourceUrl),
+    start: () => begin('recording', null),
+    startBuffer: (bufferMs: number) => begin('buffering', bufferMs),
+    stop,
+    saveBuffer,
+    remove: (id: string) => setRecordings(prev => prev.filter(recording => recording.id !== id)),
+    clearError: () => setError(null)
+  };
+}
+
+export type RecorderApi = ReturnType<typeof useRecorder>;
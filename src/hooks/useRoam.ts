@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PlaybackState } from '../utils/audioEngine';
+import type { Station } from '../utils/normalizeStations';
+import * as roamModel from '../utils/roam';
+import type { RoamRoute, RoamRoutesState, RoamRule, RoamTour } from '../utils/roam';
+
+interface RoamSession {
+  tour: RoamTour;
+  // Set while replaying a saved route instead of picking stops by rule
+  route: RoamRoute | null;
+  active: boolean;
+  // When the next hop happens
+  nextAt: number | null;
+  // Left of the current stop while the user has playback paused, which holds the countdown
+  remainingMs: number | null;
+  // Why the tour stopped by itself
+  endedReason: string | null;
+}
+
+// Stations that fail to play are skipped after this instead of waiting out the dwell time
+const ERROR_SKIP_MS = 3000;
+
+// Runs roam mode: moves on to a new station every `dwellMs`, by rule or along a saved route.
+// Pausing holds the tour; stopping, or playing a station that isn't on it, ends it.
+export function useRoam(
+  stations: Station[],
+  playbackState: PlaybackState,
+  onVisit: (station: Station) => void
+) {
+  const { status: playbackStatus } = playbackState;
+  const playingUuid = playbackState.station?.stationuuid ?? null;
+  const [session, setSession] = useState<RoamSession | null>(null);
+  const [routes, setRoutes] = useState<RoamRoutesState>(roamModel.emptyRoamRoutes);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const sessionRef = useRef(session);
+  const stationsRef = useRef(stations);
+  const onVisitRef = useRef(onVisit);
+  stationsRef.current = stations;
+  onVisitRef.current = onVisit;
+
+  useEffect(() => {
+    setRoutes(roamModel.roamRoutesStore.load());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) roamModel.roamRoutesStore.save(routes);
+  }, [routes, isLoaded]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === roamModel.roamRoutesStore.key) setRoutes(roamModel.roamRoutesStore.load());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // The ref changes right away so a skip straight after a hop sees the new stop
+  const updateSession = (next: RoamSession | null) => {
+    sessionRef.current = next;
+    setSession(next);
+  };
+
+  const visit = (station: Station) => onVisitRef.current(station);
+
+  const hop = () => {
+    const current = sessionRef.current;
+    if (!current?.active) return;
+    const { tour, route } = current;
+    let next: { tour: RoamTour; station: Station } | null;
+    if (route) {
+      const station = route.stops[tour.stops.length];
+      next = station ? { tour: { ...tour, stops: [...tour.stops, station] }, station } : null;
+    } else {
+      next = roamModel.nextStop(tour, stationsRef.current);
+    }
+
+    if (!next) {
+      updateSession({
+        ...current,
+        active: false,
+        nextAt: null,
+        remainingMs: null,
+        endedReason: route ? 'Reached the end of the route' : 'No more stations for this rule'
+      });
+      return;
+    }
+    updateSession({ ...current, tour: next.tour, nextAt: Date.now() + tour.dwellMs, remainingMs: null });
+    visit(next.station);
+  };
+
+  const hopRef = useRef(hop);
+  hopRef.current = hop;
+  const nextAt = session?.active ? session.nextAt : null;
+
+  useEffect(() => {
+    if (nextAt === null) return;
+    const timer = setTimeout(() => hopRef.current(), Math.max(nextAt - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [nextAt]);
+
+  // A dead stream doesn't hold the tour up, and the countdown waits while the user has paused
+  useEffect(() => {
+    const current = sessionRef.current;
+    if (!current?.active) return;
+    if (playbackStatus === 'idle') {
+      updateSession({ ...current, active: false, nextAt: null, remainingMs: null });
+    } else if (playbackStatus === 'paused' && current.nextAt !== null) {
+      updateSession({ ...current, nextAt: null, remainingMs: Math.max(current.nextAt - Date.now(), 0) });
+    } else if (playbackStatus === 'playing' && current.remainingMs !== null) {
+      updateSession({ ...current, nextAt: Date.now() + current.remainingMs, remainingMs: null });
+    } else if (playbackStatus === 'error' && current.nextAt !== null && current.nextAt > Date.now() + ERROR_SKIP_MS) {
+      updateSession({ ...current, nextAt: Date.now() + ERROR_SKIP_MS });
+    }
+  }, [playbackStatus]);
+
+  // Picking a station off the tour (a click, a random station, an alarm) ends it
+  useEffect(() => {
+    const current = sessionRef.current;
+    if (!current?.active || !playingUuid) return;
+    const stop = current.tour.stops[current.tour.stops.length - 1];
+    if (stop?.stationuuid !== playingUuid) {
+      updateSession({ ...current, active: false, nextAt: null, remainingMs: null });
+    }
+  }, [playingUuid]);
+
+  return {
+    session,
+    routes: routes.routes,
+    // Starts from `from`, or a random station when nothing is selected
+    start: (rule: RoamRule, dwellMs: number, from: Station | null) => {
+      const first = from ?? stationsRef.current[Math.floor(Math.random() * stationsRef.current.length)];
+      if (!first) return;
+      if (first !== from) visit(first);
+      updateSession({
+        tour: roamModel.startTour(first, rule, dwellMs),
+        route: null,
+        active: true,
+        nextAt: Date.now() + dwellMs,
+        remainingMs: null,
+        endedReason: null
+      });
+    },
+    replay: (route: RoamRoute) => {
+      const [first] = route.stops;
+      if (!first) return;
+      visit(first);
+      updateSession({
+        tour: roamModel.startTour(first, route.rule, route.dwellMs),
+        route,
+        active: true,
+        nextAt: Date.now() + route.dwellMs,
+        remainingMs: null,
+        endedReason: null
+      });
+    },
+    skip: hop,
+    stop: () => {
+      const current = sessionRef.current;
+      if (current) updateSession({ ...current, active: false, nextAt: null, remainingMs: null });
+    },
+    // Restarts the countdown for the current stop, still held if playback is paused
+    setDwell: (dwellMs: number) => {
+      const current = sessionRef.current;
+      if (!current) return;
+      const isHeld = current.remainingMs !== null;
+      updateSession({
+        ...current,
+        tour: { ...current.tour, dwellMs },
+        nextAt: current.active && !isHeld ? Date.now() + dwellMs : null,
+        remainingMs: isHeld ? dwellMs : null
+      });
+    },
+    saveTour: (name: string) => {
+      const current = sessionRef.current;
+      if (current && current.tour.stops.length > 1) {
+        setRoutes(prev => roamModel.saveRoute(prev, current.tour, name));
+      }
+    },
+    removeRoute: (id: string) => setRoutes(prev => roamModel.removeRoute(prev, id)),
+    clear: () => updateSession(null)
+  };
+}
+
+export type RoamApi = ReturnType<typeof useRoam>;
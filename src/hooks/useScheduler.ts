@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PlaybackApi } from './useAudioEngine';
+import type { PlayOptions } from '../utils/audioEngine';
+import type { Station } from '../utils/normalizeStations';
+import * as schedulesModel from '../utils/schedules';
+import type { NewSchedule, Schedule, SchedulesState, SleepTimer } from '../utils/schedules';
+
+const CHECK_INTERVAL_MS = 1000;
+// Alarms that went off while the page was reloading still start
+const MISSED_GRACE_MS = 60 * 1000;
+
+// Runs the sleep timer and fires alarms and schedules while the page is open.
+// Alarms start their station through `playStation`, so the page can select it like a click would.
+export function useScheduler(
+  playback: PlaybackApi,
+  playStation: (station: Station, options: PlayOptions) => Promise<void> | undefined
+) {
+  const [state, setState] = useState<SchedulesState>(schedulesModel.emptySchedules);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+  // Alarm the browser wouldn't let start without a click, until something plays
+  const [blockedAlarm, setBlockedAlarm] = useState<Schedule | null>(null);
+  const playbackRef = useRef(playback);
+  const playStationRef = useRef(playStation);
+  playStationRef.current = playStation;
+  const stateRef = useRef(state);
+  const sleepTimerRef = useRef(sleepTimer);
+  const isFadingRef = useRef(false);
+  playbackRef.current = playback;
+  stateRef.current = state;
+
+  // The ref changes right away so a fade finishing in between sees the new timer
+  const updateSleepTimer = (timer: SleepTimer | null) => {
+    sleepTimerRef.current = timer;
+    setSleepTimer(timer);
+  };
+
+  useEffect(() => {
+    setState(schedulesModel.schedulesStore.load());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) schedulesModel.schedulesStore.save(state);
+  }, [state, isLoaded]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === schedulesModel.schedulesStore.key) setState(schedulesModel.schedulesStore.load());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    let lastCheck = Date.now() - MISSED_GRACE_MS;
+
+    const check = () => {
+      const now = Date.now();
+
+      const timer = sleepTimerRef.current;
+      if (timer && !isFadingRef.current && now >= timer.endsAt - timer.fadeMs) {
+        isFadingRef.current = true;
+        const current = playbackRef.current;
+        const fade = current.isActive ? current.fadeOut(Math.max(timer.endsAt - now, 0)) : Promise.resolve();
+        fade.then(() => {
+          // Cancelled while fading, the fade was already interrupted by whatever replaced it
+          if (sleepTimerRef.current === timer) {
+            playbackRef.current.pause();
+            updateSleepTimer(null);
+          }
+          isFadingRef.current = false;
+        });
+      }
+
+      // Several schedules at the same minute: the last one wins the player
+      const due = schedulesModel.dueSchedules(stateRef.current, lastCheck, now);
+      if (due.length > 0) {
+        const schedule = due[due.length - 1];
+        // An alarm beats a sleep timer that is fading out
+        if (isFadingRef.current) updateSleepTimer(null);
+        Promise.resolve(playStationRef.current(schedule.station, { fadeInMs: schedule.fadeInMs })).then(() => {
+          // Autoplay policy: the engine leaves a station it wasn't allowed to start paused
+          const { status, station } = playbackRef.current.getState();
+          if (status === 'paused' && station?.stationuuid === schedule.station.stationuuid) setBlockedAlarm(schedule);
+        });
+        setState(prev => due.reduce((next, fired) => schedulesModel.markFired(next, fired.id, now), prev));
+      }
+      lastCheck = now;
+    };
+
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    check();
+    return () => clearInterval(interval);
+  }, [isLoaded]);
+
+  useEffect(() => {
+    if (playback.isActive) setBlockedAlarm(null);
+  }, [playback.isActive]);
+
+  return {
+    ...state,
+    sleepTimer,
+    blockedAlarm,
+    startSleepTimer: (durationMs: number, fadeMs: number) =>
+      updateSleepTimer({ endsAt: Date.now() + durationMs, fadeMs: Math.min(fadeMs, durationMs) }),
+    cancelSleepTimer: () => {
+      updateSleepTimer(null);
+      // Undo a fade that is already running
+      if (isFadingRef.current && playbackRef.current.state.station) {
+        playbackRef.current.resume();
+      }
+    },
+    addSchedule: (schedule: NewSchedule) => setState(prev => schedulesModel.addSchedule(prev, schedule)),
+    setEnabled: (id: string, enabled: boolean) =>
+      setState(prev => schedulesModel.setScheduleEnabled(prev, id, enabled)),
+    removeSchedule: (id: string) => setState(prev => schedulesModel.removeSchedule(prev, id))
+  };
+}
+
+export type SchedulerApi = ReturnType<typeof useScheduler>;
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Station } from '../utils/normalizeStations';
+import { MAX_HEALTH_STATIONS, fetchStreamHealth } from '../utils/stationsApi';
+import type { StreamProbe } from '../utils/streamProbe';
+
+export type StationHealth = 'ok' | 'dead' | 'unknown';
+
+// Has the server check the streams of `wanted` stations (those in view, hovered
+// or selected), a batch at a time, and keeps the results for the session.
+// Counts are over all loaded `stations`.
+export function useStreamHealth(stations: Station[], wanted: Station[]) {
+  // Keyed by stationuuid
+  const [probes, setProbes] = useState<Map<string, StreamProbe>>(() => new Map());
+  // Asked for already, whether or not the answer is in
+  const requestedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const pending = Array.from(new Set(wanted.map(station => station.stationuuid)))
+      .filter(uuid => !requestedRef.current.has(uuid));
+    if (pending.length === 0) return;
+    pending.forEach(uuid => requestedRef.current.add(uuid));
+
+    // Not cancelled when `wanted` changes, panning on shouldn't throw away checks already running
+    const run = async () => {
+      for (let start = 0; start < pending.length; start += MAX_HEALTH_STATIONS) {
+        const batch = pending.slice(start, start + MAX_HEALTH_STATIONS);
+        try {
+          const { results } = await fetchStreamHealth(batch);
+          setProbes(prev => new Map([...prev, ...Object.entries(results)]));
+        } catch (error) {
+          // This batch and the rest are asked for again the next time they're wanted, e.g. after a rate limit
+          pending.slice(start).forEach(uuid => requestedRef.current.delete(uuid));
+          throw error;
+        }
+      }
+    };
+
+    run().catch(error => console.error('Error checking stream health:', error));
+  }, [wanted]);
+
+  const deadCount = useMemo(
+    () => stations.filter(station => probes.get(station.stationuuid)?.status === 'dead').length,
+    [stations, probes]
+  );
+
+  // Stable between results, so lists filtered on it don't recompute every render
+  const probeOf = useCallback((station: Station) => probes.get(station.stationuuid) ?? null, [probes]);
+  const statusOf = useCallback(
+    (station: Station): StationHealth => probes.get(station.stationuuid)?.status ?? 'unknown',
+    [probes]
+  );
+
+  return {
+    deadCount,
+    checkedCount: probes.size,
+    probeOf,
+    statusOf
+  };
+}
+
+export type StreamHealthApi = ReturnType<typeof useStreamHealth>;
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { serializeViewState } from '../utils/urlState';
+import type { ViewState } from '../utils/urlState';
+
+// Browsers rate-limit history updates, and the camera moves every frame while rotating
+const WRITE_INTERVAL_MS = 1000;
+
+// Returns a throttled function that mirrors the view into the address bar without adding history entries
+export function useUrlStateWriter(getView: () => ViewState) {
+  const getViewRef = useRef(getView);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  getViewRef.current = getView;
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+  }, []);
+
+  return useCallback(() => {
+    if (timerRef.current) return;
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      const query = serializeViewState(getViewRef.current());
+      const url = `${window.location.pathname}${query ? `?${query}` : ''}`;
+      if (url !== `${window.location.pathname}${window.location.search}`) {
+        window.history.replaceState(window.history.state, '', url);
+      }
+    }, WRITE_INTERVAL_MS);
+  }, []);
+}
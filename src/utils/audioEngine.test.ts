@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createAudioEngine } from './audioEngine'
+import type { AudioEngineOptions } from './audioEngine'
+import type { Station } from './normalizeStations'
+
+// Just enough of an <audio> element for the engine, with play() outcomes set per test
+class FakeAudio extends EventTarget {
+  src = ''
+  crossOrigin: string | null = null
+  currentTime = 0
+  volume = 1
+  muted = false
+  // What the next play() calls do: start playing, fail to load, be blocked, or never settle
+  outcome: 'play' | 'fail' | 'blocked' | 'hang' = 'play'
+  // Date.now() of every play() call
+  plays: number[] = []
+
+  canPlayType() {
+    return 'maybe'
+  }
+
+  load() {}
+
+  pause() {}
+
+  removeAttribute(name: string) {
+    if (name === 'src') this.src = ''
+  }
+
+  play() {
+    this.plays.push(Date.now())
+    switch (this.outcome) {
+      case 'fail':
+        return Promise.reject(new DOMException('Failed to load', 'NotSupportedError'))
+      case 'blocked':
+        return Promise.reject(new DOMException('Not allowed', 'NotAllowedError'))
+      case 'hang':
+        return new Promise<void>(() => {})
+      default:
+        queueMicrotask(() => this.emit('playing'))
+        return Promise.resolve()
+    }
+  }
+
+  emit(type: string) {
+    this.dispatchEvent(new Event(type))
+  }
+}
+
+const station = {
+  stationuuid: '96062a7b-0601-11e8-ae97-52543be04c81',
+  name: 'Test FM',
+  url: 'https://stream.example/live',
+  url_resolved: 'https://stream.example/live',
+  hls: 0,
+  codec: 'MP3'
+} as Station
+
+function setup(options: AudioEngineOptions = {}) {
+  const audio = new FakeAudio()
+  const engine = createAudioEngine(audio as unknown as HTMLAudioElement, {
+    stallTimeoutMs: 10000,
+    baseBackoffMs: 1000,
+    maxBackoffMs: 30000,
+    maxReconnectAttempts: 3,
+    ...options
+  })
+  return { audio, engine }
+}
+
+// Plays `station` and lets the 'playing' event arrive
+async function startPlaying(options?: AudioEngineOptions) {
+  const context = setup(options)
+  await context.engine.play(station)
+  expect(context.engine.getState().status).toBe('playing')
+  return context
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('stall detection', () => {
+  it('keeps playing through `stalled`, which browsers fire while playback is fine', async () => {
+    const { audio, engine } = await startPlaying()
+
+    audio.emit('stalled')
+    await vi.advanceTimersByTimeAsync(60000)
+
+    expect(engine.getState().status).toBe('playing')
+    expect(audio.plays).toHaveLength(1)
+  })
+
+  it('stops waiting for the stall timeout once playback moves on', async () => {
+    const { audio, engine } = await startPlaying()
+
+    audio.emit('waiting')
+    expect(engine.getState().status).toBe('buffering')
+    // A timeupdate without progress doesn't count
+    audio.emit('timeupdate')
+    expect(engine.getState().status).toBe('buffering')
+
+    audio.currentTime += 1
+    audio.emit('timeupdate')
+    expect(engine.getState().status).toBe('playing')
+    await vi.advanceTimersByTimeAsync(60000)
+    expect(audio.plays).toHaveLength(1)
+  })
+
+  it('reconnects when the stream waits for longer than the stall timeout', async () => {
+    const { audio, engine } = await startPlaying()
+
+    audio.emit('waiting')
+    await vi.advanceTimersByTimeAsync(9999)
+    expect(engine.getState().status).toBe('buffering')
+    await vi.advanceTimersByTimeAsync(1)
+    expect(engine.getState()).toMatchObject({ status: 'reconnecting', reconnectAttempt: 1 })
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(audio.plays).toHaveLength(2)
+    expect(engine.getState()).toMatchObject({ status: 'playing', reconnectAttempt: 0 })
+  })
+})
+
+describe('reconnecting', () => {
+  it('backs off exponentially and gives up after the last attempt', async () => {
+    const { audio, engine } = await startPlaying()
+    const droppedAt = Date.now()
+    audio.outcome = 'fail'
+
+    audio.emit('error')
+    await vi.advanceTimersByTimeAsync(60000)
+
+    expect(audio.plays.slice(1).map(time => time - droppedAt)).toEqual([1000, 1000 + 2000, 1000 + 2000 + 4000])
+    expect(engine.getState()).toMatchObject({ status: 'error', error: 'Lost connection (stream error)' })
+  })
+
+  it('caps the backoff', async () => {
+    const { audio } = await startPlaying({ maxBackoffMs: 1500, maxReconnectAttempts: 4 })
+    const droppedAt = Date.now()
+    audio.outcome = 'fail'
+
+    audio.emit('ended')
+    await vi.advanceTimersByTimeAsync(60000)
+
+    expect(audio.plays.slice(1).map(time => time - droppedAt)).toEqual([1000, 2500, 4000, 5500])
+  })
+
+  it('does not reconnect while paused', async () => {
+    const { audio, engine } = await startPlaying()
+
+    engine.pause()
+    audio.emit('waiting')
+    audio.emit('error')
+    await vi.advanceTimersByTimeAsync(60000)
+
+    expect(engine.getState().status).toBe('paused')
+    expect(audio.plays).toHaveLength(1)
+  })
+})
+
+describe('starting playback', () => {
+  it('gives up on a stream that never starts', async () => {
+    const { audio, engine } = setup({ loadTimeoutMs: 5000 })
+    audio.outcome = 'hang'
+
+    const playing = engine.play(station)
+    await vi.advanceTimersByTimeAsync(5000)
+    await playing
+
+    expect(engine.getState()).toMatchObject({
+      status: 'error',
+      error: 'Stream unavailable: Timed out waiting for the stream'
+    })
+  })
+
+  it('pauses instead of failing when the browser blocks autoplay', async () => {
+    const { audio, engine } = setup()
+    audio.outcome = 'blocked'
+
+    await engine.play(station)
+
+    expect(engine.getState()).toMatchObject({ status: 'paused', error: expect.stringMatching(/blocked/) })
+  })
+})
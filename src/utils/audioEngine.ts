@@ -0,0 +1,540 @@
+import type Hls from 'hls.js'
+import type { Station } from './normalizeStations'
+
+// Playback of live radio streams on <audio> elements: source selection,
+// HLS, reconnecting when a stream stalls or drops, and crossfades between
+// two elements ("decks") when switching stations
+
+export type PlaybackStatus =
+  | 'idle'
+  | 'loading'
+  | 'buffering'
+  | 'playing'
+  | 'paused'
+  | 'reconnecting'
+  | 'error'
+
+export interface PlaybackState {
+  status: PlaybackStatus
+  station: Station | null
+  // Station stream URL currently playing, before any proxying
+  sourceUrl: string | null
+  error: string | null
+  reconnectAttempt: number
+  // Playing on a deck's direct element, without the processing `output` (EQ, normalization)
+  bypassed: boolean
+}
+
+export interface AudioEngineOptions {
+  // Give up on a source if playback hasn't started by then
+  loadTimeoutMs?: number
+  // Reconnect if the stream has been waiting for data this long
+  stallTimeoutMs?: number
+  maxReconnectAttempts?: number
+  baseBackoffMs?: number
+  maxBackoffMs?: number
+  output?: AudioOutput
+  // URL to load for a source, e.g. to route it through a proxy
+  resolveSourceUrl?: (source: StreamSource) => string
+  // One element per deck outside the processing `output`, which must still set their volume.
+  // Sources that fail through `resolveSourceUrl` are retried on them at their own URL, and
+  // native HLS, which can't be proxied, always plays on them.
+  directElements?: HTMLAudioElement[]
+}
+
+// Where the decks' sound goes. The default sets element volumes; the Web Audio graph ramps gain nodes instead.
+export interface AudioOutput {
+  // Called at the start of every play, from the user's click where there is one
+  prepare?(): void
+  // Gain on top of the volume for fades and crossfades, 0 to 1, ramped linearly
+  setDeckGain(deck: number, gain: number, rampMs: number): void
+}
+
+export interface PlayOptions {
+  // Start silent and ramp up to full volume once the stream plays
+  fadeInMs?: number
+  // Keep the previous station playing until the new one starts, then fade between them
+  crossfadeMs?: number
+}
+
+export interface AudioEngine {
+  play(station: Station, options?: PlayOptions): Promise<void>
+  pause(): void
+  // Ramps the volume down to silence; resolves when done or when another fade or play takes over
+  fadeOut(durationMs: number): Promise<void>
+  resume(): Promise<void>
+  stop(): void
+  getState(): PlaybackState
+  subscribe(listener: (state: PlaybackState) => void): () => void
+  destroy(): void
+}
+
+export interface StreamSource {
+  stationuuid: string
+  url: string
+  hls: boolean
+}
+
+interface Deck {
+  index: number
+  // Routed through `output`, and the same element as `direct` without direct elements
+  processed: HTMLAudioElement
+  direct: HTMLAudioElement
+  // Whichever of the two is loaded
+  audio: HTMLAudioElement
+  hls: Hls | null
+}
+
+export const initialPlaybackState: PlaybackState = {
+  status: 'idle',
+  station: null,
+  sourceUrl: null,
+  error: null,
+  reconnectAttempt: 0,
+  bypassed: false
+}
+
+// MIME types to probe with canPlayType for the codec names Radio Browser reports
+const CODEC_MIME_TYPES: Record<string, string[]> = {
+  MP3: ['audio/mpeg'],
+  AAC: ['audio/aac', 'audio/mp4; codecs="mp4a.40.2"'],
+  'AAC+': ['audio/aac', 'audio/mp4; codecs="mp4a.40.5"'],
+  OGG: ['audio/ogg; codecs="vorbis"', 'audio/ogg'],
+  OPUS: ['audio/ogg; codecs="opus"', 'audio/webm; codecs="opus"'],
+  FLAC: ['audio/flac']
+}
+
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl'
+
+const FADE_STEP_MS = 50
+
+export function isHlsUrl(url: string) {
+  return /\.m3u8($|\?)/i.test(url)
+}
+
+// null when the codec is unknown and the browser has to sniff the stream itself
+export function canPlayCodec(audio: HTMLAudioElement, codec: string): boolean | null {
+  const types = CODEC_MIME_TYPES[codec.trim().toUpperCase()]
+  if (!types) return null
+  return types.some(type => audio.canPlayType(type) !== '')
+}
+
+// Radio Browser's resolved URL first, then the URL the station submitted
+export function streamSources(station: Station): StreamSource[] {
+  const urls = Array.from(new Set([station.url_resolved, station.url].filter(Boolean)))
+  return urls.map(url => ({ stationuuid: station.stationuuid, url, hls: station.hls === 1 || isHlsUrl(url) }))
+}
+
+// Only our own proxy is asked for CORS; stations that don't send CORS headers would fail to load otherwise
+function isSameOrigin(url: string) {
+  return typeof window !== 'undefined' && new URL(url, window.location.href).origin === window.location.origin
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string) {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms)
+    promise.then(
+      value => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      error => {
+        clearTimeout(timer)
+        reject(error)
+      }
+    )
+  })
+}
+
+function isAutoplayBlocked(error: unknown) {
+  return error instanceof DOMException && error.name === 'NotAllowedError'
+}
+
+// Fades by stepping each element's volume, for when there is no Web Audio graph
+export function createElementOutput(decks: HTMLAudioElement[]): AudioOutput {
+  const timers = new Map<number, ReturnType<typeof setInterval>>()
+  const gains = decks.map(() => 1)
+  // The volume each element had before fading started
+  const baseVolumes = decks.map(audio => audio.volume)
+
+  return {
+    setDeckGain(deck, gain, rampMs) {
+      clearInterval(timers.get(deck))
+      const audio = decks[deck]
+      if (gains[deck] === 1) baseVolumes[deck] = audio.volume
+      const from = gains[deck]
+      const startedAt = Date.now()
+      const apply = (value: number) => {
+        gains[deck] = value
+        audio.volume = baseVolumes[deck] * value
+      }
+      if (rampMs <= 0) {
+        apply(gain)
+        return
+      }
+      timers.set(deck, setInterval(() => {
+        const progress = Math.min((Date.now() - startedAt) / rampMs, 1)
+        apply(from + (gain - from) * progress)
+        if (progress === 1) clearInterval(timers.get(deck))
+      }, FADE_STEP_MS))
+    }
+  }
+}
+
+export function createAudioEngine(
+  elements: HTMLAudioElement | HTMLAudioElement[],
+  {
+    loadTimeoutMs = 15000,
+    stallTimeoutMs = 10000,
+    maxReconnectAttempts = 5,
+    baseBackoffMs = 1000,
+    maxBackoffMs = 30000,
+    output: outputOption,
+    resolveSourceUrl = source => source.url,
+    directElements
+  }: AudioEngineOptions = {}
+): AudioEngine {
+  const decks: Deck[] = (Array.isArray(elements) ? elements : [elements]).map((audio, index) => ({
+    index,
+    processed: audio,
+    direct: directElements?.[index] ?? audio,
+    audio,
+    hls: null
+  }))
+  const output = outputOption ?? createElementOutput(decks.map(deck => deck.processed))
+  let state = initialPlaybackState
+  const listeners = new Set<(state: PlaybackState) => void>()
+  // The deck the current station plays on; the other one only sounds during a crossfade
+  let active = decks[0]
+  let outgoing: Deck | null = null
+  let crossfadeTimer: ReturnType<typeof setTimeout> | null = null
+  // Bumped by every play/stop so async work for an older station can bail out
+  let session = 0
+  let sources: StreamSource[] = []
+  let sourceIndex = 0
+  let stallTimer: ReturnType<typeof setTimeout> | null = null
+  // Playback position when the stream started waiting
+  let stalledAt = 0
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  let fadeTimer: ReturnType<typeof setTimeout> | null = null
+  let finishFade: (() => void) | null = null
+
+  function setState(patch: Partial<PlaybackState>) {
+    state = { ...state, ...patch }
+    listeners.forEach(listener => listener(state))
+  }
+
+  function clearTimers() {
+    if (stallTimer) clearTimeout(stallTimer)
+    if (reconnectTimer) clearTimeout(reconnectTimer)
+    stallTimer = null
+    reconnectTimer = null
+  }
+
+  function cancelFade() {
+    if (fadeTimer) clearTimeout(fadeTimer)
+    fadeTimer = null
+    finishFade?.()
+    finishFade = null
+  }
+
+  function fadeActiveTo(gain: number, durationMs: number) {
+    cancelFade()
+    output.setDeckGain(active.index, gain, durationMs)
+    return new Promise<void>(resolve => {
+      finishFade = resolve
+      fadeTimer = setTimeout(cancelFade, Math.max(durationMs, 0))
+    })
+  }
+
+  function unload(audio: HTMLAudioElement) {
+    audio.pause()
+    audio.removeAttribute('src')
+    audio.load()
+  }
+
+  function detach(deck: Deck) {
+    deck.hls?.destroy()
+    deck.hls = null
+    unload(deck.audio)
+  }
+
+  // Silences the previous station right away, e.g. when switching again mid-crossfade
+  function dropOutgoing() {
+    if (crossfadeTimer) clearTimeout(crossfadeTimer)
+    crossfadeTimer = null
+    if (!outgoing) return
+    detach(outgoing)
+    output.setDeckGain(outgoing.index, 1, 0)
+    outgoing = null
+  }
+
+  // The attempts to make at `source`, in order: true plays it on the direct element
+  function routesFor(deck: Deck, source: StreamSource) {
+    if (deck.direct === deck.processed) return [false]
+    // hls.js feeds the element through Media Source Extensions, which Web Audio can read from any origin
+    if (source.hls) return [deck.processed.canPlayType(HLS_MIME_TYPE) !== '']
+    return [false, true]
+  }
+
+  async function attach(deck: Deck, source: StreamSource, direct: boolean) {
+    deck.hls?.destroy()
+    deck.hls = null
+    const audio = direct ? deck.direct : deck.processed
+    if (audio !== deck.audio) {
+      unload(deck.audio)
+      deck.audio = audio
+    }
+
+    // Safari and most mobile browsers play HLS natively
+    if (source.hls && audio.canPlayType(HLS_MIME_TYPE) === '') {
+      const { default: HlsClient } = await import('hls.js')
+      if (!HlsClient.isSupported()) {
+        throw new Error('HLS streams are not supported in this browser')
+      }
+      const client = new HlsClient()
+      client.on(HlsClient.Events.ERROR, (_event, data) => {
+        if (data.fatal && deck.hls === client && deck === active) {
+          scheduleReconnect(`HLS ${data.details}`)
+        }
+      })
+      client.loadSource(source.url)
+      client.attachMedia(audio)
+      deck.hls = client
+    } else {
+      // HLS playlists reference their segments by URL, so they can't go through a proxy
+      const url = source.hls || direct ? source.url : resolveSourceUrl(source)
+      audio.crossOrigin = isSameOrigin(url) ? 'anonymous' : null
+      audio.src = url
+      audio.load()
+    }
+  }
+
+  async function startSource(source: StreamSource, direct: boolean) {
+    await attach(active, source, direct)
+    await withTimeout(active.audio.play(), loadTimeoutMs, 'Timed out waiting for the stream')
+  }
+
+  // Tries each source from `startIndex` on; returns false if none of them played
+  async function startFrom(startIndex: number, id: number) {
+    let lastError: unknown = null
+
+    for (let offset = 0; offset < sources.length; offset++) {
+      const index = (startIndex + offset) % sources.length
+      const source = sources[index]
+      for (const direct of routesFor(active, source)) {
+        try {
+          setState({ sourceUrl: source.url })
+          await startSource(source, direct)
+          if (id !== session) return true
+          sourceIndex = index
+          setState({ bypassed: direct })
+          return true
+        } catch (error) {
+          if (id !== session) return true
+          if (isAutoplayBlocked(error)) {
+            setState({ status: 'paused', error: 'Playback was blocked by the browser, press play to start' })
+            return true
+          }
+          console.warn(`Failed to play ${source.url}${direct ? ' directly' : ''}:`, error)
+          lastError = error
+        }
+      }
+    }
+
+    const codec = state.station?.codec
+    const unsupported = codec && canPlayCodec(active.audio, codec) === false
+    setState({
+      status: 'error',
+      error: unsupported
+        ? `This browser can't play ${codec} streams`
+        : `Stream unavailable${lastError instanceof Error ? `: ${lastError.message}` : ''}`
+    })
+    return false
+  }
+
+  function scheduleReconnect(reason: string) {
+    const { station } = state
+    if (!station || reconnectTimer || state.status === 'paused' || state.status === 'idle') return
+    if (stallTimer) clearTimeout(stallTimer)
+    stallTimer = null
+
+    if (state.reconnectAttempt >= maxReconnectAttempts) {
+      detach(active)
+      setState({ status: 'error', error: `Lost connection (${reason})` })
+      return
+    }
+
+    const attempt = state.reconnectAttempt + 1
+    const delay = Math.min(baseBackoffMs * 2 ** (attempt - 1), maxBackoffMs)
+    console.warn(`Reconnecting to ${station.name} in ${delay}ms (${reason})`)
+    setState({ status: 'reconnecting', reconnectAttempt: attempt })
+
+    const id = session
+    reconnectTimer = setTimeout(async () => {
+      reconnectTimer = null
+      // Retry the source that was working before moving on to the others
+      const ok = await startFrom(sourceIndex, id)
+      if (!ok && id === session) {
+        setState({ status: 'reconnecting', error: null })
+        scheduleReconnect(reason)
+      }
+    }, delay)
+  }
+
+  // Events from the outgoing deck of a crossfade are not about the current station
+  const fromActive = (event: Event) => event.currentTarget === active.audio
+
+  const handlePlaying = (event: Event) => {
+    if (!fromActive(event)) return
+    if (stallTimer) clearTimeout(stallTimer)
+    stallTimer = null
+    setState({ status: 'playing', error: null, reconnectAttempt: 0 })
+  }
+
+  // Browsers also fire `stalled` while playback is fine, whenever the download pauses for a few
+  // seconds, so only `waiting` counts, and playback moving on clears it
+  const handleWaiting = (event: Event) => {
+    if (!fromActive(event)) return
+    if (state.status !== 'playing' && state.status !== 'buffering') return
+    setState({ status: 'buffering' })
+    stalledAt = active.audio.currentTime
+    if (!stallTimer) {
+      stallTimer = setTimeout(() => {
+        stallTimer = null
+        scheduleReconnect('stalled')
+      }, stallTimeoutMs)
+    }
+  }
+
+  const handleTimeUpdate = (event: Event) => {
+    if (!fromActive(event) || !stallTimer || active.audio.currentTime <= stalledAt) return
+    clearTimeout(stallTimer)
+    stallTimer = null
+    if (state.status === 'buffering') setState({ status: 'playing' })
+  }
+
+  // Errors while loading are handled by startFrom, these are drops during playback
+  const handleError = (event: Event) => {
+    if (!fromActive(event)) return
+    if (state.status === 'playing' || state.status === 'buffering') {
+      scheduleReconnect('stream error')
+    }
+  }
+
+  const handleEnded = (event: Event) => {
+    if (fromActive(event)) scheduleReconnect('stream ended')
+  }
+
+  const allElements = Array.from(new Set(decks.flatMap(deck => [deck.processed, deck.direct])))
+  for (const audio of allElements) {
+    audio.addEventListener('playing', handlePlaying)
+    audio.addEventListener('waiting', handleWaiting)
+    audio.addEventListener('timeupdate', handleTimeUpdate)
+    audio.addEventListener('error', handleError)
+    audio.addEventListener('ended', handleEnded)
+  }
+
+  async function play(station: Station, { fadeInMs = 0, crossfadeMs = 0 }: PlayOptions = {}) {
+    const id = ++session
+    clearTimers()
+    cancelFade()
+    output.prepare?.()
+
+    const isAudible = state.status === 'playing' || state.status === 'buffering'
+    const crossfade = crossfadeMs > 0 && decks.length > 1 && isAudible
+    dropOutgoing()
+    if (crossfade) {
+      // The current station keeps playing on its deck while the new one loads on the other
+      outgoing = active
+      active = decks.find(deck => deck !== active) ?? active
+      output.setDeckGain(active.index, 0, 0)
+    } else {
+      output.setDeckGain(active.index, fadeInMs > 0 ? 0 : 1, 0)
+    }
+
+    sources = streamSources(station)
+    sourceIndex = 0
+    setState({ status: 'loading', station, sourceUrl: null, error: null, reconnectAttempt: 0, bypassed: false })
+
+    if (sources.length === 0) {
+      dropOutgoing()
+      setState({ status: 'error', error: 'This station has no stream URL' })
+      return
+    }
+    const ok = await startFrom(0, id)
+    if (id !== session) return
+
+    if (!ok) {
+      dropOutgoing()
+    } else if (crossfade && outgoing) {
+      const previous = outgoing
+      output.setDeckGain(previous.index, 0, crossfadeMs)
+      void fadeActiveTo(1, crossfadeMs)
+      crossfadeTimer = setTimeout(() => {
+        if (outgoing === previous) dropOutgoing()
+      }, crossfadeMs)
+    } else if (fadeInMs > 0) {
+      void fadeActiveTo(1, fadeInMs)
+    }
+  }
+
+  return {
+    play,
+    pause() {
+      session++
+      clearTimers()
+      dropOutgoing()
+      active.audio.pause()
+      active.hls?.stopLoad()
+      // Paused after a fade out, so the next play starts at the normal volume
+      cancelFade()
+      output.setDeckGain(active.index, 1, 0)
+      if (state.station) setState({ status: 'paused' })
+    },
+    fadeOut(durationMs) {
+      return fadeActiveTo(0, durationMs)
+    },
+    // Live streams restart from the live edge instead of resuming a stale buffer
+    async resume() {
+      if (state.station) await play(state.station)
+    },
+    stop() {
+      session++
+      clearTimers()
+      cancelFade()
+      dropOutgoing()
+      detach(active)
+      output.setDeckGain(active.index, 1, 0)
+      setState(initialPlaybackState)
+    },
+    getState() {
+      return state
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+      listener(state)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    destroy() {
+      session++
+      clearTimers()
+      cancelFade()
+      if (crossfadeTimer) clearTimeout(crossfadeTimer)
+      for (const deck of decks) {
+        deck.hls?.destroy()
+        deck.hls = null
+      }
+      for (const audio of allElements) {
+        audio.removeEventListener('playing', handlePlaying)
+        audio.removeEventListener('waiting', handleWaiting)
+        audio.removeEventListener('timeupdate', handleTimeUpdate)
+        audio.removeEventListener('error', handleError)
+        audio.removeEventListener('ended', handleEnded)
+      }
+      listeners.clear()
+    }
+  }
+}
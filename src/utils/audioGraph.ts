@@ -0,0 +1,235 @@
+import { createElementOutput } from './audioEngine'
+import type { AudioOutput } from './audioEngine'
+import { EQ_BANDS } from './audioSettings'
+
+// Web Audio processing behind the decks:
+//   deck sources -> deck gains (fades) -> loudness meter -> normalizer gain -> limiter
+//   -> EQ -> analyser -> master gain (volume, mute) -> speakers
+// The context is only created on the first play, since browsers keep it suspended until a user gesture.
+// Each deck also gets a direct element outside the graph, for streams it can't read (see directDecks).
+
+export interface AudioGraph extends AudioOutput {
+  // False without Web Audio; volume and mute still work, EQ and normalization don't
+  supported: boolean
+  // Elements that play straight to the speakers, one per deck, for streams that can't be served
+  // from our origin: Web Audio silences cross-origin media without CORS headers. Volume, mute and
+  // fades apply to them too. Absent without Web Audio, where the decks play directly anyway.
+  directDecks?: HTMLAudioElement[]
+  setVolume(volume: number): void
+  setMuted(muted: boolean): void
+  // dB per EQ band
+  setEq(gains: number[]): void
+  setNormalize(enabled: boolean): void
+  // Start measuring afresh, e.g. for a new station
+  resetLoudness(): void
+  // Post-EQ signal, before the volume, for visualizers
+  getAnalyser(): AnalyserNode | null
+  destroy(): void
+}
+
+interface Nodes {
+  context: AudioContext
+  deckGains: GainNode[]
+  meter: AnalyserNode
+  normalizer: GainNode
+  limiter: DynamicsCompressorNode
+  filters: BiquadFilterNode[]
+  analyser: AnalyserNode
+  master: GainNode
+}
+
+// Loudness the normalizer aims for, as RMS in dBFS
+const TARGET_DB = -20
+const MAX_CORRECTION_DB = 12
+// Below this the station is treated as silent and not measured
+const GATE_DB = -50
+const METER_INTERVAL_MS = 250
+// Measurements taken quickly after a reset, then the level settles slowly
+const FAST_MEASUREMENTS = 8
+
+function dbToGain(db: number) {
+  return 10 ** (db / 20)
+}
+
+function rampParam(param: AudioParam, value: number, context: AudioContext, rampMs: number) {
+  const now = context.currentTime
+  param.cancelScheduledValues(now)
+  param.setValueAtTime(param.value, now)
+  if (rampMs > 0) {
+    param.linearRampToValueAtTime(value, now + rampMs / 1000)
+  } else {
+    param.setValueAtTime(value, now)
+  }
+}
+
+export function isWebAudioSupported() {
+  return typeof window !== 'undefined' && typeof window.AudioContext !== 'undefined'
+}
+
+export function createAudioGraph(decks: HTMLAudioElement[]): AudioGraph {
+  if (!isWebAudioSupported()) return createFallbackGraph(decks)
+
+  const directDecks = decks.map(() => new Audio())
+  const direct = createFallbackGraph(directDecks)
+
+  let nodes: Nodes | null = null
+  let volume = 1
+  let muted = false
+  let eqGains = EQ_BANDS.map(() => 0)
+  let normalize = true
+  const deckGains = decks.map(() => 1)
+  let meterTimer: ReturnType<typeof setInterval> | null = null
+  let measuredDb: number | null = null
+  let measurements = 0
+
+  const masterGain = () => (muted ? 0 : volume)
+
+  function measure() {
+    if (!nodes || !normalize) return
+    const samples = new Float32Array(nodes.meter.fftSize)
+    nodes.meter.getFloatTimeDomainData(samples)
+    let sum = 0
+    for (const sample of samples) sum += sample * sample
+    const db = 10 * Math.log10(sum / samples.length || Number.MIN_VALUE)
+    if (db < GATE_DB) return
+
+    measurements++
+    const smoothing = measurements <= FAST_MEASUREMENTS ? 0.5 : 0.05
+    measuredDb = measuredDb === null ? db : measuredDb + smoothing * (db - measuredDb)
+    const correction = Math.max(-MAX_CORRECTION_DB, Math.min(MAX_CORRECTION_DB, TARGET_DB - measuredDb))
+    nodes.normalizer.gain.setTargetAtTime(dbToGain(correction), nodes.context.currentTime, 0.5)
+  }
+
+  function applyNormalize() {
+    if (!nodes) return
+    const { limiter, normalizer, context } = nodes
+    if (normalize) {
+      // Catches peaks the gain correction pushes over
+      limiter.threshold.setValueAtTime(-6, context.currentTime)
+      limiter.ratio.setValueAtTime(12, context.currentTime)
+    } else {
+      limiter.threshold.setValueAtTime(0, context.currentTime)
+      limiter.ratio.setValueAtTime(1, context.currentTime)
+      rampParam(normalizer.gain, 1, context, 200)
+    }
+  }
+
+  function build(): Nodes {
+    const context = new AudioContext()
+    const master = context.createGain()
+    const analyser = context.createAnalyser()
+    analyser.fftSize = 2048
+    const filters = EQ_BANDS.map(({ frequency, type }, index) => {
+      const filter = context.createBiquadFilter()
+      filter.type = type
+      filter.frequency.value = frequency
+      filter.gain.value = eqGains[index]
+      return filter
+    })
+    const limiter = context.createDynamicsCompressor()
+    limiter.knee.value = 6
+    limiter.attack.value = 0.003
+    limiter.release.value = 0.25
+    const normalizer = context.createGain()
+    const meter = context.createAnalyser()
+    meter.fftSize = 2048
+
+    const deckGainNodes = decks.map((audio, index) => {
+      const gain = context.createGain()
+      gain.gain.value = deckGains[index]
+      context.createMediaElementSource(audio).connect(gain)
+      gain.connect(meter)
+      return gain
+    })
+
+    meter.connect(normalizer)
+    normalizer.connect(limiter)
+    filters.reduce<AudioNode>((previous, filter) => previous.connect(filter), limiter)
+    filters[filters.length - 1].connect(analyser)
+    analyser.connect(master)
+    master.connect(context.destination)
+    master.gain.value = masterGain()
+
+    return { context, deckGains: deckGainNodes, meter, normalizer, limiter, filters, analyser, master }
+  }
+
+  return {
+    supported: true,
+    directDecks,
+    prepare() {
+      if (!nodes) {
+        nodes = build()
+        applyNormalize()
+        meterTimer = setInterval(measure, METER_INTERVAL_MS)
+      }
+      if (nodes.context.state === 'suspended') void nodes.context.resume()
+    },
+    setDeckGain(deck, gain, rampMs) {
+      deckGains[deck] = gain
+      if (nodes) rampParam(nodes.deckGains[deck].gain, gain, nodes.context, rampMs)
+      direct.setDeckGain(deck, gain, rampMs)
+    },
+    setVolume(value) {
+      volume = value
+      if (nodes) rampParam(nodes.master.gain, masterGain(), nodes.context, 50)
+      direct.setVolume(value)
+    },
+    setMuted(value) {
+      muted = value
+      if (nodes) rampParam(nodes.master.gain, masterGain(), nodes.context, 50)
+      direct.setMuted(value)
+    },
+    setEq(gains) {
+      eqGains = gains
+      if (!nodes) return
+      const { context, filters } = nodes
+      filters.forEach((filter, index) => rampParam(filter.gain, gains[index] ?? 0, context, 100))
+    },
+    setNormalize(enabled) {
+      normalize = enabled
+      applyNormalize()
+    },
+    resetLoudness() {
+      measuredDb = null
+      measurements = 0
+    },
+    getAnalyser() {
+      return nodes?.analyser ?? null
+    },
+    destroy() {
+      if (meterTimer) clearInterval(meterTimer)
+      void nodes?.context.close()
+      nodes = null
+      directDecks.forEach(audio => {
+        audio.pause()
+        audio.removeAttribute('src')
+      })
+    }
+  }
+}
+
+// Plain element volumes for browsers without Web Audio
+function createFallbackGraph(decks: HTMLAudioElement[]): AudioGraph {
+  const fades = createElementOutput(decks)
+  return {
+    supported: false,
+    setDeckGain: fades.setDeckGain,
+    setVolume(volume) {
+      decks.forEach(audio => {
+        audio.volume = volume
+      })
+    },
+    setMuted(muted) {
+      decks.forEach(audio => {
+        audio.muted = muted
+      })
+    },
+    setEq() {},
+    setNormalize() {},
+    resetLoudness() {},
+    getAnalyser() {
+      return null
+    },
+    destroy() {}
+  }
+}
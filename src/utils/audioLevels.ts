@@ -0,0 +1,80 @@
+// Loudness and frequency bands read off an AnalyserNode, for visuals
+
+export interface AudioLevels {
+  // Overall loudness, 0 (silence) to 1 (full scale)
+  amplitude: number
+  // Energy per band, 0 to 1
+  bass: number
+  mid: number
+  treble: number
+}
+
+export const SILENT_LEVELS: AudioLevels = { amplitude: 0, bass: 0, mid: 0, treble: 0 }
+
+// Upper edge of each band in Hz
+const BASS_MAX_HZ = 250
+const MID_MAX_HZ = 4000
+const TREBLE_MAX_HZ = 16000
+
+// RMS below this counts as silence; streams at normal loudness sit around -20 dBFS
+const FLOOR_DB = -60
+
+// Rises quickly on a beat and falls back slowly
+const ATTACK = 0.6
+const RELEASE = 0.15
+
+function bandAverage(frequencies: Uint8Array, binHz: number, fromHz: number, toHz: number) {
+  const from = Math.max(Math.floor(fromHz / binHz), 0)
+  const to = Math.min(Math.ceil(toHz / binHz), frequencies.length)
+  if (to <= from) return 0
+  let sum = 0
+  for (let bin = from; bin < to; bin++) sum += frequencies[bin]
+  return sum / (to - from) / 255
+}
+
+// Levels from one analyser snapshot, unsmoothed
+export function measureLevels(
+  samples: Float32Array,
+  frequencies: Uint8Array,
+  sampleRate: number
+): AudioLevels {
+  let sum = 0
+  for (const sample of samples) sum += sample * sample
+  const rms = Math.sqrt(sum / (samples.length || 1))
+  const db = 20 * Math.log10(rms || Number.MIN_VALUE)
+  // Bins run from 0 Hz to half the sample rate
+  const binHz = sampleRate / 2 / frequencies.length
+
+  return {
+    amplitude: Math.min(Math.max((db - FLOOR_DB) / -FLOOR_DB, 0), 1),
+    bass: bandAverage(frequencies, binHz, 20, BASS_MAX_HZ),
+    mid: bandAverage(frequencies, binHz, BASS_MAX_HZ, MID_MAX_HZ),
+    treble: bandAverage(frequencies, binHz, MID_MAX_HZ, TREBLE_MAX_HZ)
+  }
+}
+
+export function smoothLevels(previous: AudioLevels, next: AudioLevels): AudioLevels {
+  const smooth = (from: number, to: number) => from + (to > from ? ATTACK : RELEASE) * (to - from)
+  return {
+    amplitude: smooth(previous.amplitude, next.amplitude),
+    bass: smooth(previous.bass, next.bass),
+    mid: smooth(previous.mid, next.mid),
+    treble: smooth(previous.treble, next.treble)
+  }
+}
+
+// Reuses its buffers, so it can be read every animation frame
+export function createLevelMeter(analyser: AnalyserNode) {
+  const samples = new Float32Array(analyser.fftSize)
+  const frequencies = new Uint8Array(analyser.frequencyBinCount)
+  let levels = SILENT_LEVELS
+
+  return {
+    read(): AudioLevels {
+      analyser.getFloatTimeDomainData(samples)
+      analyser.getByteFrequencyData(frequencies)
+      levels = smoothLevels(levels, measureLevels(samples, frequencies, analyser.context.sampleRate))
+      return levels
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { createVersionedStore } from './persistentStore'
+
+// Listening settings applied by the Web Audio graph
+
+export type EqPresetId = 'flat' | 'bass' | 'vocal' | 'treble' | 'loudness'
+
+export type VisualizerMode = 'off' | 'spectrum' | 'waveform'
+
+export interface EqPreset {
+  id: EqPresetId
+  label: string
+  // Gain in dB for each of EQ_BANDS
+  gains: number[]
+}
+
+export interface AudioSettings {
+  // 0 to 1
+  volume: number
+  muted: boolean
+  // Evens out loudness differences between stations
+  normalize: boolean
+  eqPreset: EqPresetId
+  // 0 switches stations with a cut
+  crossfadeMs: number
+  // What the expanded player draws
+  visualizer: VisualizerMode
+}
+
+export const EQ_BANDS: { frequency: number; type: BiquadFilterType }[] = [
+  { frequency: 60, type: 'lowshelf' },
+  { frequency: 250, type: 'peaking' },
+  { frequency: 1000, type: 'peaking' },
+  { frequency: 4000, type: 'peaking' },
+  { frequency: 12000, type: 'highshelf' }
+]
+
+export const EQ_PRESETS: EqPreset[] = [
+  { id: 'flat', label: 'Flat', gains: [0, 0, 0, 0, 0] },
+  { id: 'bass', label: 'Bass boost', gains: [6, 3, 0, 0, 0] },
+  { id: 'vocal', label: 'Vocal', gains: [-2, -1, 3, 3, 0] },
+  { id: 'treble', label: 'Treble', gains: [0, 0, 0, 3, 6] },
+  // Fuller lows and highs for quiet listening
+  { id: 'loudness', label: 'Loudness', gains: [5, 2, 0, 2, 4] }
+]
+
+export const CROSSFADE_OPTIONS_MS = [0, 1000, 2000, 4000, 8000]
+
+export const VISUALIZER_MODES: { value: VisualizerMode; label: string }[] = [
+  { value: 'spectrum', label: 'Spectrum' },
+  { value: 'waveform', label: 'Waveform' },
+  { value: 'off', label: 'Off' }
+]
+
+export function eqPreset(id: EqPresetId) {
+  return EQ_PRESETS.find(preset => preset.id === id) ?? EQ_PRESETS[0]
+}
+
+export function defaultAudioSettings(): AudioSettings {
+  return { volume: 0.8, muted: false, normalize: true, eqPreset: 'flat', crossfadeMs: 2000, visualizer: 'spectrum' }
+}
+
+export const audioSettingsStore = createVersionedStore<AudioSettings>({
+  key: 'roamfm:audio-settings',
+  version: 2,
+  fallback: defaultAudioSettings,
+  migrations: {
+    // v2 added the visualizer
+    1: data => ({ ...(data as object), visualizer: 'spectrum' })
+  }
+})
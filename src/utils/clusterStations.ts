@@ -0,0 +1,100 @@
+import { angularDistance, horizonAngle, toRadians } from './geo'
+import type { Station } from './normalizeStations'
+
+// Camera position as reported by the globe's `pointOfView`
+export interface PointOfView {
+  lat: number
+  lng: number
+  altitude: number
+}
+
+export interface StationCluster {
+  id: string
+  lat: number
+  lng: number
+  stations: Station[]
+}
+
+// Below this camera altitude every station is drawn individually
+const UNCLUSTERED_ALTITUDE = 0.3
+const MAX_CELL_DEGREES = 12
+// Stations on the far side of the globe are hidden anyway, so group them coarsely
+const FAR_SIDE_CELL_DEGREES = 20
+// Flat map: zoom from which every station is drawn individually, and the cluster size on screen
+const UNCLUSTERED_ZOOM = 10
+const CLUSTER_PIXELS = 48
+
+// Size of a clustering grid cell in degrees of latitude; 0 disables clustering
+export function clusterCellSize(altitude: number) {
+  if (altitude < UNCLUSTERED_ALTITUDE) return 0
+  return Math.min(altitude * 4, MAX_CELL_DEGREES)
+}
+
+function cellKey(station: Station, cell: number) {
+  const row = Math.floor((station.latitude + 90) / cell)
+  // Widen cells towards the poles so they cover a similar area everywhere
+  const rowLatitude = Math.min(Math.abs(-90 + (row + 0.5) * cell), 89)
+  const lngCell = Math.min(cell / Math.cos(toRadians(rowLatitude)), 360)
+  const col = Math.floor((station.longitude + 180) / lngCell)
+  return `${cell}:${row}:${col}`
+}
+
+// Buckets stations by the grid cell `cellFor` picks for each; a cell size of 0 keeps the station on its own
+function groupByCell(stations: Station[], cellFor: (station: Station) => number): StationCluster[] {
+  const cells = new Map<string, Station[]>()
+
+  for (const station of stations) {
+    const cell = cellFor(station)
+    const key = cell === 0 ? `station:${station.stationuuid}` : cellKey(station, cell)
+
+    const members = cells.get(key)
+    if (members) {
+      members.push(station)
+    } else {
+      cells.set(key, [station])
+    }
+  }
+
+  return Array.from(cells, ([id, members]) => ({
+    id,
+    lat: members.reduce((sum, station) => sum + station.latitude, 0) / members.length,
+    lng: members.reduce((sum, station) => sum + station.longitude, 0) / members.length,
+    stations: members
+  }))
+}
+
+// Groups stations into grid cells sized by camera altitude; clusters split
+// into smaller ones, and finally single stations, as the camera moves closer
+export function clusterStations(stations: Station[], pov: PointOfView): StationCluster[] {
+  const fineCell = clusterCellSize(pov.altitude)
+  const horizon = horizonAngle(pov.altitude)
+  return groupByCell(stations, station =>
+    angularDistance(pov, { lat: station.latitude, lng: station.longitude }) > horizon ? FAR_SIDE_CELL_DEGREES : fineCell
+  )
+}
+
+// Same clustering for the flat map, where a cell spans about CLUSTER_PIXELS on screen at the given zoom
+export function clusterStationsForZoom(stations: Station[], zoom: number): StationCluster[] {
+  const cell = zoom >= UNCLUSTERED_ZOOM ? 0 : Math.min((CLUSTER_PIXELS * 360) / (256 * 2 ** zoom), MAX_CELL_DEGREES)
+  return groupByCell(stations, () => cell)
+}
+
+// Stations on the side of the globe facing the camera, closest to the centre of the view first
+export function stationsInView(stations: Station[], pov: PointOfView, limit: number) {
+  const horizon = horizonAngle(pov.altitude)
+  return stations
+    .map(station => ({ station, angle: angularDistance(pov, { lat: station.latitude, lng: station.longitude }) }))
+    .filter(({ angle }) => angle <= horizon)
+    .sort((a, b) => a.angle - b.angle)
+    .slice(0, limit)
+    .map(({ station }) => station)
+}
+
+// Rounds a camera position so small movements don't trigger re-clustering
+export function quantizePointOfView({ lat, lng, altitude }: PointOfView): PointOfView {
+  return {
+    lat: Math.round(lat / 10) * 10,
+    lng: Math.round(lng / 10) * 10,
+    altitude: Math.round(altitude * 10) / 10
+  }
+}
@@ -0,0 +1,18 @@
+// Save generated content as a file through a temporary object URL
+export function downloadFile(filename: string, content: BlobPart | Blob, type = 'application/octet-stream') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Strip characters that aren't allowed in file names on common platforms
+export function safeFilename(name: string) {
+  return name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '_').replace(/\s+/g, ' ').trim().slice(0, 120) || 'untitled'
+}
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { emptyFavorites, exportFavorites, importFavorites, mergeFavorites, toggleFavorite } from './favorites'
+import type { FavoritesState } from './favorites'
+import { fetchStationsByUrl, fetchStationsByUuids } from './fetchStations'
+import type { RadioBrowserStation } from './fetchStations'
+import type { Station } from './normalizeStations'
+
+vi.mock('./fetchStations', () => ({
+  fetchStationsByUuids: vi.fn(),
+  fetchStationsByUrl: vi.fn()
+}))
+
+const JAZZ_UUID = '96062a7b-0601-11e8-ae97-52543be04c81'
+const ROCK_UUID = 'a8a3f6d2-2b77-4c1e-9a5e-0e6b1c1f2a3b'
+
+function station(stationuuid: string, name: string): Station {
+  return {
+    stationuuid,
+    name,
+    url: `https://${name.toLowerCase().replace(/\W/g, '')}.example/live`,
+    url_resolved: '',
+    homepage: 'https://example.com',
+    favicon: '',
+    tags: 'jazz',
+    country: 'France',
+    countrycode: 'FR',
+    state: '',
+    language: 'french',
+    codec: 'MP3',
+    bitrate: 128,
+    hls: 0,
+    lastcheckok: 1,
+    lastchecktime: null,
+    votes: 3,
+    clickcount: 0,
+    clicktrend: 0,
+    latitude: 48.85,
+    longitude: 2.35
+  }
+}
+
+// How Radio Browser returns `station`, as far as normalizeStation cares
+function raw(from: Station) {
+  return { ...from, lastchecktime: '', lastchecktime_iso8601: null, geo_lat: from.latitude, geo_long: from.longitude } as unknown as RadioBrowserStation
+}
+
+const jazz = station(JAZZ_UUID, 'Jazz FM')
+const rock = station(ROCK_UUID, 'Rock Antenne')
+
+function saved(): FavoritesState {
+  const state = toggleFavorite(toggleFavorite(emptyFavorites(), jazz), rock)
+  return {
+    folders: [{ id: 'f1', name: 'Evening' }],
+    favorites: state.favorites.map((entry, index) =>
+      index === 0 ? { ...entry, customName: 'My jazz', folderId: 'f1', addedAt: 1000 } : { ...entry, addedAt: 2000 }
+    )
+  }
+}
+
+function jsonExport(patch: (data: Record<string, unknown>) => void = () => {}) {
+  const data = JSON.parse(exportFavorites(saved(), 'json').content)
+  patch(data)
+  return JSON.stringify(data)
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.mocked(fetchStationsByUuids).mockReset()
+  vi.mocked(fetchStationsByUrl).mockReset()
+  vi.restoreAllMocks()
+})
+
+describe('JSON export and import', () => {
+  it('round-trips favorites, names and folders', async () => {
+    const result = await importFavorites(exportFavorites(saved(), 'json').content)
+
+    expect(result).toEqual({ imported: saved(), unmatched: [], rejected: 0 })
+  })
+
+  it('skips malformed entries and reports how many', async () => {
+    const text = jsonExport(data => {
+      const [first] = data.favorites as Record<string, unknown>[]
+      data.favorites = [
+        first,
+        null,
+        'Jazz FM',
+        { station: { ...rock, stationuuid: '' } },
+        { station: { ...rock, url: 'javascript:alert(1)', url_resolved: '' } },
+        { station: { ...rock, latitude: 'north' } }
+      ]
+    })
+
+    const { imported, rejected } = await importFavorites(text)
+
+    expect(imported.favorites.map(entry => entry.station.stationuuid)).toEqual([JAZZ_UUID])
+    expect(rejected).toBe(5)
+  })
+
+  it('blanks links that are not web URLs', async () => {
+    const text = jsonExport(data => {
+      const [first] = data.favorites as { station: Record<string, unknown> }[]
+      first.station.homepage = 'javascript:alert(1)'
+      first.station.favicon = 'data:image/svg+xml,<svg onload=alert(1)>'
+    })
+
+    const { imported } = await importFavorites(text)
+
+    expect(imported.favorites[0].station).toMatchObject({ homepage: '', favicon: '' })
+  })
+
+  it('drops references to folders that are not in the file', async () => {
+    const text = jsonExport(data => {
+      data.folders = []
+    })
+
+    const { imported } = await importFavorites(text)
+
+    expect(imported.favorites[0].folderId).toBeNull()
+  })
+
+  it('rejects files that are not a favorites export, or from a newer version', async () => {
+    await expect(importFavorites('{"favorites": []}')).rejects.toThrow('Not a RoamFM favorites export')
+    await expect(importFavorites(jsonExport(data => {
+      data.version = 99
+    }))).rejects.toThrow('Unsupported favorites export version 99')
+  })
+})
+
+describe('playlist import', () => {
+  it('matches entries by uuid, then by stream URL', async () => {
+    vi.mocked(fetchStationsByUuids).mockResolvedValue([raw(jazz)])
+    vi.mocked(fetchStationsByUrl).mockImplementation(async url => (url === rock.url ? [raw(rock)] : []))
+    const playlist = exportFavorites(saved(), 'm3u').content
+      .replace(`#RADIOBROWSERUUID:${ROCK_UUID}\n`, '')
+      .concat('#EXTINF:-1,Gone\nhttps://gone.example/\n')
+
+    const { imported, unmatched, rejected } = await importFavorites(playlist)
+
+    expect(fetchStationsByUuids).toHaveBeenCalledWith([JAZZ_UUID])
+    expect(imported.favorites.map(entry => [entry.station.stationuuid, entry.customName])).toEqual([
+      [JAZZ_UUID, 'My jazz'],
+      // The playlist name is the station name, so no custom name
+      [ROCK_UUID, null]
+    ])
+    expect(unmatched).toEqual([{ name: 'Gone', url: 'https://gone.example/', stationuuid: undefined }])
+    expect(rejected).toBe(0)
+  })
+
+  it('treats a failed URL lookup as unmatched', async () => {
+    vi.mocked(fetchStationsByUrl).mockRejectedValue(new Error('offline'))
+
+    const { imported, unmatched } = await importFavorites(exportFavorites(saved(), 'pls').content)
+
+    expect(imported.favorites).toEqual([])
+    expect(unmatched).toHaveLength(2)
+  })
+})
+
+describe('mergeFavorites', () => {
+  it('adds new stations, skips saved ones and maps folders by name', () => {
+    const current: FavoritesState = {
+      favorites: [{ station: jazz, customName: null, folderId: 'mine', addedAt: 1 }],
+      folders: [{ id: 'mine', name: 'Evening' }]
+    }
+
+    const merged = mergeFavorites(current, saved())
+
+    expect(merged.favorites.map(entry => [entry.station.stationuuid, entry.customName])).toEqual([
+      [JAZZ_UUID, null],
+      [ROCK_UUID, null]
+    ])
+    expect(merged.folders).toEqual([{ id: 'mine', name: 'Evening' }])
+  })
+})
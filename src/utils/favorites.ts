@@ -0,0 +1,351 @@
+import { fetchStationsByUrl, fetchStationsByUuids } from './fetchStations'
+import { normalizeStation } from './normalizeStations'
+import type { Station } from './normalizeStations'
+import { createId, createVersionedStore } from './persistentStore'
+import { parsePlaylist, toM3U, toPLS } from './playlists'
+import type { PlaylistEntry } from './playlists'
+import { parseStreamUrl } from './streamUrl'
+
+export interface FavoriteEntry {
+  // Snapshot of the station when it was saved, so favorites work without refetching
+  station: Station
+  // Name chosen by the user, falls back to the station name
+  customName: string | null
+  folderId: string | null
+  addedAt: number
+}
+
+export interface FavoriteFolder {
+  id: string
+  name: string
+}
+
+// Entries are kept in the user's manual order
+export interface FavoritesState {
+  favorites: FavoriteEntry[]
+  folders: FavoriteFolder[]
+}
+
+export type FavoritesSort = 'manual' | 'name' | 'added' | 'country'
+
+export const FAVORITES_VERSION = 1
+const EXPORT_FORMAT = 'roamfm-favorites'
+
+export function emptyFavorites(): FavoritesState {
+  return { favorites: [], folders: [] }
+}
+
+export const favoritesStore = createVersionedStore<FavoritesState>({
+  key: 'roamfm:favorites',
+  version: FAVORITES_VERSION,
+  fallback: emptyFavorites
+})
+
+export function displayName(entry: FavoriteEntry) {
+  return entry.customName || entry.station.name
+}
+
+export function isFavorite(state: FavoritesState, stationuuid: string) {
+  return state.favorites.some(entry => entry.station.stationuuid === stationuuid)
+}
+
+export function toggleFavorite(state: FavoritesState, station: Station): FavoritesState {
+  if (isFavorite(state, station.stationuuid)) {
+    return removeFavorite(state, station.stationuuid)
+  }
+  const entry: FavoriteEntry = { station, customName: null, folderId: null, addedAt: Date.now() }
+  return { ...state, favorites: [...state.favorites, entry] }
+}
+
+export function removeFavorite(state: FavoritesState, stationuuid: string): FavoritesState {
+  return {
+    ...state,
+    favorites: state.favorites.filter(entry => entry.station.stationuuid !== stationuuid)
+  }
+}
+
+function updateFavorite(
+  state: FavoritesState,
+  stationuuid: string,
+  update: (entry: FavoriteEntry) => FavoriteEntry
+): FavoritesState {
+  return {
+    ...state,
+    favorites: state.favorites.map(entry =>
+      entry.station.stationuuid === stationuuid ? update(entry) : entry
+    )
+  }
+}
+
+export function renameFavorite(state: FavoritesState, stationuuid: string, name: string) {
+  const trimmed = name.trim()
+  return updateFavorite(state, stationuuid, entry => ({
+    ...entry,
+    customName: trimmed && trimmed !== entry.station.name ? trimmed : null
+  }))
+}
+
+export function moveFavoriteToFolder(state: FavoritesState, stationuuid: string, folderId: string | null) {
+  return updateFavorite(state, stationuuid, entry => ({ ...entry, folderId }))
+}
+
+// Swap with the neighbouring entry of the same folder in the manual order
+export function moveFavorite(state: FavoritesState, stationuuid: string, direction: -1 | 1): FavoritesState {
+  const favorites = [...state.favorites]
+  const index = favorites.findIndex(entry => entry.station.stationuuid === stationuuid)
+  if (index < 0) return state
+
+  const folderId = favorites[index].folderId
+  let target = index + direction
+  while (target >= 0 && target < favorites.length && favorites[target].folderId !== folderId) {
+    target += direction
+  }
+  if (target < 0 || target >= favorites.length) return state
+
+  ;[favorites[index], favorites[target]] = [favorites[target], favorites[index]]
+  return { ...state, favorites }
+}
+
+// The favorite before or after `stationuuid` in the manual order, wrapping around.
+// Starts from either end when the station isn't a favorite.
+export function adjacentFavorite(state: FavoritesState, stationuuid: string | null, direction: -1 | 1) {
+  const { favorites } = state
+  if (favorites.length === 0) return null
+  const index = favorites.findIndex(entry => entry.station.stationuuid === stationuuid)
+  if (index < 0) return favorites[direction === 1 ? 0 : favorites.length - 1]
+  return favorites[(index + direction + favorites.length) % favorites.length]
+}
+
+export function addFolder(state: FavoritesState, name: string): FavoritesState {
+  const trimmed = name.trim()
+  if (!trimmed) return state
+  return { ...state, folders: [...state.folders, { id: createId(), name: trimmed }] }
+}
+
+export function renameFolder(state: FavoritesState, folderId: string, name: string): FavoritesState {
+  const trimmed = name.trim()
+  if (!trimmed) return state
+  return {
+    ...state,
+    folders: state.folders.map(folder => (folder.id === folderId ? { ...folder, name: trimmed } : folder))
+  }
+}
+
+// Removing a folder keeps its stations, they just become unfiled
+export function removeFolder(state: FavoritesState, folderId: string): FavoritesState {
+  return {
+    folders: state.folders.filter(folder => folder.id !== folderId),
+    favorites: state.favorites.map(entry =>
+      entry.folderId === folderId ? { ...entry, folderId: null } : entry
+    )
+  }
+}
+
+export function sortFavorites(entries: FavoriteEntry[], sort: FavoritesSort) {
+  if (sort === 'manual') return entries
+  const sorted = [...entries]
+  switch (sort) {
+    case 'name':
+      return sorted.sort((a, b) => displayName(a).localeCompare(displayName(b)))
+    case 'added':
+      return sorted.sort((a, b) => b.addedAt - a.addedAt)
+    case 'country':
+      return sorted.sort((a, b) =>
+        a.station.country.localeCompare(b.station.country) || displayName(a).localeCompare(displayName(b))
+      )
+  }
+}
+
+// Adds imported entries and folders, skipping stations that are already saved
+export function mergeFavorites(state: FavoritesState, imported: FavoritesState): FavoritesState {
+  const folders = [...state.folders]
+  const folderIds = new Map<string, string>()
+  for (const folder of imported.folders) {
+    const existing = folders.find(candidate => candidate.name === folder.name)
+    if (existing) {
+      folderIds.set(folder.id, existing.id)
+    } else {
+      const created = { id: createId(), name: folder.name }
+      folders.push(created)
+      folderIds.set(folder.id, created.id)
+    }
+  }
+
+  const favorites = [...state.favorites]
+  for (const entry of imported.favorites) {
+    if (favorites.some(existing => existing.station.stationuuid === entry.station.stationuuid)) continue
+    favorites.push({ ...entry, folderId: entry.folderId ? folderIds.get(entry.folderId) ?? null : null })
+  }
+
+  return { favorites, folders }
+}
+
+function toPlaylistEntries(state: FavoritesState): PlaylistEntry[] {
+  return state.favorites.map(entry => ({
+    name: displayName(entry),
+    url: entry.station.url_resolved || entry.station.url,
+    stationuuid: entry.station.stationuuid
+  }))
+}
+
+export type FavoritesExportFormat = 'json' | 'm3u' | 'pls'
+
+export function exportFavorites(state: FavoritesState, format: FavoritesExportFormat) {
+  switch (format) {
+    case 'json':
+      return {
+        filename: 'roamfm-favorites.json',
+        type: 'application/json',
+        content: JSON.stringify({ format: EXPORT_FORMAT, version: FAVORITES_VERSION, ...state }, null, 2)
+      }
+    case 'm3u':
+      return { filename: 'roamfm-favorites.m3u', type: 'audio/x-mpegurl', content: toM3U(toPlaylistEntries(state)) }
+    case 'pls':
+      return { filename: 'roamfm-favorites.pls', type: 'audio/x-scpls', content: toPLS(toPlaylistEntries(state)) }
+  }
+}
+
+export interface FavoritesImport {
+  imported: FavoritesState
+  // Playlist entries that couldn't be matched to a Radio Browser station with coordinates
+  unmatched: PlaylistEntry[]
+  // Entries of a JSON export that were malformed or had no usable station
+  rejected: number
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function stringField(value: unknown) {
+  return typeof value === 'string' ? value : ''
+}
+
+function numberField(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0
+}
+
+// Links and images from a file must not be able to run script, e.g. javascript: URLs
+function webUrlField(value: unknown) {
+  return typeof value === 'string' && parseStreamUrl(value) ? value : ''
+}
+
+function parseFolder(value: unknown): FavoriteFolder | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !value.name.trim()) {
+    return null
+  }
+  return { id: value.id, name: value.name.trim() }
+}
+
+// The station goes through the same normalization as one fresh from Radio Browser
+function parseEntry(value: unknown, folderIds: Set<string>): FavoriteEntry | null {
+  if (!isRecord(value) || !isRecord(value.station)) return null
+  const raw = value.station
+  const url = webUrlField(raw.url)
+  const urlResolved = webUrlField(raw.url_resolved)
+  if (typeof raw.stationuuid !== 'string' || !raw.stationuuid || typeof raw.name !== 'string' || !raw.name.trim()) {
+    return null
+  }
+  if (!url && !urlResolved) return null
+
+  const station = normalizeStation({
+    stationuuid: raw.stationuuid,
+    name: raw.name,
+    url: url || urlResolved,
+    url_resolved: urlResolved,
+    homepage: webUrlField(raw.homepage),
+    favicon: webUrlField(raw.favicon),
+    tags: stringField(raw.tags),
+    country: stringField(raw.country),
+    countrycode: stringField(raw.countrycode),
+    state: stringField(raw.state),
+    language: stringField(raw.language),
+    codec: stringField(raw.codec),
+    bitrate: numberField(raw.bitrate),
+    hls: numberField(raw.hls),
+    lastcheckok: numberField(raw.lastcheckok),
+    lastchecktime: '',
+    lastchecktime_iso8601: typeof raw.lastchecktime === 'string' ? raw.lastchecktime : null,
+    votes: numberField(raw.votes),
+    clickcount: numberField(raw.clickcount),
+    clicktrend: numberField(raw.clicktrend),
+    geo_lat: typeof raw.latitude === 'number' ? raw.latitude : null,
+    geo_long: typeof raw.longitude === 'number' ? raw.longitude : null
+  })
+  if (!station) return null
+
+  return {
+    station,
+    customName: typeof value.customName === 'string' && value.customName.trim() ? value.customName.trim() : null,
+    folderId: typeof value.folderId === 'string' && folderIds.has(value.folderId) ? value.folderId : null,
+    addedAt: numberField(value.addedAt) || Date.now()
+  }
+}
+
+// Exports are files anyone can edit, so every entry is checked rather than trusted
+function parseJsonExport(text: string): Omit<FavoritesImport, 'unmatched'> {
+  const parsed = JSON.parse(text)
+  if (parsed?.format !== EXPORT_FORMAT) {
+    throw new Error('Not a RoamFM favorites export')
+  }
+  const { favorites, folders } = parsed
+  const state = typeof parsed.version === 'number' ? favoritesStore.migrate(parsed.version, { favorites, folders }) : null
+  if (!state) {
+    throw new Error(`Unsupported favorites export version ${parsed.version}`)
+  }
+
+  const validFolders = (Array.isArray(state.folders) ? state.folders : [])
+    .map(parseFolder)
+    .filter((folder): folder is FavoriteFolder => folder !== null)
+  const folderIds = new Set(validFolders.map(folder => folder.id))
+  const entries: unknown[] = Array.isArray(state.favorites) ? state.favorites : []
+  const validEntries = entries
+    .map(entry => parseEntry(entry, folderIds))
+    .filter((entry): entry is FavoriteEntry => entry !== null)
+
+  return {
+    imported: { favorites: validEntries, folders: validFolders },
+    rejected: entries.length - validEntries.length
+  }
+}
+
+// Playlists only carry names and URLs, so entries are matched back to Radio Browser stations
+async function resolvePlaylist(entries: PlaylistEntry[]): Promise<FavoritesImport> {
+  const uuids = entries.flatMap(entry => (entry.stationuuid ? [entry.stationuuid] : []))
+  const byUuid = new Map<string, Station>()
+  if (uuids.length > 0) {
+    for (const raw of await fetchStationsByUuids(uuids)) {
+      const station = normalizeStation(raw)
+      if (station) byUuid.set(station.stationuuid, station)
+    }
+  }
+
+  const favorites: FavoriteEntry[] = []
+  const unmatched: PlaylistEntry[] = []
+  for (const entry of entries) {
+    let station = entry.stationuuid ? byUuid.get(entry.stationuuid) : undefined
+    if (!station) {
+      const matches = await fetchStationsByUrl(entry.url).catch(() => [])
+      station = matches.map(normalizeStation).find(Boolean) ?? undefined
+    }
+    if (!station) {
+      unmatched.push(entry)
+      continue
+    }
+    favorites.push({
+      station,
+      customName: entry.name !== station.name && entry.name !== entry.url ? entry.name : null,
+      folderId: null,
+      addedAt: Date.now()
+    })
+  }
+
+  return { imported: { favorites, folders: [] }, unmatched, rejected: 0 }
+}
+
+export async function importFavorites(text: string): Promise<FavoritesImport> {
+  if (text.trimStart().startsWith('{')) {
+    return { ...parseJsonExport(text), unmatched: [] }
+  }
+  return resolvePlaylist(parsePlaylist(text))
+}
@@ -1,4 +1,7 @@
-// List of Radio Browser API servers to try
+import { createMirrorManager } from './radioBrowserMirrors'
+import type { RequestOptions } from './radioBrowserMirrors'
+
+// List of Radio Browser API servers to start from; more are discovered at runtime
 const RADIO_BROWSER_SERVERS = [
   'https://de1.api.radio-browser.info',
   'https://fi1.api.radio-browser.info',
@@ -7,37 +10,214 @@ const RADIO_BROWSER_SERVERS = [
   'https://nl1.api.radio-browser.info'
 ]
 
-async function tryFetchFromServer(server: string, tag: string) {
-  try {
-    const res = await fetch(`${server}/json/stations/bytag/${tag}`, {
-      // Add a timeout to prevent hanging on slow servers
-      signal: AbortSignal.timeout(5000)
-    })
-    
-    if (!res.ok) {
-      throw new Error(`Server ${server} returned ${res.status}`)
-    }
-    
-    const data = await res.json()
-    return data
-  } catch (error) {
-    console.warn(`Failed to fetch from ${server}:`, error)
-    return null
+// Comma separated override, e.g. to point the client at a local stub server
+const CONFIGURED_SERVERS = (process.env.NEXT_PUBLIC_RADIO_BROWSER_SERVERS ?? '')
+  .split(',')
+  .map(server => server.trim())
+  .filter(Boolean)
+
+const mirrors = createMirrorManager(
+  CONFIGURED_SERVERS.length > 0
+    ? { seedServers: CONFIGURED_SERVERS, discover: false }
+    : { seedServers: RADIO_BROWSER_SERVERS }
+)
+
+// Station record as returned by the Radio Browser `/json/stations/*` endpoints
+export interface RadioBrowserStation {
+  changeuuid: string
+  stationuuid: string
+  serveruuid: string | null
+  name: string
+  url: string
+  url_resolved: string
+  homepage: string
+  favicon: string
+  // Comma separated list, e.g. "jazz,smooth jazz,lounge"
+  tags: string
+  country: string
+  countrycode: string
+  iso_3166_2: string | null
+  state: string
+  // Comma separated list
+  language: string
+  languagecodes: string
+  votes: number
+  lastchangetime: string
+  lastchangetime_iso8601: string | null
+  codec: string
+  bitrate: number
+  // 1 if the stream is HLS, 0 otherwise
+  hls: number
+  // 1 if the last check succeeded, 0 otherwise
+  lastcheckok: number
+  lastchecktime: string
+  lastchecktime_iso8601: string | null
+  lastcheckoktime: string
+  lastcheckoktime_iso8601: string | null
+  lastlocalchecktime: string
+  lastlocalchecktime_iso8601: string | null
+  clicktimestamp: string
+  clicktimestamp_iso8601: string | null
+  clickcount: number
+  clicktrend: number
+  ssl_error: number
+  geo_lat: number | null
+  geo_long: number | null
+  // Only present on geo-distance searches
+  geo_distance?: number | null
+  has_extended_info: boolean
+}
+
+export interface RadioBrowserTag {
+  name: string
+  stationcount: number
+}
+
+export interface RadioBrowserCountry {
+  name: string
+  iso_3166_1: string
+  stationcount: number
+}
+
+export interface RadioBrowserLanguage {
+  name: string
+  iso_639: string | null
+  stationcount: number
+}
+
+export type StationOrder =
+  | 'name'
+  | 'url'
+  | 'homepage'
+  | 'favicon'
+  | 'tags'
+  | 'country'
+  | 'state'
+  | 'language'
+  | 'votes'
+  | 'codec'
+  | 'bitrate'
+  | 'lastcheckok'
+  | 'lastchecktime'
+  | 'clicktimestamp'
+  | 'clickcount'
+  | 'clicktrend'
+  | 'changetimestamp'
+  | 'random'
+
+// Parameters accepted by `/json/stations/search`
+export interface StationSearchParams {
+  name?: string
+  nameExact?: boolean
+  country?: string
+  countryExact?: boolean
+  countrycode?: string
+  state?: string
+  stateExact?: boolean
+  language?: string
+  languageExact?: boolean
+  tag?: string
+  tagExact?: boolean
+  // Stations must carry every tag in the list
+  tagList?: string[]
+  codec?: string
+  bitrateMin?: number
+  bitrateMax?: number
+  has_geo_info?: boolean
+  has_extended_info?: boolean
+  is_https?: boolean
+  order?: StationOrder
+  reverse?: boolean
+  offset?: number
+  limit?: number
+  hidebroken?: boolean
+}
+
+// Parameters shared by the tag, country and language listing endpoints
+export interface ListParams {
+  filter?: string
+  order?: 'name' | 'stationcount'
+  reverse?: boolean
+  hidebroken?: boolean
+  offset?: number
+  limit?: number
+}
+
+type QueryValue = string | number | boolean | string[] | undefined
+
+// Serialize query params the way Radio Browser expects them (lists are comma separated)
+function buildQuery(params: Record<string, QueryValue>) {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === '') continue
+    query.set(key, Array.isArray(value) ? value.join(',') : String(value))
   }
+  const serialized = query.toString()
+  return serialized ? `?${serialized}` : ''
+}
+
+async function fetchFromRadioBrowser<T>(path: string, options?: RequestOptions): Promise<T> {
+  return mirrors.request<T>(path, options)
 }
 
 export async function fetchStationsByTag(tag: string) {
-  // Try each server in sequence until one works
-  for (const server of RADIO_BROWSER_SERVERS) {
-    console.log(`Trying server: ${server}`)
-    const data = await tryFetchFromServer(server, tag)
-    
-    if (data) {
-      console.log(`Successfully fetched ${data.length} stations from ${server}`)
-      return data
-    }
-  }
-  
-  // If we get here, all servers failed
-  throw new Error('All Radio Browser API servers failed to respond')
-}
\ No newline at end of file
+  return fetchFromRadioBrowser<RadioBrowserStation[]>(
+    `/json/stations/bytag/${encodeURIComponent(tag)}`
+  )
+}
+
+export async function searchStations(params: StationSearchParams = {}) {
+  return fetchFromRadioBrowser<RadioBrowserStation[]>(
+    `/json/stations/search${buildQuery({ ...params })}`
+  )
+}
+
+export async function fetchStationsByUuids(uuids: string[]) {
+  return fetchFromRadioBrowser<RadioBrowserStation[]>(
+    `/json/stations/byuuid${buildQuery({ uuids })}`
+  )
+}
+
+export async function fetchStationsByUrl(url: string) {
+  return fetchFromRadioBrowser<RadioBrowserStation[]>(
+    `/json/stations/byurl${buildQuery({ url })}`
+  )
+}
+
+function listPath(endpoint: string, { filter, ...params }: ListParams) {
+  const base = filter ? `/json/${endpoint}/${encodeURIComponent(filter)}` : `/json/${endpoint}`
+  return `${base}${buildQuery({ ...params })}`
+}
+
+export async function fetchTags(params: ListParams = {}) {
+  return fetchFromRadioBrowser<RadioBrowserTag[]>(listPath('tags', params))
+}
+
+export async function fetchCountries(params: ListParams = {}) {
+  return fetchFromRadioBrowser<RadioBrowserCountry[]>(listPath('countries', params))
+}
+
+export async function fetchLanguages(params: ListParams = {}) {
+  return fetchFromRadioBrowser<RadioBrowserLanguage[]>(listPath('languages', params))
+}
+
+export interface RadioBrowserActionResult {
+  ok: boolean
+  message: string
+}
+
+// Radio Browser counts one vote per client IP and station every 10 minutes
+export async function voteForStation(stationuuid: string) {
+  return fetchFromRadioBrowser<RadioBrowserActionResult>(
+    `/json/vote/${encodeURIComponent(stationuuid)}`,
+    { hedge: false }
+  )
+}
+
+// Reports that a station was played, which feeds its click count and trend
+export async function reportStationClick(stationuuid: string) {
+  return fetchFromRadioBrowser<RadioBrowserActionResult & { url?: string }>(
+    `/json/url/${encodeURIComponent(stationuuid)}`,
+    { hedge: false }
+  )
+}
@@ -0,0 +1,46 @@
+import { createVersionedStore } from './persistentStore'
+
+// Settings for the 2D map shown instead of the globe
+
+export type ViewMode = 'globe' | 'flat'
+
+// Any {z}/{x}/{y} tile URL works, e.g. a tile server on the local network
+export const TILE_URL =
+  process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png'
+
+export const TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
+
+export const MIN_ZOOM = 2
+export const MAX_ZOOM = 18
+// How far the map zooms in on a station it flies to
+export const FOCUS_ZOOM = 8
+
+export const viewModeStore = createVersionedStore<ViewMode | null>({
+  key: 'roamfm:view-mode',
+  version: 1,
+  fallback: () => null
+})
+
+// Globe camera altitude and map zoom showing roughly the same area, to keep the view when switching
+export function altitudeToZoom(altitude: number) {
+  return Math.min(Math.max(Math.round(3 - Math.log2(Math.max(altitude, 0.01))), MIN_ZOOM), MAX_ZOOM)
+}
+
+export function zoomToAltitude(zoom: number) {
+  return Math.min(Math.max(2 ** (3 - zoom), 0.1), 4)
+}
+
+// Machines without WebGL start on the flat map
+export function supportsWebGL() {
+  try {
+    const canvas = document.createElement('canvas')
+    const context = canvas.getContext('webgl2') ?? canvas.getContext('webgl')
+    // Browsers only allow a few live WebGL contexts, and the globe needs one
+    context?.getExtension('WEBGL_lose_context')?.loseContext()
+    return context !== null
+  } catch {
+    return false
+  }
+}
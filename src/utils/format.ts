@@ -0,0 +1,40 @@
+// Display formatting shared by the panels
+
+// e.g. "1h 05m", "12m 30s", "45s"
+export function formatDuration(ms: number) {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`
+  if (minutes > 0) return `${minutes}m ${String(seconds).padStart(2, '0')}s`
+  return `${seconds}s`
+}
+
+const relativeTime = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' })
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000]
+]
+
+// e.g. "5 minutes ago", "yesterday"
+export function formatRelativeTime(timestamp: number, now = Date.now()) {
+  const diff = timestamp - now
+  for (const [unit, size] of RELATIVE_UNITS) {
+    if (Math.abs(diff) >= size) return relativeTime.format(Math.round(diff / size), unit)
+  }
+  return 'just now'
+}
+
+// e.g. "840 KB", "12.4 MB"
+export function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// e.g. "12.5 km", "1,204 km"
+export function formatDistance(km: number) {
+  return km >= 100 ? `${Math.round(km).toLocaleString()} km` : `${km.toFixed(1)} km`
+}
@@ -0,0 +1,50 @@
+// Spherical geometry helpers for positions given in degrees
+
+export const EARTH_RADIUS_KM = 6371
+
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+export function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180
+}
+
+export function toDegrees(radians: number) {
+  return (radians * 180) / Math.PI
+}
+
+// Great-circle angle between two points, in degrees (haversine formula)
+export function angularDistance(a: LatLng, b: LatLng) {
+  const dLat = toRadians(b.lat - a.lat)
+  const dLng = toRadians(b.lng - a.lng)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2
+  return toDegrees(2 * Math.asin(Math.min(1, Math.sqrt(h))))
+}
+
+export function distanceKm(a: LatLng, b: LatLng) {
+  return toRadians(angularDistance(a, b)) * EARTH_RADIUS_KM
+}
+
+// Angular radius of the globe cap visible from a camera at `altitude` globe radii above the surface
+export function horizonAngle(altitude: number) {
+  return toDegrees(Math.acos(1 / (1 + Math.max(altitude, 0))))
+}
+
+// Point reached by travelling `distance` km from `from` on an initial bearing in degrees clockwise from north
+export function destinationPoint(from: LatLng, bearing: number, distance: number): LatLng {
+  const angle = distance / EARTH_RADIUS_KM
+  const theta = toRadians(bearing)
+  const lat1 = toRadians(from.lat)
+  const lng1 = toRadians(from.lng)
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angle) + Math.cos(lat1) * Math.sin(angle) * Math.cos(theta))
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angle) * Math.cos(lat1),
+    Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2)
+  )
+  // Back into -180..180
+  return { lat: toDegrees(lat2), lng: ((toDegrees(lng2) + 540) % 360) - 180 }
+}
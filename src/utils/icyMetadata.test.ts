@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import { createIcyDemuxer, parseIcyMetadata, splitStreamTitle } from './icyMetadata'
+
+const META_INT = 8
+
+// A metadata block as a server sends it: the length byte, then the text padded with NULs to a multiple of 16
+function metadataBlock(text: string) {
+  const bytes = new TextEncoder().encode(text)
+  const blocks = Math.ceil(bytes.length / 16)
+  const block = new Uint8Array(1 + blocks * 16)
+  block[0] = blocks
+  block.set(bytes, 1)
+  return block
+}
+
+function audio(length: number, fill = 0xaa) {
+  return new Uint8Array(length).fill(fill)
+}
+
+function concat(...parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+// Feeds `stream` to a fresh demuxer in chunks of `chunkSize`, and collects what comes out
+function demux(stream: Uint8Array, chunkSize = stream.length) {
+  const audioBytes: number[] = []
+  const metadata: Record<string, string>[] = []
+  const demuxer = createIcyDemuxer(META_INT, {
+    onAudio: chunk => audioBytes.push(...chunk),
+    onMetadata: fields => metadata.push(fields)
+  })
+  for (let i = 0; i < stream.length; i += chunkSize) {
+    demuxer.push(stream.subarray(i, i + chunkSize))
+  }
+  return { audio: Uint8Array.from(audioBytes), metadata }
+}
+
+describe('createIcyDemuxer', () => {
+  const stream = concat(
+    audio(META_INT, 1),
+    metadataBlock("StreamTitle='Artist - Track';"),
+    audio(META_INT, 2),
+    metadataBlock("StreamTitle='Other - Song';StreamUrl='';")
+  )
+
+  it('splits audio from the metadata after every metaInt bytes', () => {
+    const { audio: audioOut, metadata } = demux(stream)
+
+    expect(audioOut).toEqual(concat(audio(META_INT, 1), audio(META_INT, 2)))
+    expect(metadata).toEqual([
+      { StreamTitle: 'Artist - Track' },
+      { StreamTitle: 'Other - Song', StreamUrl: '' }
+    ])
+  })
+
+  it('reassembles metadata blocks split across chunks', () => {
+    for (const chunkSize of [1, 3, 7, META_INT + 1, 20]) {
+      expect(demux(stream, chunkSize)).toEqual(demux(stream))
+    }
+  })
+
+  it('goes straight back to audio after a zero-length block', () => {
+    const { audio: audioOut, metadata } = demux(concat(audio(META_INT, 1), Uint8Array.of(0), audio(META_INT, 2)))
+
+    expect(audioOut).toEqual(concat(audio(META_INT, 1), audio(META_INT, 2)))
+    expect(metadata).toEqual([])
+  })
+
+  it('treats the byte right after metaInt audio bytes as the length, even at a chunk boundary', () => {
+    // 0x01 would be a length of 16 if it were taken for audio one byte late
+    const withLengthOne = concat(audio(META_INT, 1), metadataBlock("StreamTitle='A';"), audio(2, 3))
+    const out = { audio: [] as number[], metadata: [] as Record<string, string>[] }
+    const demuxer = createIcyDemuxer(META_INT, {
+      onAudio: chunk => out.audio.push(...chunk),
+      onMetadata: fields => out.metadata.push(fields)
+    })
+
+    demuxer.push(withLengthOne.subarray(0, META_INT))
+    expect(out.audio).toHaveLength(META_INT)
+    expect(out.metadata).toEqual([])
+    demuxer.push(withLengthOne.subarray(META_INT))
+
+    expect(out.audio).toEqual([...audio(META_INT, 1), 3, 3])
+    expect(out.metadata).toEqual([{ StreamTitle: 'A' }])
+  })
+
+  it('falls back to Latin-1 for metadata that is not UTF-8', () => {
+    const latin1 = Uint8Array.from("StreamTitle='Caf\xe9';", char => char.charCodeAt(0))
+    const block = new Uint8Array(1 + 32)
+    block[0] = 2
+    block.set(latin1, 1)
+
+    expect(demux(concat(audio(META_INT), block)).metadata).toEqual([{ StreamTitle: 'Café' }])
+  })
+})
+
+describe('parseIcyMetadata', () => {
+  it('keeps quotes inside values', () => {
+    expect(parseIcyMetadata("StreamTitle='Guns N' Roses - Don't Cry';StreamUrl='';")).toEqual({
+      StreamTitle: "Guns N' Roses - Don't Cry",
+      StreamUrl: ''
+    })
+  })
+
+  it('unescapes backslash-escaped quotes', () => {
+    expect(parseIcyMetadata("StreamTitle='Don\\'t Stop';")).toEqual({ StreamTitle: "Don't Stop" })
+  })
+})
+
+describe('splitStreamTitle', () => {
+  it('splits artist and title on the first " - "', () => {
+    expect(splitStreamTitle('Artist - Track - Radio Edit')).toEqual({
+      artist: 'Artist',
+      title: 'Track - Radio Edit',
+      raw: 'Artist - Track - Radio Edit'
+    })
+  })
+
+  it('uses the whole title without a separator', () => {
+    expect(splitStreamTitle('Station jingle')).toEqual({ artist: null, title: 'Station jingle', raw: 'Station jingle' })
+    // A hyphen without spaces is part of the name
+    expect(splitStreamTitle('Jay-Z')).toEqual({ artist: null, title: 'Jay-Z', raw: 'Jay-Z' })
+  })
+
+  it('keeps quotes in artist and title', () => {
+    expect(splitStreamTitle(`Guns N' Roses - "Patience"`)).toEqual({
+      artist: "Guns N' Roses",
+      title: '"Patience"',
+      raw: `Guns N' Roses - "Patience"`
+    })
+  })
+
+  it('returns null for empty titles and no artist for a leading separator', () => {
+    expect(splitStreamTitle(undefined)).toBeNull()
+    expect(splitStreamTitle('   ')).toBeNull()
+    expect(splitStreamTitle(' - Track')).toEqual({ artist: null, title: '- Track', raw: '- Track' })
+  })
+})
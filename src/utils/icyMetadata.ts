@@ -0,0 +1,94 @@
+// Shoutcast/Icecast in-stream metadata. When a client sends `Icy-MetaData: 1`,
+// the server answers with an `icy-metaint` header and inserts a metadata block
+// after every `metaint` bytes of audio: one length byte (times 16) followed by
+// text such as `StreamTitle='Artist - Track';StreamUrl='';`, padded with NULs.
+
+export interface NowPlaying {
+  artist: string | null
+  title: string
+  // StreamTitle exactly as the station sent it
+  raw: string
+}
+
+export interface IcyDemuxerHandlers {
+  onAudio?: (chunk: Uint8Array) => void
+  onMetadata: (fields: Record<string, string>) => void
+}
+
+export function parseIcyMetadata(text: string) {
+  const fields: Record<string, string> = {}
+  // Values can contain quotes, so a value only ends at `';` followed by another key or the end
+  const pattern = /(\w+)='([\s\S]*?)';(?=\w+='|[\s\0]*$)/g
+  for (const [, key, value] of text.matchAll(pattern)) {
+    // Some servers backslash-escape quotes inside values
+    fields[key] = value.replace(/\\'/g, "'")
+  }
+  return fields
+}
+
+export function splitStreamTitle(streamTitle: string | undefined): NowPlaying | null {
+  const raw = streamTitle?.trim()
+  if (!raw) return null
+  const separator = raw.indexOf(' - ')
+  if (separator < 0) return { artist: null, title: raw, raw }
+  return {
+    artist: raw.slice(0, separator).trim() || null,
+    title: raw.slice(separator + 3).trim(),
+    raw
+  }
+}
+
+// Most stations send UTF-8, but older Shoutcast servers send Latin-1
+function decodeMetadata(bytes: Uint8Array) {
+  let text: string
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    text = new TextDecoder('latin1').decode(bytes)
+  }
+  return text.replace(/\0+$/, '')
+}
+
+// Splits a stream with interleaved metadata back into audio and metadata blocks
+export function createIcyDemuxer(metaInt: number, { onAudio, onMetadata }: IcyDemuxerHandlers) {
+  let phase: 'audio' | 'length' | 'metadata' = 'audio'
+  let audioRemaining = metaInt
+  let metadata = new Uint8Array(0)
+  let metadataOffset = 0
+
+  return {
+    push(chunk: Uint8Array) {
+      let i = 0
+      while (i < chunk.length) {
+        if (phase === 'audio') {
+          const n = Math.min(audioRemaining, chunk.length - i)
+          onAudio?.(chunk.subarray(i, i + n))
+          audioRemaining -= n
+          i += n
+          if (audioRemaining === 0) phase = 'length'
+        } else if (phase === 'length') {
+          const length = chunk[i] * 16
+          i += 1
+          if (length === 0) {
+            phase = 'audio'
+            audioRemaining = metaInt
+          } else {
+            metadata = new Uint8Array(length)
+            metadataOffset = 0
+            phase = 'metadata'
+          }
+        } else {
+          const n = Math.min(metadata.length - metadataOffset, chunk.length - i)
+          metadata.set(chunk.subarray(i, i + n), metadataOffset)
+          metadataOffset += n
+          i += n
+          if (metadataOffset === metadata.length) {
+            onMetadata(parseIcyMetadata(decodeMetadata(metadata)))
+            phase = 'audio'
+            audioRemaining = metaInt
+          }
+        }
+      }
+    }
+  }
+}
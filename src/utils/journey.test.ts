@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { JOURNEY_GAP_MS, groupJourneys, journeyArcs, summarizeJourney } from './journey'
+import type { JourneyStop } from './journey'
+import type { ListeningSession } from './listeningHistory'
+import type { Station } from './normalizeStations'
+
+const MINUTE_MS = 60 * 1000
+
+function stop(stationuuid: string, latitude: number, longitude: number, fields: Partial<JourneyStop> = {}, country = ''): JourneyStop {
+  return {
+    station: { stationuuid, latitude, longitude, country } as Station,
+    genre: '',
+    startedAt: 0,
+    durationMs: 10 * MINUTE_MS,
+    ...fields
+  }
+}
+
+describe('summarizeJourney', () => {
+  it('adds up great-circle distances between consecutive stops', () => {
+    const stops = [stop('paris', 48.8566, 2.3522), stop('london', 51.5074, -0.1278), stop('paris-again', 48.8566, 2.3522)]
+
+    expect(summarizeJourney(stops).distanceKm).toBeCloseTo(2 * 343.5, 0)
+  })
+
+  it('takes the short way across the antimeridian', () => {
+    const stops = [stop('fiji', 0, 179), stop('samoa', 0, -179)]
+
+    // Two degrees along the equator
+    expect(summarizeJourney(stops).distanceKm).toBeCloseTo(222.39, 1)
+  })
+
+  it('counts a single stop as no distance', () => {
+    expect(summarizeJourney([stop('paris', 48.8566, 2.3522)]).distanceKm).toBe(0)
+  })
+
+  it('summarizes countries, genres by plays, listening time and distinct stations', () => {
+    const stops = [
+      stop('a', 0, 0, { genre: 'jazz' }, 'France'),
+      stop('b', 0, 1, { genre: 'rock, jazz' }, 'Spain'),
+      stop('a', 0, 0, { genre: 'jazz' }, 'France')
+    ]
+
+    expect(summarizeJourney(stops)).toMatchObject({
+      countries: ['France', 'Spain'],
+      genres: ['jazz', 'rock'],
+      listenedMs: 30 * MINUTE_MS,
+      stations: 2
+    })
+  })
+})
+
+describe('journeyArcs', () => {
+  it('skips hops between stations in the same place and stops at upTo', () => {
+    const stops = [stop('a', 0, 0), stop('b', 0, 0), stop('c', 10, 20), stop('d', 30, 40)]
+
+    expect(journeyArcs(stops)).toEqual([
+      { startLat: 0, startLng: 0, endLat: 10, endLng: 20, index: 2 },
+      { startLat: 10, startLng: 20, endLat: 30, endLng: 40, index: 3 }
+    ])
+    expect(journeyArcs(stops, 2).map(({ index }) => index)).toEqual([2])
+  })
+})
+
+describe('groupJourneys', () => {
+  function session(stationuuid: string, startedAt: number): ListeningSession {
+    const { station, genre, durationMs } = stop(stationuuid, 0, 0)
+    return { id: stationuuid, station, genre, startedAt, endedAt: startedAt + durationMs, durationMs }
+  }
+
+  it('starts a new journey after a long pause, newest first', () => {
+    const gap = 10 * MINUTE_MS + JOURNEY_GAP_MS
+    // History is stored newest first
+    const history = [session('c', 20 * MINUTE_MS + gap), session('b', 10 * MINUTE_MS), session('a', 0)]
+
+    const journeys = groupJourneys(history)
+
+    expect(journeys.map(journey => journey.stops.map(({ station }) => station.stationuuid))).toEqual([['c'], ['a', 'b']])
+    expect(journeys[1]).toMatchObject({ id: '0', startedAt: 0, endedAt: 20 * MINUTE_MS })
+  })
+
+  it('keeps a pause of exactly the gap in the same journey and appends the live station', () => {
+    const history = [session('b', 10 * MINUTE_MS + JOURNEY_GAP_MS), session('a', 0)]
+    const live = stop('live', 0, 0, { startedAt: 20 * MINUTE_MS + JOURNEY_GAP_MS })
+
+    const journeys = groupJourneys(history, live)
+
+    expect(journeys).toHaveLength(1)
+    expect(journeys[0].stops.map(({ station }) => station.stationuuid)).toEqual(['a', 'b', 'live'])
+  })
+})
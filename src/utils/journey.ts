@@ -0,0 +1,126 @@
+import { distanceKm } from './geo'
+import type { ListeningSession } from './listeningHistory'
+import type { Station } from './normalizeStations'
+
+// Listening journeys: runs of stations played one after another, drawn as arcs on the globe
+
+export interface JourneyStop {
+  station: Station
+  genre: string
+  startedAt: number
+  durationMs: number
+}
+
+export interface Journey {
+  // Start time, unique enough to tell journeys apart
+  id: string
+  // Oldest first
+  stops: JourneyStop[]
+  startedAt: number
+  endedAt: number
+}
+
+export interface JourneyArc {
+  startLat: number
+  startLng: number
+  endLat: number
+  endLng: number
+  // Index of the stop the arc arrives at
+  index: number
+}
+
+export interface JourneySummary {
+  countries: string[]
+  distanceKm: number
+  genres: string[]
+  listenedMs: number
+  stations: number
+}
+
+// A pause longer than this starts a new journey
+export const JOURNEY_GAP_MS = 30 * 60 * 1000
+
+// Splits history (newest first, as stored) into journeys, newest first.
+// `live` is the station playing right now, which history only records once it ends.
+export function groupJourneys(sessions: ListeningSession[], live: JourneyStop | null = null): Journey[] {
+  const stops: JourneyStop[] = sessions
+    .map(({ station, genre, startedAt, durationMs }) => ({ station, genre, startedAt, durationMs }))
+    .reverse()
+  if (live) stops.push(live)
+
+  const journeys: Journey[] = []
+  let current: JourneyStop[] = []
+  let lastEnd = -Infinity
+  const close = () => {
+    if (current.length === 0) return
+    const last = current[current.length - 1]
+    journeys.push({
+      id: String(current[0].startedAt),
+      stops: current,
+      startedAt: current[0].startedAt,
+      endedAt: last.startedAt + last.durationMs
+    })
+    current = []
+  }
+
+  for (const stop of stops) {
+    if (stop.startedAt - lastEnd > JOURNEY_GAP_MS) close()
+    current.push(stop)
+    lastEnd = Math.max(lastEnd, stop.startedAt + stop.durationMs)
+  }
+  close()
+  return journeys.reverse()
+}
+
+function samePlace(a: Station, b: Station) {
+  return a.latitude === b.latitude && a.longitude === b.longitude
+}
+
+// Arcs between consecutive stops up to `upTo` (inclusive), skipping hops that don't move
+export function journeyArcs(stops: JourneyStop[], upTo = stops.length - 1): JourneyArc[] {
+  const arcs: JourneyArc[] = []
+  for (let index = 1; index <= Math.min(upTo, stops.length - 1); index++) {
+    const from = stops[index - 1].station
+    const to = stops[index].station
+    if (samePlace(from, to)) continue
+    arcs.push({
+      startLat: from.latitude,
+      startLng: from.longitude,
+      endLat: to.latitude,
+      endLng: to.longitude,
+      index
+    })
+  }
+  return arcs
+}
+
+export function summarizeJourney(stops: JourneyStop[]): JourneySummary {
+  const countries = new Set<string>()
+  const genres = new Map<string, number>()
+  let distance = 0
+  let listenedMs = 0
+
+  stops.forEach((stop, index) => {
+    if (stop.station.country) countries.add(stop.station.country)
+    for (const genre of stop.genre.split(',').map(tag => tag.trim()).filter(Boolean)) {
+      genres.set(genre, (genres.get(genre) ?? 0) + 1)
+    }
+    listenedMs += stop.durationMs
+    if (index > 0) {
+      const previous = stops[index - 1].station
+      distance += distanceKm(
+        { lat: previous.latitude, lng: previous.longitude },
+        { lat: stop.station.latitude, lng: stop.station.longitude }
+      )
+    }
+  })
+
+  return {
+    countries: Array.from(countries),
+    distanceKm: distance,
+    // Most heard first
+    genres: Array.from(genres.entries()).sort((a, b) => b[1] - a[1]).map(([genre]) => genre),
+    listenedMs,
+    stations: new Set(stops.map(stop => stop.station.stationuuid)).size
+  }
+}
@@ -0,0 +1,58 @@
+import { readFile } from 'fs/promises'
+import { fetchStationsByUuids } from './fetchStations'
+import type { RadioBrowserStation } from './fetchStations'
+import { parseStreamUrl } from './streamUrl'
+import { createSwrCache } from './swrCache'
+
+// Server-side lookup of stations by uuid, so the stream routes only connect to
+// URLs Radio Browser lists for a station instead of any URL a client sends
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Stream URLs rarely change; unknown uuids are cached too, as null
+const cache = createSwrCache<RadioBrowserStation | null>({
+  ttlMs: 60 * 60 * 1000,
+  staleMs: 24 * 60 * 60 * 1000,
+  maxEntries: 20000
+})
+
+export function isStationUuid(value: string | null): value is string {
+  return Boolean(value && UUID_PATTERN.test(value))
+}
+
+// Same RADIO_BROWSER_FIXTURE file the stations route serves
+async function loadUpstream(uuids: string[]): Promise<RadioBrowserStation[]> {
+  const fixture = process.env.RADIO_BROWSER_FIXTURE
+  if (fixture) {
+    const stations = JSON.parse(await readFile(fixture, 'utf8')) as RadioBrowserStation[]
+    return stations.filter(station => uuids.includes(station.stationuuid))
+  }
+  return fetchStationsByUuids(uuids)
+}
+
+// Looks up all uncached uuids with a single upstream request
+export async function findKnownStations(uuids: string[]) {
+  const valid = Array.from(new Set(uuids.filter(isStationUuid).map(uuid => uuid.toLowerCase())))
+  let batch: Promise<Map<string, RadioBrowserStation>> | null = null
+  const loadBatch = () => {
+    batch ??= loadUpstream(valid).then(
+      stations => new Map(stations.map(station => [station.stationuuid.toLowerCase(), station]))
+    )
+    return batch
+  }
+
+  const found = new Map<string, RadioBrowserStation>()
+  await Promise.all(valid.map(async uuid => {
+    const { value } = await cache.get(uuid, async () => (await loadBatch()).get(uuid) ?? null)
+    if (value) found.set(uuid, value)
+  }))
+  return found
+}
+
+export async function findKnownStation(uuid: string) {
+  return (await findKnownStations([uuid])).get(uuid.toLowerCase()) ?? null
+}
+
+export function isStationStreamUrl(station: RadioBrowserStation, url: URL) {
+  return [station.url_resolved, station.url].some(known => parseStreamUrl(known)?.href === url.href)
+}
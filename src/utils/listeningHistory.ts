@@ -0,0 +1,70 @@
+import type { Station } from './normalizeStations'
+import { createId, createVersionedStore } from './persistentStore'
+
+export interface ListeningSession {
+  id: string
+  station: Station
+  // Tag the station was found under
+  genre: string
+  startedAt: number
+  endedAt: number
+  // Time actually spent playing, excluding buffering and reconnects
+  durationMs: number
+}
+
+// Sessions are kept newest first
+export interface HistoryState {
+  sessions: ListeningSession[]
+}
+
+export interface StationTotal {
+  station: Station
+  totalMs: number
+  plays: number
+  lastPlayedAt: number
+}
+
+const MAX_SESSIONS = 500
+// Shorter sessions are just hopping between stations and aren't recorded
+export const MIN_SESSION_MS = 5000
+
+export function emptyHistory(): HistoryState {
+  return { sessions: [] }
+}
+
+export const historyStore = createVersionedStore<HistoryState>({
+  key: 'roamfm:history',
+  version: 1,
+  fallback: emptyHistory
+})
+
+export function addSession(state: HistoryState, session: Omit<ListeningSession, 'id'>): HistoryState {
+  if (session.durationMs < MIN_SESSION_MS) return state
+  return {
+    sessions: [{ id: createId(), ...session }, ...state.sessions].slice(0, MAX_SESSIONS)
+  }
+}
+
+export function removeStationHistory(state: HistoryState, stationuuid: string): HistoryState {
+  return { sessions: state.sessions.filter(session => session.station.stationuuid !== stationuuid) }
+}
+
+export function stationTotals(sessions: ListeningSession[]): StationTotal[] {
+  const totals = new Map<string, StationTotal>()
+  for (const session of sessions) {
+    const total = totals.get(session.station.stationuuid)
+    if (total) {
+      total.totalMs += session.durationMs
+      total.plays += 1
+      total.lastPlayedAt = Math.max(total.lastPlayedAt, session.endedAt)
+    } else {
+      totals.set(session.station.stationuuid, {
+        station: session.station,
+        totalMs: session.durationMs,
+        plays: 1,
+        lastPlayedAt: session.endedAt
+      })
+    }
+  }
+  return Array.from(totals.values()).sort((a, b) => b.totalMs - a.totalMs)
+}
@@ -0,0 +1,99 @@
+import type { Station } from './normalizeStations'
+
+// Data layers drawn over the globe instead of (or under) the station points
+
+export type MapLayer = 'points' | 'choropleth' | 'hexbin'
+
+export const MAP_LAYERS: { value: MapLayer; label: string }[] = [
+  { value: 'points', label: 'Stations' },
+  { value: 'choropleth', label: 'Countries' },
+  { value: 'hexbin', label: 'Density' }
+]
+
+// Natural Earth 1:110m country outlines, from the same package as the globe texture
+export const COUNTRIES_GEOJSON_URL = '//unpkg.com/three-globe/example/country-polygons/ne_110m_admin_0_countries.geojson'
+
+export interface CountryFeature {
+  type: 'Feature'
+  properties: {
+    NAME: string
+    ISO_A2: string
+    ISO_A3: string
+  }
+  geometry: object
+}
+
+export interface LegendStop {
+  label: string
+  color: string
+}
+
+// Natural Earth leaves ISO_A2 as -99 for a few countries with overseas territories
+const ISO_A3_TO_A2: Record<string, string> = { FRA: 'FR', NOR: 'NO' }
+
+// Low to high, purple to pink like the rest of the UI
+const COLOR_RAMP: [number, number, number][] = [
+  [49, 46, 129],
+  [124, 58, 237],
+  [192, 38, 211],
+  [236, 72, 153],
+  [253, 186, 116]
+]
+
+export function featureCountryCode(feature: CountryFeature) {
+  const { ISO_A2, ISO_A3 } = feature.properties
+  return ISO_A2 && ISO_A2 !== '-99' ? ISO_A2.toUpperCase() : ISO_A3_TO_A2[ISO_A3] ?? null
+}
+
+let countriesRequest: Promise<CountryFeature[]> | null = null
+
+// Loaded once, on first use of the choropleth
+export function loadCountryFeatures(): Promise<CountryFeature[]> {
+  countriesRequest ??= fetch(COUNTRIES_GEOJSON_URL)
+    .then(res => {
+      if (!res.ok) throw new Error(`Failed to load country outlines: ${res.status}`)
+      return res.json() as Promise<{ features: CountryFeature[] }>
+    })
+    // Antarctica has no stations and covers a lot of screen
+    .then(({ features }) => features.filter(feature => feature.properties.ISO_A2 !== 'AQ'))
+    .catch(error => {
+      countriesRequest = null
+      throw error
+    })
+  return countriesRequest
+}
+
+// Hexagons with this many stations get the top colour; a few capitals would otherwise flatten the scale
+export const HEX_SATURATION = 50
+
+export function countStationsByCountry(stations: Station[]) {
+  const counts = new Map<string, number>()
+  for (const station of stations) {
+    if (!station.countrycode) continue
+    const code = station.countrycode.toUpperCase()
+    counts.set(code, (counts.get(code) ?? 0) + 1)
+  }
+  return counts
+}
+
+// Colour for `value` out of `max`; square root so a few big countries don't wash out the rest
+export function rampColor(value: number, max: number, alpha = 1) {
+  const t = max > 0 ? Math.sqrt(Math.min(Math.max(value / max, 0), 1)) : 0
+  const position = t * (COLOR_RAMP.length - 1)
+  const index = Math.min(Math.floor(position), COLOR_RAMP.length - 2)
+  const mix = position - index
+  const [r, g, b] = COLOR_RAMP[index].map((from, channel) =>
+    Math.round(from + (COLOR_RAMP[index + 1][channel] - from) * mix)
+  )
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`
+}
+
+// Evenly spaced along the colour ramp, for the legend. `saturated` marks a max that larger values are clamped to.
+export function legendStops(max: number, { count = 5, saturated = false } = {}): LegendStop[] {
+  if (max <= 0) return []
+  const values = Array.from({ length: count }, (_, index) => Math.round(max * (index / (count - 1)) ** 2))
+  return Array.from(new Set(values)).map(value => ({
+    label: saturated && value === max ? `${value}+` : String(value),
+    color: rampColor(value, max)
+  }))
+}
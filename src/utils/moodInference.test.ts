@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { describeMoodReasons, inferMood } from './moodInference'
+import type { MoodRule } from './moodInference'
+import type { Station } from './normalizeStations'
+
+function station(fields: Partial<Station>) {
+  return { name: 'Radio', tags: '', language: '', ...fields } as Station
+}
+
+describe('inferMood', () => {
+  it('picks the best scoring mood and explains it', () => {
+    const result = inferMood(station({ name: 'Lounge Cafe', tags: 'chillout,lounge' }), { genre: 'lofi' })
+
+    expect(result.mood).toBe('chill')
+    expect(result.scores.chill).toBe(2 + 1 + 1)
+    expect(result.reasons).toEqual([
+      { mood: 'chill', field: 'tag', keyword: 'chillout', weight: 2 },
+      { mood: 'chill', field: 'name', keyword: 'lounge', weight: 1 },
+      { mood: 'chill', field: 'genre', keyword: 'lofi', weight: 1 }
+    ])
+  })
+
+  it('counts each rule once, however many of its keywords match', () => {
+    const result = inferMood(station({ tags: 'rock,metal,punk' }))
+
+    expect(result.scores.energetic).toBe(2)
+  })
+
+  it('matches whole words only, including keywords ending in punctuation', () => {
+    expect(inferMood(station({ tags: 'rockabilly' })).scores.energetic).toBe(0)
+    expect(inferMood(station({ tags: 'r&b' })).mood).toBe('romantic')
+    expect(inferMood(station({ tags: 'lo-fi beats' })).moods).toContain('focused')
+  })
+
+  it('leaves stations below the threshold without a mood', () => {
+    const result = inferMood(station({ name: 'Calm Radio' }))
+
+    expect(result.scores.relaxed).toBe(1)
+    expect(result).toMatchObject({ mood: null, moods: [], reasons: [] })
+    expect(inferMood(station({ name: 'Calm Radio' }), { threshold: 1 }).mood).toBe('relaxed')
+  })
+
+  it('lists every mood that reached the threshold, best first', () => {
+    const result = inferMood(station({ tags: 'classical,piano', name: 'Study Focus' }))
+
+    expect(result.moods.slice(0, 2)).toEqual(['focused', 'relaxed'])
+  })
+
+  it('applies the selected genres to every station', () => {
+    const plain = station({ name: 'Radio One' })
+
+    const result = inferMood(plain, { genre: ['Jazz', 'blues'], threshold: 1 })
+
+    // Ties keep the order of MOODS
+    expect(result.moods).toEqual(['relaxed', 'nostalgic'])
+    expect(result.scores.romantic).toBe(0.5)
+  })
+
+  it('splits comma separated languages', () => {
+    const result = inferMood(station({ language: 'german, French' }), { threshold: 0.5 })
+
+    expect(result.mood).toBe('romantic')
+  })
+
+  it('uses a custom rule table', () => {
+    const rules: MoodRule[] = [{ mood: 'party', field: 'name', keywords: ['karaoke'], weight: 3 }]
+
+    expect(inferMood(station({ name: 'Karaoke Nights', tags: 'rock' }), { rules }).mood).toBe('party')
+    expect(inferMood(station({ tags: 'rock' }), { rules }).mood).toBeNull()
+  })
+})
+
+describe('describeMoodReasons', () => {
+  it('lists the rule hits with their weights', () => {
+    expect(describeMoodReasons([
+      { mood: 'chill', field: 'tag', keyword: 'lounge', weight: 2 },
+      { mood: 'chill', field: 'genre', keyword: 'lofi', weight: 1 }
+    ])).toBe('tag "lounge" (+2), genre "lofi" (+1)')
+  })
+})
@@ -0,0 +1,152 @@
+import type { Station } from './normalizeStations'
+
+// Radio Browser has no mood field, so moods are inferred from what a station does tell us
+
+export type Mood = 'relaxed' | 'energetic' | 'focused' | 'chill' | 'party' | 'romantic' | 'nostalgic'
+
+export const MOODS: Mood[] = ['relaxed', 'energetic', 'focused', 'chill', 'party', 'romantic', 'nostalgic']
+
+// `genre` is the tag(s) the stations were fetched for, the other fields come from the station itself
+export type MoodField = 'tag' | 'name' | 'language' | 'genre'
+
+export interface MoodRule {
+  mood: Mood
+  field: MoodField
+  // Matched case-insensitively as whole words
+  keywords: string[]
+  weight: number
+}
+
+export interface MoodReason {
+  mood: Mood
+  field: MoodField
+  keyword: string
+  weight: number
+}
+
+export interface MoodInference {
+  // Best scoring mood, null when nothing reached the threshold
+  mood: Mood | null
+  // Every mood that reached the threshold, best first
+  moods: Mood[]
+  scores: Record<Mood, number>
+  // Rule hits that contributed to `mood`
+  reasons: MoodReason[]
+}
+
+export interface MoodInferenceOptions {
+  genre?: string | string[]
+  rules?: MoodRule[]
+  // Minimum score for a mood to apply to a station
+  threshold?: number
+}
+
+export const DEFAULT_MOOD_RULES: MoodRule[] = [
+  { mood: 'relaxed', field: 'tag', keywords: ['ambient', 'easy listening', 'smooth', 'new age', 'acoustic', 'meditation', 'relax', 'relaxing', 'spa', 'piano', 'classical'], weight: 2 },
+  { mood: 'relaxed', field: 'name', keywords: ['relax', 'calm', 'smooth', 'easy', 'zen'], weight: 1 },
+  { mood: 'relaxed', field: 'genre', keywords: ['jazz', 'ambient', 'classical'], weight: 1 },
+
+  { mood: 'energetic', field: 'tag', keywords: ['rock', 'metal', 'punk', 'hard rock', 'drum and bass', 'dnb', 'techno', 'hardstyle', 'workout', 'trance', 'edm'], weight: 2 },
+  { mood: 'energetic', field: 'name', keywords: ['energy', 'power', 'rock', 'metal', 'fitness'], weight: 1 },
+  { mood: 'energetic', field: 'genre', keywords: ['rock', 'electronic', 'hiphop'], weight: 1 },
+
+  { mood: 'focused', field: 'tag', keywords: ['lofi', 'lo-fi', 'study', 'instrumental', 'baroque', 'minimal', 'concentration', 'classical', 'piano'], weight: 2 },
+  { mood: 'focused', field: 'name', keywords: ['focus', 'study', 'lofi', 'lo-fi', 'work'], weight: 1 },
+  { mood: 'focused', field: 'genre', keywords: ['lofi', 'classical', 'ambient'], weight: 1 },
+
+  { mood: 'chill', field: 'tag', keywords: ['chillout', 'chill', 'lounge', 'downtempo', 'chillhop', 'trip hop', 'dub', 'reggae', 'bossa nova', 'lofi'], weight: 2 },
+  { mood: 'chill', field: 'name', keywords: ['chill', 'lounge', 'cafe', 'beach'], weight: 1 },
+  { mood: 'chill', field: 'genre', keywords: ['lofi', 'ambient'], weight: 1 },
+
+  { mood: 'party', field: 'tag', keywords: ['dance', 'house', 'disco', 'club', 'edm', 'hits', 'top 40', 'party', 'reggaeton', 'latin', 'hip hop', 'hiphop', 'rap', 'pop'], weight: 2 },
+  { mood: 'party', field: 'name', keywords: ['party', 'club', 'dance', 'hits', 'fiesta'], weight: 1 },
+  { mood: 'party', field: 'genre', keywords: ['electronic', 'hiphop'], weight: 1 },
+
+  { mood: 'romantic', field: 'tag', keywords: ['love songs', 'romantic', 'ballads', 'soul', 'r&b', 'rnb', 'bolero', 'chanson', 'bossa nova', 'slow'], weight: 2 },
+  { mood: 'romantic', field: 'name', keywords: ['love', 'romance', 'romantic', 'amor', 'amour'], weight: 1 },
+  { mood: 'romantic', field: 'language', keywords: ['french', 'italian', 'portuguese', 'spanish'], weight: 0.5 },
+  { mood: 'romantic', field: 'genre', keywords: ['jazz', 'blues'], weight: 0.5 },
+
+  { mood: 'nostalgic', field: 'tag', keywords: ['oldies', 'classic rock', 'classic hits', 'retro', '50s', '60s', '70s', '80s', '90s', 'golden', 'vintage', 'swing', 'big band'], weight: 2 },
+  { mood: 'nostalgic', field: 'name', keywords: ['oldies', 'retro', 'classic', 'gold', 'memories', '60s', '70s', '80s', '90s'], weight: 1 },
+  { mood: 'nostalgic', field: 'genre', keywords: ['blues', 'jazz'], weight: 1 }
+]
+
+interface CompiledRule {
+  rule: MoodRule
+  matchers: { keyword: string; pattern: RegExp }[]
+}
+
+const compiledRules = new WeakMap<MoodRule[], CompiledRule[]>()
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Compile each rule table once; `\b` alone doesn't handle keywords like "r&b" or "lo-fi" ending in punctuation
+function compile(rules: MoodRule[]) {
+  let compiled = compiledRules.get(rules)
+  if (!compiled) {
+    compiled = rules.map(rule => ({
+      rule,
+      matchers: rule.keywords.map(keyword => ({
+        keyword,
+        pattern: new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword.toLowerCase())}($|[^a-z0-9])`)
+      }))
+    }))
+    compiledRules.set(rules, compiled)
+  }
+  return compiled
+}
+
+function fieldValues(station: Station, field: MoodField, genre?: string | string[]) {
+  switch (field) {
+    case 'tag':
+      return station.tags.toLowerCase().split(',').map(tag => tag.trim()).filter(Boolean)
+    case 'name':
+      return [station.name.toLowerCase()]
+    case 'language':
+      return station.language.toLowerCase().split(',').map(language => language.trim()).filter(Boolean)
+    case 'genre':
+      return (Array.isArray(genre) ? genre : genre ? [genre] : []).map(value => value.toLowerCase())
+  }
+}
+
+function emptyScores() {
+  return Object.fromEntries(MOODS.map(mood => [mood, 0])) as Record<Mood, number>
+}
+
+export function inferMood(
+  station: Station,
+  { genre, rules = DEFAULT_MOOD_RULES, threshold = 2 }: MoodInferenceOptions = {}
+): MoodInference {
+  const scores = emptyScores()
+  const hits: MoodReason[] = []
+
+  for (const { rule, matchers } of compile(rules)) {
+    const values = fieldValues(station, rule.field, genre)
+    // Each rule counts once per station, however many of its keywords match
+    const match = matchers.find(({ pattern }) => values.some(value => pattern.test(value)))
+    if (match) {
+      scores[rule.mood] += rule.weight
+      hits.push({ mood: rule.mood, field: rule.field, keyword: match.keyword, weight: rule.weight })
+    }
+  }
+
+  const moods = MOODS
+    .filter(mood => scores[mood] >= threshold)
+    .sort((a, b) => scores[b] - scores[a])
+  const mood = moods[0] ?? null
+
+  return {
+    mood,
+    moods,
+    scores,
+    reasons: hits.filter(hit => hit.mood === mood)
+  }
+}
+
+// Human readable explanation, e.g. `tag "lounge" (+2), genre "lofi" (+1)`
+export function describeMoodReasons(reasons: MoodReason[]) {
+  return reasons.map(({ field, keyword, weight }) => `${field} "${keyword}" (+${weight})`).join(', ')
+}
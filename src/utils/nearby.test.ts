@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { distanceKm } from './geo'
+import { altitudeForRadius, circlePoints, stationsWithin } from './nearby'
+import type { Station } from './normalizeStations'
+
+function station(stationuuid: string, latitude: number, longitude: number) {
+  return { stationuuid, latitude, longitude } as Station
+}
+
+describe('stationsWithin', () => {
+  it('keeps stations inside the radius, closest first', () => {
+    const paris = { lat: 48.8566, lng: 2.3522 }
+    const stations = [station('lyon', 45.764, 4.8357), station('versailles', 48.8049, 2.1204), station('rouen', 49.4432, 1.0999)]
+
+    const nearby = stationsWithin(stations, paris, 200)
+
+    expect(nearby.map(({ station }) => station.stationuuid)).toEqual(['versailles', 'rouen'])
+    expect(nearby[0].distanceKm).toBeCloseTo(17.6, 0)
+  })
+
+  it('includes stations exactly on the radius', () => {
+    // One degree along the equator
+    const edge = distanceKm({ lat: 0, lng: 0 }, { lat: 0, lng: 1 })
+
+    expect(stationsWithin([station('edge', 0, 1)], { lat: 0, lng: 0 }, edge)).toHaveLength(1)
+  })
+
+  it('measures across the antimeridian and over the poles', () => {
+    const stations = [station('samoa', 0, -179), station('far-side', 89, 180)]
+
+    expect(stationsWithin(stations, { lat: 0, lng: 179 }, 250).map(({ station }) => station.stationuuid)).toEqual(['samoa'])
+    expect(stationsWithin(stations, { lat: 89, lng: 0 }, 250).map(({ station }) => station.stationuuid)).toEqual(['far-side'])
+  })
+})
+
+describe('circlePoints', () => {
+  it('returns a closed ring of points at the radius', () => {
+    const center = { lat: 60, lng: 170 }
+
+    const points = circlePoints(center, 500, 12)
+
+    expect(points).toHaveLength(13)
+    expect(points[12].lat).toBeCloseTo(points[0].lat, 6)
+    expect(points[12].lng).toBeCloseTo(points[0].lng, 6)
+    for (const point of points) {
+      expect(distanceKm(center, point)).toBeCloseTo(500, 6)
+      expect(point.lng).toBeGreaterThanOrEqual(-180)
+      expect(point.lng).toBeLessThan(180)
+    }
+  })
+})
+
+describe('altitudeForRadius', () => {
+  it('scales with the radius within the camera limits', () => {
+    expect(altitudeForRadius(25)).toBe(0.15)
+    expect(altitudeForRadius(750)).toBe(0.5)
+    expect(altitudeForRadius(10000)).toBe(2.5)
+  })
+})
@@ -0,0 +1,56 @@
+import { destinationPoint, distanceKm } from './geo'
+import type { LatLng } from './geo'
+import type { Station } from './normalizeStations'
+
+// "Near me": stations within a radius of the user's position or a pin they dropped
+
+export interface NearbyOrigin extends LatLng {
+  source: 'geolocation' | 'pin'
+}
+
+export interface NearbyStation {
+  station: Station
+  distanceKm: number
+}
+
+export const RADIUS_OPTIONS_KM = [25, 50, 100, 250, 500, 1000]
+export const DEFAULT_RADIUS_KM = 100
+
+// Closest first
+export function stationsWithin(stations: Station[], origin: LatLng, radiusKm: number): NearbyStation[] {
+  return stations
+    .map(station => ({ station, distanceKm: distanceKm(origin, { lat: station.latitude, lng: station.longitude }) }))
+    .filter(({ distanceKm: distance }) => distance <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+}
+
+// Closed ring of points at `radiusKm` around `center`, for drawing the radius
+export function circlePoints(center: LatLng, radiusKm: number, segments = 90): LatLng[] {
+  return Array.from({ length: segments + 1 }, (_, index) => destinationPoint(center, (index / segments) * 360, radiusKm))
+}
+
+// Camera altitude (in globe radii) that fits the whole circle on screen
+export function altitudeForRadius(radiusKm: number) {
+  return Math.min(Math.max(radiusKm / 1500, 0.15), 2.5)
+}
+
+const GEOLOCATION_ERRORS: Record<number, string> = {
+  1: 'Location permission was denied',
+  2: 'Your location is unavailable',
+  3: 'Finding your location timed out'
+}
+
+export function locateUser(): Promise<LatLng> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new Error('This browser cannot share its location'))
+      return
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ lat: coords.latitude, lng: coords.longitude }),
+      error => reject(new Error(GEOLOCATION_ERRORS[error.code] ?? 'Could not find your location')),
+      // City-level accuracy is plenty for a radius in kilometres
+      { enableHighAccuracy: false, timeout: 10 * 1000, maximumAge: 10 * 60 * 1000 }
+    )
+  })
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import type { RadioBrowserStation } from './fetchStations'
+import { dedupeStations, normalizeStation, normalizeStations } from './normalizeStations'
+import type { Station, StationSource } from './normalizeStations'
+
+function rawStation(overrides: Partial<StationSource> = {}): StationSource {
+  return {
+    stationuuid: 'a',
+    name: 'Test FM',
+    url: 'https://stream.example/live',
+    url_resolved: 'https://stream.example/live',
+    homepage: '',
+    favicon: '',
+    tags: 'rock',
+    country: 'Germany',
+    countrycode: 'DE',
+    state: '',
+    language: 'german',
+    codec: 'MP3',
+    bitrate: 128,
+    hls: 0,
+    lastcheckok: 1,
+    lastchecktime: '2024-01-01 00:00:00',
+    lastchecktime_iso8601: '2024-01-01T00:00:00Z',
+    votes: 0,
+    clickcount: 0,
+    clicktrend: 0,
+    geo_lat: 52.52,
+    geo_long: 13.405,
+    ...overrides
+  }
+}
+
+function station(stationuuid: string, overrides: Partial<StationSource> = {}) {
+  return normalizeStation(rawStation({ stationuuid, ...overrides })) as Station
+}
+
+describe('normalizeStation', () => {
+  it('parses coordinates sent as strings and trims the name', () => {
+    const raw = rawStation({ name: '  Test FM ', geo_lat: '52.5' as unknown as number, geo_long: '-0.1' as unknown as number })
+    expect(normalizeStation(raw)).toMatchObject({ name: 'Test FM', latitude: 52.5, longitude: -0.1 })
+  })
+
+  it('drops stations without usable coordinates', () => {
+    expect(normalizeStation(rawStation({ geo_lat: null as unknown as number }))).toBeNull()
+    expect(normalizeStation(rawStation({ geo_long: 'n/a' as unknown as number }))).toBeNull()
+    expect(normalizeStation(rawStation({ geo_lat: 91 }))).toBeNull()
+    expect(normalizeStation(rawStation({ geo_long: -180.5 }))).toBeNull()
+  })
+
+  it('keeps stations on the equator and the prime meridian', () => {
+    expect(normalizeStation(rawStation({ geo_lat: 0, geo_long: 0 }))).toMatchObject({ latitude: 0, longitude: 0 })
+  })
+
+  it('prefers the ISO check time and falls back to the plain one', () => {
+    expect(normalizeStation(rawStation())?.lastchecktime).toBe('2024-01-01T00:00:00Z')
+    expect(normalizeStation(rawStation({ lastchecktime_iso8601: null }))?.lastchecktime).toBe('2024-01-01 00:00:00')
+    expect(normalizeStation(rawStation({ lastchecktime_iso8601: null, lastchecktime: '' }))?.lastchecktime).toBeNull()
+  })
+})
+
+describe('dedupeStations', () => {
+  it('drops repeated uuids, keeping the first', () => {
+    const first = station('a', { name: 'First' })
+    const again = station('a', { name: 'Again', geo_lat: 10 })
+
+    expect(dedupeStations([first, again])).toEqual([first])
+  })
+
+  it('treats stations with the same name and position as duplicates, keeping the most voted', () => {
+    const fewer = station('a', { votes: 1 })
+    const more = station('b', { votes: 5, name: 'TEST FM' })
+    const elsewhere = station('c', { votes: 0, geo_lat: 48.1 })
+
+    expect(dedupeStations([fewer, more, elsewhere]).map(({ stationuuid }) => stationuuid)).toEqual(['b', 'c'])
+    expect(dedupeStations([more, fewer, elsewhere]).map(({ stationuuid }) => stationuuid)).toEqual(['b', 'c'])
+  })
+
+  it('keeps the first of duplicates with equal votes', () => {
+    expect(dedupeStations([station('a'), station('b')]).map(({ stationuuid }) => stationuuid)).toEqual(['a'])
+  })
+
+  it('compares positions to four decimals', () => {
+    const a = station('a', { geo_lat: 52.52001 })
+    const b = station('b', { geo_lat: 52.52004 })
+    const c = station('c', { geo_lat: 52.5202 })
+
+    expect(dedupeStations([a, b, c]).map(({ stationuuid }) => stationuuid)).toEqual(['a', 'c'])
+  })
+})
+
+describe('normalizeStations', () => {
+  it('normalizes, drops unplaceable stations and dedupes', () => {
+    const raw = [
+      rawStation({ stationuuid: 'a' }),
+      rawStation({ stationuuid: 'b', geo_lat: null as unknown as number }),
+      rawStation({ stationuuid: 'c' })
+    ]
+
+    expect(normalizeStations(raw as RadioBrowserStation[]).map(({ stationuuid }) => stationuuid)).toEqual(['a'])
+  })
+})
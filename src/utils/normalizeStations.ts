@@ -0,0 +1,102 @@
+import type { RadioBrowserStation } from './fetchStations'
+
+// Compact station shape served by /api/stations: only the fields the app uses,
+// with coordinates parsed into numbers
+export interface Station {
+  stationuuid: string
+  name: string
+  url: string
+  url_resolved: string
+  homepage: string
+  favicon: string
+  tags: string
+  country: string
+  countrycode: string
+  state: string
+  language: string
+  codec: string
+  bitrate: number
+  hls: number
+  lastcheckok: number
+  lastchecktime: string | null
+  votes: number
+  clickcount: number
+  clicktrend: number
+  latitude: number
+  longitude: number
+}
+
+function parseCoordinate(value: unknown) {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value))
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// The Radio Browser fields a Station is built from
+export type StationSource = Pick<
+  RadioBrowserStation,
+  | 'stationuuid' | 'name' | 'url' | 'url_resolved' | 'homepage' | 'favicon' | 'tags' | 'country'
+  | 'countrycode' | 'state' | 'language' | 'codec' | 'bitrate' | 'hls' | 'lastcheckok' | 'lastchecktime'
+  | 'lastchecktime_iso8601' | 'votes' | 'clickcount' | 'clicktrend' | 'geo_lat' | 'geo_long'
+>
+
+// Returns null for stations without usable coordinates, since they can't be placed on the globe
+export function normalizeStation(raw: StationSource): Station | null {
+  const latitude = parseCoordinate(raw.geo_lat)
+  const longitude = parseCoordinate(raw.geo_long)
+  if (latitude === null || longitude === null) return null
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null
+
+  return {
+    stationuuid: raw.stationuuid,
+    name: raw.name.trim(),
+    url: raw.url,
+    url_resolved: raw.url_resolved,
+    homepage: raw.homepage,
+    favicon: raw.favicon,
+    tags: raw.tags,
+    country: raw.country,
+    countrycode: raw.countrycode,
+    state: raw.state,
+    language: raw.language,
+    codec: raw.codec,
+    bitrate: raw.bitrate,
+    hls: raw.hls,
+    lastcheckok: raw.lastcheckok,
+    lastchecktime: raw.lastchecktime_iso8601 ?? (raw.lastchecktime || null),
+    votes: raw.votes,
+    clickcount: raw.clickcount,
+    clicktrend: raw.clicktrend,
+    latitude,
+    longitude
+  }
+}
+
+// Radio Browser lists the same station several times under different uuids,
+// so stations sharing a name and position count as duplicates too
+function duplicateKey(station: Station) {
+  return `${station.name.toLowerCase()}|${station.latitude.toFixed(4)}|${station.longitude.toFixed(4)}`
+}
+
+export function dedupeStations(stations: Station[]): Station[] {
+  const byUuid = new Map<string, Station>()
+  const byKey = new Map<string, Station>()
+
+  for (const station of stations) {
+    if (byUuid.has(station.stationuuid)) continue
+
+    const key = duplicateKey(station)
+    const existing = byKey.get(key)
+    // Keep the most voted entry of a duplicate group
+    if (existing && existing.votes >= station.votes) continue
+    if (existing) byUuid.delete(existing.stationuuid)
+
+    byKey.set(key, station)
+    byUuid.set(station.stationuuid, station)
+  }
+
+  return Array.from(byUuid.values())
+}
+
+export function normalizeStations(raw: RadioBrowserStation[]): Station[] {
+  return dedupeStations(raw.map(normalizeStation).filter((station): station is Station => station !== null))
+}
@@ -0,0 +1,91 @@
+// Versioned JSON persistence in localStorage
+
+// Upgrades data stored under version N to version N + 1
+export type Migration = (data: unknown) => unknown
+
+export interface VersionedStoreOptions<T> {
+  key: string
+  version: number
+  fallback: () => T
+  migrations?: Record<number, Migration>
+}
+
+export interface VersionedStore<T> {
+  key: string
+  load(): T
+  save(data: T): void
+  // Brings data written by any older version up to date, or returns null if that isn't possible
+  migrate(version: number, data: unknown): T | null
+}
+
+interface Envelope {
+  version: number
+  data: unknown
+}
+
+// Id for records created on this device
+export function createId() {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+function getStorage() {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null
+  } catch {
+    return null
+  }
+}
+
+export function createVersionedStore<T>({
+  key,
+  version,
+  fallback,
+  migrations = {}
+}: VersionedStoreOptions<T>): VersionedStore<T> {
+  function migrate(fromVersion: number, data: unknown): T | null {
+    if (fromVersion > version) {
+      console.warn(`${key} was written by a newer version (${fromVersion}), ignoring it`)
+      return null
+    }
+    let current = data
+    for (let v = fromVersion; v < version; v++) {
+      const step = migrations[v]
+      if (!step) {
+        console.warn(`No migration for ${key} from version ${v}`)
+        return null
+      }
+      current = step(current)
+    }
+    return current as T
+  }
+
+  return {
+    key,
+    load() {
+      const storage = getStorage()
+      if (!storage) return fallback()
+      try {
+        const raw = storage.getItem(key)
+        if (!raw) return fallback()
+        const envelope = JSON.parse(raw) as Envelope
+        return migrate(envelope.version, envelope.data) ?? fallback()
+      } catch (error) {
+        console.warn(`Ignoring unreadable ${key}:`, error)
+        return fallback()
+      }
+    },
+    save(data) {
+      const storage = getStorage()
+      if (!storage) return
+      try {
+        storage.setItem(key, JSON.stringify({ version, data } satisfies Envelope))
+      } catch (error) {
+        console.warn(`Failed to persist ${key}:`, error)
+      }
+    },
+    migrate
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { parseM3U, parsePLS, parsePlaylist, toM3U, toPLS } from './playlists'
+
+const entries = [
+  { name: 'Jazz FM', url: 'https://jazz.example/live', stationuuid: '96062a7b-0601-11e8-ae97-52543be04c81' },
+  { name: 'Lounge, Bar & Grill', url: 'http://lounge.example:8000/stream.mp3' }
+]
+
+describe('M3U', () => {
+  it('round-trips names, URLs and station uuids', () => {
+    expect(parseM3U(toM3U(entries))).toEqual([entries[0], { ...entries[1], stationuuid: undefined }])
+  })
+
+  it('reads plain lists, CRLF line endings and unknown directives', () => {
+    const text = '#EXTM3U\r\n#EXTINF:-1 tvg-id="x",Named\r\n#EXTVLCOPT:network-caching=1000\r\nhttps://a.example/\r\n\r\nhttps://b.example/\r\n'
+
+    expect(parseM3U(text)).toEqual([
+      { name: 'Named', url: 'https://a.example/', stationuuid: undefined },
+      // Without #EXTINF the URL is the name
+      { name: 'https://b.example/', url: 'https://b.example/', stationuuid: undefined }
+    ])
+  })
+
+  it('does not carry a name or uuid over to the next entry', () => {
+    const text = '#EXTINF:-1,First\n#RADIOBROWSERUUID:abc\nhttps://a.example/\nhttps://b.example/\n'
+
+    expect(parseM3U(text)[1]).toEqual({ name: 'https://b.example/', url: 'https://b.example/', stationuuid: undefined })
+  })
+})
+
+describe('PLS', () => {
+  it('round-trips names and URLs', () => {
+    const text = toPLS(entries)
+
+    expect(text).toContain('NumberOfEntries=2')
+    expect(parsePLS(text)).toEqual(entries.map(({ name, url }) => ({ name, url })))
+  })
+
+  it('orders entries by number and falls back to the URL without a title', () => {
+    const text = '[playlist]\nfile2=https://b.example/\ntitle2=B\nFile1=https://a.example/\nNumberOfEntries=2\n'
+
+    expect(parsePLS(text)).toEqual([
+      { name: 'https://a.example/', url: 'https://a.example/' },
+      { name: 'B', url: 'https://b.example/' }
+    ])
+  })
+})
+
+describe('parsePlaylist', () => {
+  it('tells PLS from M3U by the [playlist] header', () => {
+    expect(parsePlaylist('  [Playlist]\nFile1=https://a.example/\n')).toEqual([{ name: 'https://a.example/', url: 'https://a.example/' }])
+    expect(parsePlaylist('https://a.example/\n')).toEqual([
+      { name: 'https://a.example/', url: 'https://a.example/', stationuuid: undefined }
+    ])
+  })
+})
@@ -0,0 +1,78 @@
+// M3U and PLS playlist reading and writing
+
+export interface PlaylistEntry {
+  name: string
+  url: string
+  // Radio Browser uuid, written to M3U files so they can be re-imported without a lookup
+  stationuuid?: string
+}
+
+const UUID_DIRECTIVE = '#RADIOBROWSERUUID:'
+
+export function toM3U(entries: PlaylistEntry[]) {
+  const lines = ['#EXTM3U']
+  for (const entry of entries) {
+    lines.push(`#EXTINF:-1,${entry.name}`)
+    if (entry.stationuuid) lines.push(`${UUID_DIRECTIVE}${entry.stationuuid}`)
+    lines.push(entry.url)
+  }
+  return `${lines.join('\n')}\n`
+}
+
+export function toPLS(entries: PlaylistEntry[]) {
+  const lines = ['[playlist]']
+  entries.forEach((entry, index) => {
+    const n = index + 1
+    lines.push(`File${n}=${entry.url}`, `Title${n}=${entry.name}`, `Length${n}=-1`)
+  })
+  lines.push(`NumberOfEntries=${entries.length}`, 'Version=2')
+  return `${lines.join('\n')}\n`
+}
+
+export function parseM3U(text: string): PlaylistEntry[] {
+  const entries: PlaylistEntry[] = []
+  let name: string | null = null
+  let stationuuid: string | undefined
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line) continue
+    if (line.startsWith('#EXTINF:')) {
+      const comma = line.indexOf(',')
+      name = comma >= 0 ? line.slice(comma + 1).trim() : null
+    } else if (line.startsWith(UUID_DIRECTIVE)) {
+      stationuuid = line.slice(UUID_DIRECTIVE.length).trim() || undefined
+    } else if (!line.startsWith('#')) {
+      entries.push({ name: name || line, url: line, stationuuid })
+      name = null
+      stationuuid = undefined
+    }
+  }
+
+  return entries
+}
+
+export function parsePLS(text: string): PlaylistEntry[] {
+  const files = new Map<number, string>()
+  const titles = new Map<number, string>()
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const match = rawLine.trim().match(/^(File|Title)(\d+)=(.*)$/i)
+    if (!match) continue
+    const [, field, index, value] = match
+    const target = field.toLowerCase() === 'file' ? files : titles
+    target.set(Number(index), value.trim())
+  }
+
+  return Array.from(files.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([index, url]) => ({ name: titles.get(index) || url, url }))
+}
+
+export function isPLS(text: string) {
+  return /^\s*\[playlist\]/i.test(text)
+}
+
+export function parsePlaylist(text: string) {
+  return isPLS(text) ? parsePLS(text) : parseM3U(text)
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { fetchPublic, isBlockedAddress } from './publicFetch'
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('isBlockedAddress', () => {
+  it('allows public addresses', () => {
+    expect(isBlockedAddress('8.8.8.8')).toBe(false)
+    expect(isBlockedAddress('2606:4700:4700::1111')).toBe(false)
+  })
+
+  it('blocks private, loopback and unspecified IPv4 addresses', () => {
+    for (const address of ['10.1.2.3', '172.31.255.255', '192.168.0.1', '127.0.0.1', '0.0.0.0', '100.64.0.1']) {
+      expect(isBlockedAddress(address), address).toBe(true)
+    }
+  })
+
+  it('blocks link-local addresses, including cloud metadata services', () => {
+    expect(isBlockedAddress('169.254.169.254')).toBe(true)
+    expect(isBlockedAddress('fe80::1')).toBe(true)
+    expect(isBlockedAddress('fd00:ec2::254')).toBe(true)
+  })
+
+  it('blocks IPv4-mapped IPv6 addresses by their IPv4 range', () => {
+    expect(isBlockedAddress('::ffff:127.0.0.1')).toBe(true)
+    expect(isBlockedAddress('::ffff:a9fe:a9fe')).toBe(true)
+    expect(isBlockedAddress('::ffff:8.8.8.8')).toBe(false)
+  })
+
+  it('blocks IPv6 loopback and unspecified addresses', () => {
+    expect(isBlockedAddress('::1')).toBe(true)
+    expect(isBlockedAddress('::')).toBe(true)
+  })
+
+  it('blocks anything that is not an IP address', () => {
+    expect(isBlockedAddress('localhost')).toBe(true)
+    expect(isBlockedAddress('')).toBe(true)
+  })
+})
+
+describe('fetchPublic', () => {
+  it('refuses private hosts and other protocols without connecting', async () => {
+    const fetch = vi.fn()
+    vi.stubGlobal('fetch', fetch)
+
+    await expect(fetchPublic('http://127.0.0.1:3000/')).rejects.toThrow('not a public address')
+    await expect(fetchPublic('http://[::ffff:127.0.0.1]/')).rejects.toThrow('not a public address')
+    await expect(fetchPublic('file:///etc/passwd')).rejects.toThrow('Refusing to fetch file: URL')
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('checks every redirect hop', async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } }))
+    vi.stubGlobal('fetch', fetch)
+
+    await expect(fetchPublic('http://8.8.8.8/stream')).rejects.toThrow('not a public address')
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('follows redirects between public hosts', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: '/live' } }))
+      .mockResolvedValueOnce(new Response('audio'))
+    vi.stubGlobal('fetch', fetch)
+
+    const res = await fetchPublic('http://8.8.8.8/stream')
+
+    expect(await res.text()).toBe('audio')
+    expect(fetch.mock.calls[1][0]).toEqual(new URL('http://8.8.8.8/live'))
+  })
+
+  it('gives up after too many redirects', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 307, headers: { location: '/again' } })))
+
+    await expect(fetchPublic('http://8.8.8.8/')).rejects.toThrow('Too many redirects')
+  })
+})
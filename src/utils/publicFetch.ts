@@ -0,0 +1,66 @@
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+
+// Server-side fetch for stream URLs, which come from clients and from station
+// listings anyone can submit. It only connects to public addresses, so our
+// routes can't be pointed at localhost, the LAN or cloud metadata services,
+// and it follows redirects itself so every hop gets the same check.
+
+const MAX_REDIRECTS = 5
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+
+const blocked = new BlockList()
+// IPv4: "this network", private, carrier-grade NAT, loopback, link-local (incl.
+// 169.254.169.254), IETF protocol assignments, benchmarking, multicast and reserved
+blocked.addSubnet('0.0.0.0', 8, 'ipv4')
+blocked.addSubnet('10.0.0.0', 8, 'ipv4')
+blocked.addSubnet('100.64.0.0', 10, 'ipv4')
+blocked.addSubnet('127.0.0.0', 8, 'ipv4')
+blocked.addSubnet('169.254.0.0', 16, 'ipv4')
+blocked.addSubnet('172.16.0.0', 12, 'ipv4')
+blocked.addSubnet('192.0.0.0', 24, 'ipv4')
+blocked.addSubnet('192.168.0.0', 16, 'ipv4')
+blocked.addSubnet('198.18.0.0', 15, 'ipv4')
+blocked.addSubnet('224.0.0.0', 3, 'ipv4')
+// IPv6: unspecified, loopback, unique local (incl. fd00:ec2::254), link-local and multicast
+blocked.addAddress('::', 'ipv6')
+blocked.addAddress('::1', 'ipv6')
+blocked.addSubnet('fc00::', 7, 'ipv6')
+blocked.addSubnet('fe80::', 10, 'ipv6')
+blocked.addSubnet('ff00::', 8, 'ipv6')
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 ranges
+export function isBlockedAddress(address: string) {
+  const family = isIP(address)
+  if (family === 0) return true
+  return blocked.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+async function assertPublicUrl(url: URL) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Refusing to fetch ${url.protocol} URL`)
+  }
+  // URL keeps the brackets around IPv6 literals
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1')
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true, verbatim: true })).map(({ address }) => address)
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new Error(`Refusing to connect to ${url.hostname}, it is not a public address`)
+  }
+}
+
+// fetch() that rejects non-public hosts, here and after each redirect
+export async function fetchPublic(url: string | URL, init: RequestInit = {}): Promise<Response> {
+  let target = new URL(url)
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(target)
+    const res = await fetch(target, { ...init, redirect: 'manual' })
+    const location = res.headers.get('location')
+    if (!REDIRECT_STATUSES.includes(res.status) || !location) return res
+
+    await res.body?.cancel()
+    if (redirects >= MAX_REDIRECTS) throw new Error('Too many redirects')
+    target = new URL(location, target)
+  }
+}
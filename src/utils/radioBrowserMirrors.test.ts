@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMirrorManager } from './radioBrowserMirrors'
+import type { MirrorManagerOptions, MirrorStorage } from './radioBrowserMirrors'
+
+const A = 'https://a.example'
+const B = 'https://b.example'
+const C = 'https://c.example'
+
+// How a fake mirror answers: after `delayMs`, with `status` and `body`, or never
+interface FakeReply {
+  delayMs?: number
+  status?: number
+  body?: unknown
+  hang?: boolean
+}
+
+interface FakeCall {
+  url: string
+  signal: AbortSignal
+}
+
+// fetch() stand-in that answers per mirror on the (fake) timers and honours aborts
+function createFakeFetch(replies: Record<string, FakeReply | (() => FakeReply)>) {
+  const calls: FakeCall[] = []
+  const fetchImpl = ((input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input)
+    const signal = init?.signal as AbortSignal
+    calls.push({ url, signal })
+    const server = Object.keys(replies).find(base => url.startsWith(base))
+    const entry = server ? replies[server] : { status: 404 }
+    const reply = typeof entry === 'function' ? entry() : entry
+
+    return new Promise<Response>((resolve, reject) => {
+      const timer = reply.hang
+        ? undefined
+        : setTimeout(() => {
+          resolve(new Response(JSON.stringify(reply.body ?? { server }), { status: reply.status ?? 200 }))
+        }, reply.delayMs ?? 0)
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer)
+        reject(new DOMException('Aborted', 'AbortError'))
+      })
+    })
+  }) as typeof fetch
+  return { fetchImpl, calls }
+}
+
+function createMemoryStorage(): MirrorStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    }
+  }
+}
+
+// Settles `promise` while running the fake timers, and returns how it settled
+async function settle<T>(promise: Promise<T>, ms = 10000) {
+  const outcome = promise.then(
+    value => ({ value, error: null }),
+    (error: Error) => ({ value: null, error })
+  )
+  await vi.advanceTimersByTimeAsync(ms)
+  return outcome
+}
+
+function manager(fetchImpl: typeof fetch, options: Partial<MirrorManagerOptions> = {}) {
+  return createMirrorManager({
+    seedServers: [A, B, C],
+    discover: false,
+    storage: null,
+    timeoutMs: 1000,
+    hedgeDelayMs: 100,
+    failureThreshold: 2,
+    cooldownMs: 5000,
+    fetchImpl,
+    now: () => Date.now(),
+    ...options
+  })
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('hedged requests', () => {
+  it('only asks one mirror when it answers before the hedge delay', async () => {
+    const { fetchImpl, calls } = createFakeFetch({ [A]: { delayMs: 50 }, [B]: {}, [C]: {} })
+    const { value } = await settle(manager(fetchImpl).request('/json/tags'))
+
+    expect(value).toEqual({ server: A })
+    expect(calls.map(call => call.url)).toEqual([`${A}/json/tags`])
+  })
+
+  it('asks the next mirror when the first is slow, and cancels the loser', async () => {
+    const { fetchImpl, calls } = createFakeFetch({ [A]: { delayMs: 500 }, [B]: { delayMs: 50 }, [C]: {} })
+    const { value } = await settle(manager(fetchImpl).request('/json/tags'))
+
+    expect(value).toEqual({ server: B })
+    expect(calls.map(call => call.url)).toEqual([`${A}/json/tags`, `${B}/json/tags`])
+    expect(calls[0].signal.aborted).toBe(true)
+  })
+
+  it('fails over straight away when a mirror errors', async () => {
+    const { fetchImpl, calls } = createFakeFetch({ [A]: { status: 500 }, [B]: { delayMs: 10 }, [C]: {} })
+    const { value } = await settle(manager(fetchImpl, { hedgeDelayMs: 5000 }).request('/json/tags'))
+
+    expect(value).toEqual({ server: B })
+    expect(calls).toHaveLength(2)
+  })
+
+  it('rejects once every mirror has failed', async () => {
+    const { fetchImpl, calls } = createFakeFetch({ [A]: { status: 500 }, [B]: { status: 502 }, [C]: { hang: true } })
+    const { error } = await settle(manager(fetchImpl).request('/json/tags'))
+
+    expect(error?.message).toBe('All Radio Browser API servers failed to respond')
+    expect(calls).toHaveLength(3)
+  })
+
+  it('rejects right away without any mirrors', async () => {
+    const { fetchImpl, calls } = createFakeFetch({})
+    const { error } = await settle(manager(fetchImpl, { seedServers: [] }).request('/json/tags'), 0)
+
+    expect(error?.message).toBe('No Radio Browser API servers to ask')
+    expect(calls).toHaveLength(0)
+  })
+
+  it('sends side-effecting requests to one mirror at a time', async () => {
+    const { fetchImpl, calls } = createFakeFetch({ [A]: { delayMs: 500 }, [B]: {}, [C]: {} })
+    const { value } = await settle(manager(fetchImpl).request('/json/vote/x', { hedge: false }))
+
+    expect(value).toEqual({ server: A })
+    expect(calls).toHaveLength(1)
+  })
+
+  it('does not retry a side-effecting request that timed out', async () => {
+    const { fetchImpl, calls } = createFakeFetch({ [A]: { hang: true }, [B]: {}, [C]: {} })
+    const { error } = await settle(manager(fetchImpl).request('/json/vote/x', { hedge: false }))
+
+    expect(error?.message).toMatch(/timed out/)
+    expect(calls).toHaveLength(1)
+  })
+})
+
+describe('circuit breaker', () => {
+  it('skips a mirror whose circuit is open until its cooldown ends', async () => {
+    let failA = true
+    let failB = false
+    const { fetchImpl, calls } = createFakeFetch({
+      [A]: () => (failA ? { status: 500 } : {}),
+      [B]: () => (failB ? { status: 500 } : { delayMs: 10 })
+    })
+    const mirrors = manager(fetchImpl, { seedServers: [A, B], failureThreshold: 1, hedgeDelayMs: 5000 })
+
+    await settle(mirrors.request('/one'), 100)
+    expect(mirrors.getMirrors().map(mirror => mirror.url)).toEqual([B])
+
+    await settle(mirrors.request('/two'), 100)
+    expect(calls.map(call => call.url)).toEqual([`${A}/one`, `${B}/one`, `${B}/two`])
+
+    // Past the cooldown A is tried again, after the mirror that has been working
+    await vi.advanceTimersByTimeAsync(5000)
+    failA = false
+    failB = true
+    calls.length = 0
+    const { value } = await settle(mirrors.request('/three'), 100)
+    expect(value).toEqual({ server: A })
+    expect(calls.map(call => call.url)).toEqual([`${B}/three`, `${A}/three`])
+    expect(mirrors.getMirrors().find(mirror => mirror.url === A)?.openUntil).toBeNull()
+  })
+
+  it('backs off for longer each time a mirror keeps failing', async () => {
+    const { fetchImpl } = createFakeFetch({ [A]: { status: 500 } })
+    const mirrors = manager(fetchImpl, { seedServers: [A], failureThreshold: 1 })
+
+    await settle(mirrors.request('/one'), 0)
+    expect(mirrors.getMirrors()[0].openUntil).toBe(Date.now() + 5000)
+    await settle(mirrors.request('/two'), 0)
+    expect(mirrors.getMirrors()[0].openUntil).toBe(Date.now() + 10000)
+  })
+
+  it('still tries the mirror closest to recovering when every circuit is open', async () => {
+    const { fetchImpl, calls } = createFakeFetch({ [A]: { status: 500 } })
+    const mirrors = manager(fetchImpl, { seedServers: [A], failureThreshold: 1 })
+
+    await settle(mirrors.request('/one'), 0)
+    expect(mirrors.getMirrors()[0].openUntil).toBeGreaterThan(Date.now())
+
+    await settle(mirrors.request('/two'), 0)
+    expect(calls.map(call => call.url)).toEqual([`${A}/one`, `${A}/two`])
+  })
+})
+
+describe('persistence', () => {
+  it('restores the ranking from storage', async () => {
+    const storage = createMemoryStorage()
+    const { fetchImpl } = createFakeFetch({ [A]: { delayMs: 500 }, [B]: { delayMs: 20 }, [C]: {} })
+    await settle(manager(fetchImpl, { storage }).request('/json/tags'))
+
+    const saved = JSON.parse(storage.items.get('roamfm:radio-browser-mirrors') ?? '{}')
+    expect(saved.version).toBe(1)
+    expect(saved.mirrors.find((mirror: { url: string }) => mirror.url === B).successes).toBe(1)
+
+    const { fetchImpl: nextFetch, calls } = createFakeFetch({ [A]: {}, [B]: {}, [C]: {} })
+    const restored = manager(nextFetch, { storage })
+    expect(restored.getMirrors()[0].url).toBe(B)
+    await settle(restored.request('/json/tags'))
+    expect(calls[0].url).toBe(`${B}/json/tags`)
+  })
+
+  it('only restores discovered mirrors when discovery is on', () => {
+    const storage = createMemoryStorage()
+    storage.setItem('roamfm:radio-browser-mirrors', JSON.stringify({
+      version: 1,
+      discoveredAt: Date.now(),
+      mirrors: [{ url: 'https://discovered.example', latencyMs: 10 }]
+    }))
+    const { fetchImpl } = createFakeFetch({})
+
+    expect(manager(fetchImpl, { storage }).getMirrors().map(mirror => mirror.url)).toEqual([A, B, C])
+    expect(manager(fetchImpl, { storage, discover: true }).getMirrors()[0].url).toBe('https://discovered.example')
+  })
+
+  it('ignores unreadable or outdated storage', () => {
+    const storage = createMemoryStorage()
+    const { fetchImpl } = createFakeFetch({})
+
+    storage.setItem('roamfm:radio-browser-mirrors', '{not json')
+    expect(manager(fetchImpl, { storage }).getMirrors().map(mirror => mirror.url)).toEqual([A, B, C])
+
+    storage.setItem('roamfm:radio-browser-mirrors', JSON.stringify({ version: 0, mirrors: [{ url: B, latencyMs: 1 }] }))
+    expect(manager(fetchImpl, { storage }).getMirrors().map(mirror => mirror.url)).toEqual([A, B, C])
+  })
+})
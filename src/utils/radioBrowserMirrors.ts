@@ -0,0 +1,288 @@
+// Mirror discovery, health tracking and hedged requests for the Radio Browser API
+
+export interface MirrorStats {
+  url: string
+  // Exponentially weighted average of successful response times
+  latencyMs: number | null
+  successes: number
+  failures: number
+  consecutiveFailures: number
+  lastFailureAt: number | null
+  // While set and in the future the circuit is open and the mirror is skipped
+  openUntil: number | null
+}
+
+// Subset of the Web Storage API, so localStorage or an in-memory stub can be used
+export interface MirrorStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+}
+
+export interface MirrorManagerOptions {
+  // Mirrors known up front; also used to bootstrap discovery
+  seedServers: string[]
+  // Fetch `/json/servers` to learn about additional mirrors
+  discover?: boolean
+  // Turns a server name from `/json/servers` into a base URL
+  toServerUrl?: (name: string) => string
+  storage?: MirrorStorage | null
+  storageKey?: string
+  timeoutMs?: number
+  // Start a request against the next mirror if the current one hasn't answered by then
+  hedgeDelayMs?: number
+  // Consecutive failures before a mirror's circuit opens
+  failureThreshold?: number
+  cooldownMs?: number
+  fetchImpl?: typeof fetch
+  now?: () => number
+}
+
+export interface RequestOptions {
+  // Off for requests with side effects (votes, clicks) so they only go to one mirror at a time,
+  // and aren't retried elsewhere after a timeout, since the first mirror may have counted them
+  hedge?: boolean
+}
+
+export interface MirrorManager {
+  request<T>(path: string, options?: RequestOptions): Promise<T>
+  discover(): Promise<void>
+  getMirrors(): MirrorStats[]
+}
+
+interface PersistedMirrors {
+  version: 1
+  discoveredAt: number | null
+  mirrors: MirrorStats[]
+}
+
+interface RadioBrowserServer {
+  ip: string
+  name: string
+}
+
+const STORAGE_VERSION = 1
+const LATENCY_SMOOTHING = 0.3
+const MAX_COOLDOWN_MS = 30 * 60 * 1000
+const DISCOVERY_TTL_MS = 24 * 60 * 60 * 1000
+
+function defaultStorage(): MirrorStorage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null
+  } catch {
+    // Access to localStorage throws when storage is disabled
+    return null
+  }
+}
+
+function createStats(url: string): MirrorStats {
+  return {
+    url,
+    latencyMs: null,
+    successes: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    lastFailureAt: null,
+    openUntil: null
+  }
+}
+
+export function createMirrorManager({
+  seedServers,
+  discover: shouldDiscover = true,
+  toServerUrl = name => `https://${name}`,
+  storage = defaultStorage(),
+  storageKey = 'roamfm:radio-browser-mirrors',
+  timeoutMs = 5000,
+  hedgeDelayMs = 400,
+  failureThreshold = 3,
+  cooldownMs = 60 * 1000,
+  fetchImpl = (input, init) => fetch(input, init),
+  now = () => Date.now()
+}: MirrorManagerOptions): MirrorManager {
+  const mirrors = new Map<string, MirrorStats>()
+  let discoveredAt: number | null = null
+  let discoveryStarted = false
+
+  seedServers.forEach(url => mirrors.set(url, createStats(url)))
+  load()
+
+  function load() {
+    if (!storage) return
+    try {
+      const raw = storage.getItem(storageKey)
+      if (!raw) return
+      const persisted = JSON.parse(raw) as PersistedMirrors
+      if (persisted.version !== STORAGE_VERSION) return
+      // Discovered mirrors are only restored when discovery is enabled
+      for (const stats of persisted.mirrors) {
+        if (mirrors.has(stats.url) || shouldDiscover) {
+          mirrors.set(stats.url, { ...createStats(stats.url), ...stats })
+        }
+      }
+      discoveredAt = persisted.discoveredAt
+    } catch (error) {
+      console.warn('Ignoring unreadable mirror ranking:', error)
+    }
+  }
+
+  function save() {
+    if (!storage) return
+    const persisted: PersistedMirrors = {
+      version: STORAGE_VERSION,
+      discoveredAt,
+      mirrors: Array.from(mirrors.values())
+    }
+    try {
+      storage.setItem(storageKey, JSON.stringify(persisted))
+    } catch (error) {
+      console.warn('Failed to persist mirror ranking:', error)
+    }
+  }
+
+  // Lower is better: smoothed latency plus a penalty for recent failures
+  function score(stats: MirrorStats) {
+    const latency = stats.latencyMs ?? timeoutMs / 2
+    return latency + stats.consecutiveFailures * timeoutMs
+  }
+
+  function rankedMirrors() {
+    const all = Array.from(mirrors.values())
+    const closed = all.filter(stats => !stats.openUntil || stats.openUntil <= now())
+    if (closed.length > 0) {
+      // Array.prototype.sort is stable, so untested seeds keep their configured order
+      return closed.sort((a, b) => score(a) - score(b))
+    }
+    // Every circuit is open: try the ones that will recover soonest rather than failing outright
+    return all.sort((a, b) => (a.openUntil ?? 0) - (b.openUntil ?? 0))
+  }
+
+  function recordSuccess(stats: MirrorStats, latencyMs: number) {
+    stats.latencyMs = stats.latencyMs === null
+      ? latencyMs
+      : stats.latencyMs + LATENCY_SMOOTHING * (latencyMs - stats.latencyMs)
+    stats.successes += 1
+    stats.consecutiveFailures = 0
+    stats.openUntil = null
+    save()
+  }
+
+  function recordFailure(stats: MirrorStats) {
+    stats.failures += 1
+    stats.consecutiveFailures += 1
+    stats.lastFailureAt = now()
+    if (stats.consecutiveFailures >= failureThreshold) {
+      // Back off exponentially for mirrors that keep failing after their cooldown
+      const trips = stats.consecutiveFailures - failureThreshold
+      stats.openUntil = now() + Math.min(cooldownMs * 2 ** trips, MAX_COOLDOWN_MS)
+    }
+    save()
+  }
+
+  async function fetchJson<T>(url: string, signal: AbortSignal): Promise<T> {
+    const res = await fetchImpl(url, { signal })
+    if (!res.ok) {
+      throw new Error(`Server ${url} returned ${res.status}`)
+    }
+    return res.json() as Promise<T>
+  }
+
+  function hedgedRequest<T>(path: string, { hedge = true }: RequestOptions = {}): Promise<T> {
+    const candidates = rankedMirrors()
+    if (candidates.length === 0) {
+      return Promise.reject(new Error('No Radio Browser API servers to ask'))
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const controllers: AbortController[] = []
+      let next = 0
+      let pending = 0
+      let settled = false
+      let hedgeTimer: ReturnType<typeof setTimeout> | undefined
+
+      const finish = () => {
+        settled = true
+        clearTimeout(hedgeTimer)
+        controllers.forEach(controller => controller.abort())
+      }
+
+      const launch = () => {
+        if (settled || next >= candidates.length) return
+        const stats = candidates[next++]
+        const controller = new AbortController()
+        let timedOut = false
+        const timeout = setTimeout(() => {
+          timedOut = true
+          controller.abort()
+        }, timeoutMs)
+        const startedAt = now()
+        controllers.push(controller)
+        pending += 1
+
+        clearTimeout(hedgeTimer)
+        if (hedge) hedgeTimer = setTimeout(launch, hedgeDelayMs)
+
+        fetchJson<T>(`${stats.url}${path}`, controller.signal)
+          .then(data => {
+            recordSuccess(stats, now() - startedAt)
+            if (settled) return
+            finish()
+            resolve(data)
+          })
+          .catch(error => {
+            // Requests we cancelled because another mirror won are not failures
+            if (settled) return
+            console.warn(`Failed to fetch from ${stats.url}:`, error)
+            recordFailure(stats)
+            pending -= 1
+            if (!hedge && timedOut) {
+              finish()
+              reject(new Error(`${stats.url} timed out, not retrying a request with side effects`))
+            } else if (next < candidates.length) {
+              launch()
+            } else if (pending === 0) {
+              finish()
+              reject(new Error('All Radio Browser API servers failed to respond'))
+            }
+          })
+          .finally(() => clearTimeout(timeout))
+      }
+
+      launch()
+    })
+  }
+
+  async function discover() {
+    try {
+      const servers = await hedgedRequest<RadioBrowserServer[]>('/json/servers')
+      for (const { name } of servers) {
+        const url = toServerUrl(name)
+        if (!mirrors.has(url)) {
+          mirrors.set(url, createStats(url))
+        }
+      }
+      discoveredAt = now()
+      save()
+    } catch (error) {
+      console.warn('Radio Browser mirror discovery failed:', error)
+    }
+  }
+
+  // Refresh a stale mirror list in the background, once per session
+  function ensureDiscovered() {
+    if (!shouldDiscover || discoveryStarted) return
+    discoveryStarted = true
+    if (discoveredAt && now() - discoveredAt < DISCOVERY_TTL_MS) return
+    void discover()
+  }
+
+  return {
+    request<T>(path: string, options?: RequestOptions) {
+      ensureDiscovered()
+      return hedgedRequest<T>(path, options)
+    },
+    discover,
+    getMirrors() {
+      return rankedMirrors().map(stats => ({ ...stats }))
+    }
+  }
+}
@@ -0,0 +1,95 @@
+// In-memory fixed-window rate limiting per client, for API routes that do
+// expensive work on the client's behalf
+
+export interface RateLimiterOptions {
+  // Requests allowed per key in each window
+  limit: number
+  windowMs: number
+  maxKeys?: number
+  now?: () => number
+}
+
+export interface RateLimiter {
+  // Counts a request; false once the key is over its limit for the current window
+  take(key: string): boolean
+  // Milliseconds until the key's window resets
+  retryAfterMs(key: string): number
+}
+
+interface Window {
+  startedAt: number
+  count: number
+}
+
+export function createRateLimiter({
+  limit,
+  windowMs,
+  maxKeys = 10000,
+  now = () => Date.now()
+}: RateLimiterOptions): RateLimiter {
+  const windows = new Map<string, Window>()
+
+  function current(key: string) {
+    const window = windows.get(key)
+    if (window && now() - window.startedAt < windowMs) return window
+    const fresh = { startedAt: now(), count: 0 }
+    // Re-inserting keeps the oldest window first for eviction, like swrCache
+    windows.delete(key)
+    windows.set(key, fresh)
+    while (windows.size > maxKeys) {
+      windows.delete(windows.keys().next().value as string)
+    }
+    return fresh
+  }
+
+  return {
+    take(key) {
+      const window = current(key)
+      window.count += 1
+      return window.count <= limit
+    },
+    retryAfterMs(key) {
+      const window = windows.get(key)
+      return window ? Math.max(window.startedAt + windowMs - now(), 0) : 0
+    }
+  }
+}
+
+// Best guess at the client's address behind the proxy we're deployed behind
+export function clientKey(headers: Headers) {
+  return headers.get('x-forwarded-for')?.split(',')[0].trim() || headers.get('x-real-ip') || 'unknown'
+}
+
+export interface ConnectionLimiterOptions {
+  // Connections each key may hold open at once
+  limit: number
+  maxKeys?: number
+}
+
+export interface ConnectionLimiter {
+  // Counts a connection as open; false, without counting it, once the key is at its limit
+  acquire(key: string): boolean
+  release(key: string): void
+}
+
+// Caps long-lived connections (event streams, relays) per client
+export function createConnectionLimiter({ limit, maxKeys = 10000 }: ConnectionLimiterOptions): ConnectionLimiter {
+  const open = new Map<string, number>()
+
+  return {
+    acquire(key) {
+      const count = open.get(key) ?? 0
+      if (count >= limit || (count === 0 && open.size >= maxKeys)) return false
+      open.set(key, count + 1)
+      return true
+    },
+    release(key) {
+      const count = open.get(key) ?? 0
+      if (count <= 1) {
+        open.delete(key)
+      } else {
+        open.set(key, count - 1)
+      }
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { BUFFER_UNSUPPORTED_MESSAGE, canBuffer, canRecord, createStreamRecorder, recordingFilename } from './recorder'
+import type { NowPlaying } from './icyMetadata'
+import type { Station } from './normalizeStations'
+
+const STREAM = 'https://stream.example/live'
+
+function station(fields: Partial<Station> = {}) {
+  return { stationuuid: '96062a7b-0601-11e8-ae97-52543be04c81', name: 'Radio Paradise', codec: 'MP3', hls: 0, ...fields } as Station
+}
+
+function track(raw: string): NowPlaying {
+  return { raw } as NowPlaying
+}
+
+// Serves a stream whose chunks the test pushes one at a time
+function serveStream(contentType: string) {
+  let push: (chunk: Uint8Array) => void = () => {}
+  const body = new ReadableStream<Uint8Array>({
+    start: controller => {
+      push = chunk => controller.enqueue(chunk)
+    }
+  })
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { headers: { 'content-type': contentType } })))
+  return { push: (size: number) => push(new Uint8Array(size)) }
+}
+
+// Lets the recorder read what was pushed; setImmediate stays real under the fake Date
+function flush() {
+  return new Promise(resolve => setImmediate(resolve))
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('recordingFilename', () => {
+  const startedAt = new Date(2024, 4, 1, 21, 30).getTime()
+
+  it('names the file after the station, track and local start time', () => {
+    expect(recordingFilename(station(), track('Artist - Track'), startedAt, 'audio/mpeg')).toBe(
+      'Radio Paradise - Artist - Track - 2024-05-01 2130.mp3'
+    )
+    expect(recordingFilename(station(), null, startedAt, 'audio/aacp; charset=binary')).toBe('Radio Paradise - 2024-05-01 2130.aac')
+  })
+
+  it('replaces characters file systems reject and falls back to a generic extension', () => {
+    expect(recordingFilename(station({ name: 'AC/DC: "Live"' }), track('A | B?'), startedAt, 'application/octet-stream')).toBe(
+      'AC_DC_ _Live_ - A _ B_ - 2024-05-01 2130.audio'
+    )
+  })
+})
+
+describe('canRecord and canBuffer', () => {
+  it('cannot record HLS streams, by flag or by URL', () => {
+    expect(canRecord(station(), STREAM)).toBe(true)
+    expect(canRecord(station({ hls: 1 }), STREAM)).toBe(false)
+    expect(canRecord(station(), 'https://stream.example/live.M3U8?token=1')).toBe(false)
+    expect(canRecord(null, STREAM)).toBe(false)
+    expect(canRecord(station(), null)).toBe(false)
+  })
+
+  it('buffers only codecs that can be decoded from any point', () => {
+    expect(canBuffer(station({ codec: 'MP3' }), STREAM)).toBe(true)
+    expect(canBuffer(station({ codec: 'AAC+' }), STREAM)).toBe(true)
+    expect(canBuffer(station({ codec: ' ogg ' }), STREAM)).toBe(false)
+    expect(canBuffer(station({ codec: 'FLAC' }), STREAM)).toBe(false)
+    expect(canBuffer(station({ hls: 1 }), STREAM)).toBe(false)
+  })
+})
+
+describe('createStreamRecorder', () => {
+  it('keeps only the most recent audio in a rolling buffer', async () => {
+    vi.useFakeTimers({ now: 0, toFake: ['Date'] })
+    const stream = serveStream('audio/mpeg')
+    const recorder = createStreamRecorder(station(), STREAM, { bufferMs: 1000 })
+
+    stream.push(100)
+    await flush()
+    vi.setSystemTime(600)
+    stream.push(200)
+    await flush()
+    expect(recorder.bytes).toBe(300)
+    vi.setSystemTime(1500)
+    stream.push(300)
+    await flush()
+
+    expect(recorder.bytes).toBe(500)
+    expect(recorder.startedAt).toBe(600)
+    expect(recorder.stop().size).toBe(500)
+  })
+
+  it('refuses a rolling buffer for streams that need their headers', async () => {
+    serveStream('application/ogg')
+    const onError = vi.fn()
+
+    createStreamRecorder(station({ codec: 'MP3' }), STREAM, { bufferMs: 1000, onError })
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(new Error(BUFFER_UNSUPPORTED_MESSAGE)))
+  })
+
+  it('stops by itself at the size limit', async () => {
+    const stream = serveStream('audio/mpeg')
+    const onLimit = vi.fn()
+    createStreamRecorder(station(), STREAM, { maxBytes: 250, onLimit })
+
+    stream.push(200)
+    stream.push(100)
+
+    await vi.waitFor(() => expect(onLimit).toHaveBeenCalledTimes(1))
+    expect(onLimit.mock.calls[0][0].size).toBe(300)
+  })
+})
@@ -0,0 +1,167 @@
+import type { NowPlaying } from './icyMetadata'
+import type { Station } from './normalizeStations'
+import { safeFilename } from './download'
+import { proxiedStreamUrl } from './streamUrl'
+
+// Recording a station by saving its stream as it arrives. The bytes are kept
+// as sent, so there is no re-encoding. MP3 and AAC are runs of self-contained
+// frames, so a file that starts mid-frame still plays: decoders resync on the
+// next one. Ogg and FLAC put their codec headers only at the start of the
+// stream, so they can be recorded from the start but not kept as a rolling buffer.
+
+export interface Recording {
+  id: string
+  station: Station
+  // Track playing when the recording began, from ICY metadata
+  track: NowPlaying | null
+  filename: string
+  blob: Blob
+  startedAt: number
+  durationMs: number
+}
+
+export interface StreamRecorder {
+  readonly bytes: number
+  // Start of the audio currently held, which moves forward when buffering
+  readonly startedAt: number
+  readonly contentType: string
+  // Everything held so far, while recording carries on
+  snapshot(): Blob
+  // Stops fetching and returns what was recorded
+  stop(): Blob
+}
+
+export interface StreamRecorderOptions {
+  // Keep only this much of the most recent audio, for "save the last N minutes"
+  bufferMs?: number
+  // Stop by itself past this size, so a forgotten recording can't fill memory
+  maxBytes?: number
+  onError?: (error: Error) => void
+  // Called when it stops by itself, with what was recorded
+  onLimit?: (blob: Blob) => void
+}
+
+export const BUFFER_OPTIONS_MS = [5 * 60 * 1000, 10 * 60 * 1000, 30 * 60 * 1000]
+export const MAX_RECORDING_BYTES = 256 * 1024 * 1024
+export const BUFFER_UNSUPPORTED_MESSAGE = 'Only MP3 and AAC streams can keep a rolling buffer'
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/aac': 'aac',
+  'audio/aacp': 'aac',
+  'audio/x-aac': 'aac',
+  'audio/ogg': 'ogg',
+  'application/ogg': 'ogg',
+  'audio/opus': 'opus',
+  'audio/flac': 'flac'
+}
+
+// Need the headers from the start of the stream to decode
+const HEADED_CODECS = ['OGG', 'OPUS', 'FLAC']
+const HEADED_TYPES = ['audio/ogg', 'application/ogg', 'audio/opus', 'audio/flac', 'audio/x-flac', 'audio/webm']
+
+function baseType(contentType: string) {
+  return contentType.split(';')[0].trim().toLowerCase()
+}
+
+export function extensionForType(contentType: string) {
+  return EXTENSIONS[baseType(contentType)] ?? 'audio'
+}
+
+function timestampForFilename(timestamp: number) {
+  const date = new Date(timestamp)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}${pad(date.getMinutes())}`
+}
+
+// e.g. "Radio Paradise - Artist - Track - 2024-05-01 2130.mp3"
+export function recordingFilename(station: Station, track: NowPlaying | null, startedAt: number, contentType: string) {
+  const parts = [station.name, track?.raw, timestampForFilename(startedAt)].filter(Boolean)
+  return `${safeFilename(parts.join(' - '))}.${extensionForType(contentType)}`
+}
+
+// HLS sends playlists and segments rather than one stream, so there's nothing to save byte for byte
+export function canRecord(station: Station | null, sourceUrl: string | null) {
+  return Boolean(station && sourceUrl && station.hls !== 1 && !/\.m3u8(\?|$)/i.test(sourceUrl))
+}
+
+// Going by the codec Radio Browser lists; the recorder checks the actual content type too
+export function canBuffer(station: Station | null, sourceUrl: string | null) {
+  return canRecord(station, sourceUrl) && !HEADED_CODECS.includes(station?.codec.trim().toUpperCase() ?? '')
+}
+
+// Opens its own connection to the stream through the proxy, since the
+// browser doesn't hand out the bytes an <audio> element downloads
+export function createStreamRecorder(
+  station: Station,
+  sourceUrl: string,
+  options: StreamRecorderOptions = {}
+): StreamRecorder {
+  const { bufferMs, maxBytes = MAX_RECORDING_BYTES, onError, onLimit } = options
+  const controller = new AbortController()
+  const chunks: { at: number; data: Uint8Array }[] = []
+  let bytes = 0
+  let startedAt = Date.now()
+  let contentType = 'audio/mpeg'
+  let stopped = false
+
+  const toBlob = () => new Blob(chunks.map(chunk => chunk.data), { type: contentType })
+
+  const trim = (now: number) => {
+    if (!bufferMs) return
+    while (chunks.length > 1 && chunks[0].at < now - bufferMs) {
+      bytes -= chunks.shift()!.data.byteLength
+    }
+    if (chunks.length > 0) startedAt = Math.max(startedAt, chunks[0].at)
+  }
+
+  const stop = () => {
+    stopped = true
+    controller.abort()
+    return toBlob()
+  }
+
+  const run = async () => {
+    const res = await fetch(proxiedStreamUrl(station.stationuuid, sourceUrl), { signal: controller.signal, cache: 'no-store' })
+    if (!res.ok || !res.body) throw new Error(`Stream returned ${res.status}`)
+    contentType = res.headers.get('content-type') ?? contentType
+    if (bufferMs && HEADED_TYPES.includes(baseType(contentType))) {
+      throw new Error(BUFFER_UNSUPPORTED_MESSAGE)
+    }
+    const reader = res.body.getReader()
+    while (!stopped) {
+      const { done, value } = await reader.read()
+      if (done) throw new Error('Stream ended')
+      const now = Date.now()
+      chunks.push({ at: now, data: value })
+      bytes += value.byteLength
+      trim(now)
+      // A rolling buffer stays small by itself
+      if (!bufferMs && bytes >= maxBytes) {
+        onLimit?.(stop())
+        return
+      }
+    }
+  }
+
+  run().catch(error => {
+    if (stopped) return
+    stopped = true
+    onError?.(error instanceof Error ? error : new Error(String(error)))
+  })
+
+  return {
+    get bytes() {
+      return bytes
+    },
+    get startedAt() {
+      return startedAt
+    },
+    get contentType() {
+      return contentType
+    },
+    snapshot: toBlob,
+    stop
+  }
+}
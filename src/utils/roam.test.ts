@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { nextStop, startTour } from './roam'
+import type { RoamRule, RoamTour } from './roam'
+import type { Station } from './normalizeStations'
+
+function station(stationuuid: string, latitude: number, longitude: number, fields: Partial<Station> = {}) {
+  return { stationuuid, latitude, longitude, tags: '', countrycode: '', votes: 0, ...fields } as Station
+}
+
+// Follows the tour until the rule runs out of stations, returning the uuids visited after the first
+function route(first: Station, rule: RoamRule, stations: Station[]) {
+  let tour: RoamTour = startTour(first, rule, 60000)
+  const visited: string[] = []
+  for (let next = nextStop(tour, stations); next; next = nextStop(tour, stations)) {
+    tour = next.tour
+    visited.push(next.station.stationuuid)
+  }
+  return visited
+}
+
+describe('nextStop', () => {
+  it('hops to the nearest unvisited station', () => {
+    const start = station('start', 0, 0)
+
+    expect(route(start, 'nearest', [start, station('far', 0, 30), station('near', 0, 10)])).toEqual(['near', 'far'])
+  })
+
+  it('prefers a real hop over a neighbour in the same town, but settles for one', () => {
+    const start = station('start', 48.85, 2.35)
+    const sameTown = station('same-town', 48.86, 2.34)
+    const lyon = station('lyon', 45.76, 4.84)
+
+    expect(route(start, 'nearest', [sameTown, lyon])).toEqual(['lyon', 'same-town'])
+  })
+
+  it('travels along a band of longitude across the antimeridian, then turns around', () => {
+    const start = station('start', 50, 175)
+    const stations = [
+      station('south', 40, -178),
+      station('outside', 45, 160),
+      station('north', 60, 176)
+    ]
+
+    const first = nextStop(startTour(start, 'longitude', 60000), stations)
+    expect(first?.station.stationuuid).toBe('south')
+    expect(first?.tour.heading).toBe('south')
+
+    const second = nextStop(first!.tour, stations)
+    expect(second?.station.stationuuid).toBe('north')
+    expect(second?.tour.heading).toBe('north')
+    expect(nextStop(second!.tour, stations)).toBeNull()
+  })
+
+  it('visits each country once, represented by its best voted station', () => {
+    const start = station('start', 52.52, 13.4, { countrycode: 'DE' })
+    const stations = [
+      station('berlin', 52.5, 13.3, { countrycode: 'DE' }),
+      station('warsaw-quiet', 52.23, 21.01, { countrycode: 'PL', votes: 1 }),
+      station('krakow-popular', 50.06, 19.94, { countrycode: 'PL', votes: 50 }),
+      station('rome', 41.9, 12.5, { countrycode: 'IT' }),
+      station('nowhere', 0, 0)
+    ]
+
+    expect(route(start, 'country', stations)).toEqual(['krakow-popular', 'rome'])
+  })
+
+  it('stays with stations sharing a tag with the first stop', () => {
+    const start = station('start', 0, 0, { tags: 'Jazz, blues' })
+    const stations = [
+      station('rock', 0, 1, { tags: 'rock' }),
+      station('blues', 0, 5, { tags: 'blues,soul' }),
+      station('jazz', 0, 10, { tags: 'smooth jazz,JAZZ' })
+    ]
+
+    expect(route(start, 'genre', stations)).toEqual(['blues', 'jazz'])
+  })
+
+  it('returns null once every station has been visited', () => {
+    const start = station('start', 0, 0)
+
+    expect(nextStop(startTour(start, 'nearest', 60000), [start])).toBeNull()
+  })
+})
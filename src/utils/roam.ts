@@ -0,0 +1,166 @@
+import { angularDistance } from './geo'
+import type { Station } from './normalizeStations'
+import { createId, createVersionedStore } from './persistentStore'
+
+// "Radio roam": hopping from station to station around the globe on a timer
+
+export type RoamRule = 'nearest' | 'longitude' | 'country' | 'genre'
+
+export const ROAM_RULES: { value: RoamRule; label: string; description: string }[] = [
+  { value: 'nearest', label: 'Nearest', description: 'Hop to the closest station not heard yet' },
+  { value: 'longitude', label: 'Meridian', description: 'Travel north or south along a band of longitude' },
+  { value: 'country', label: 'Countries', description: 'One station per country, nearest country next' },
+  { value: 'genre', label: 'Genre', description: 'Stay with stations sharing a tag with the first one' }
+]
+
+export const DWELL_OPTIONS_MS = [30, 60, 120, 300, 600].map(seconds => seconds * 1000)
+
+export interface RoamTour {
+  rule: RoamRule
+  dwellMs: number
+  // Stations visited so far, in order; the last one is playing
+  stops: Station[]
+  // Meridian tours: the band's centre and which way they are heading
+  bandLng: number
+  heading: 'north' | 'south'
+  // Genre tours: tags of the first stop
+  genreTags: string[]
+}
+
+// A finished tour kept for replaying
+export interface RoamRoute {
+  id: string
+  name: string
+  rule: RoamRule
+  dwellMs: number
+  stops: Station[]
+  createdAt: number
+}
+
+export interface RoamRoutesState {
+  routes: RoamRoute[]
+}
+
+// Half-width of a meridian band in degrees
+const BAND_HALF_WIDTH = 10
+// Stations closer than this are in the same town and don't make a hop
+const MIN_HOP_DEGREES = 0.5
+export const MAX_SAVED_ROUTES = 50
+
+export function emptyRoamRoutes(): RoamRoutesState {
+  return { routes: [] }
+}
+
+export const roamRoutesStore = createVersionedStore<RoamRoutesState>({
+  key: 'roamfm:roam-routes',
+  version: 1,
+  fallback: emptyRoamRoutes
+})
+
+function stationTags(station: Station) {
+  return station.tags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+}
+
+function position(station: Station) {
+  return { lat: station.latitude, lng: station.longitude }
+}
+
+// Longitude difference folded into -180..180
+function lngDelta(a: number, b: number) {
+  return ((b - a + 540) % 360) - 180
+}
+
+export function startTour(first: Station, rule: RoamRule, dwellMs: number): RoamTour {
+  return {
+    rule,
+    dwellMs,
+    stops: [first],
+    bandLng: first.longitude,
+    // Start towards the side with more room
+    heading: first.latitude > 0 ? 'south' : 'north',
+    genreTags: stationTags(first)
+  }
+}
+
+function nearestTo(from: Station, candidates: Station[]) {
+  let best: Station | null = null
+  let bestDistance = Infinity
+  for (const station of candidates) {
+    const distance = angularDistance(position(from), position(station))
+    if (distance < bestDistance) {
+      best = station
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+// Prefers a real hop, but settles for a neighbour in the same town
+function nearestHop(from: Station, candidates: Station[]) {
+  const away = candidates.filter(station => angularDistance(position(from), position(station)) >= MIN_HOP_DEGREES)
+  return nearestTo(from, away.length > 0 ? away : candidates)
+}
+
+// Picks the next stop, returning the tour to continue with, or null once the rule runs out of stations
+export function nextStop(tour: RoamTour, stations: Station[]): { tour: RoamTour; station: Station } | null {
+  const current = tour.stops[tour.stops.length - 1]
+  const visited = new Set(tour.stops.map(station => station.stationuuid))
+  const unvisited = stations.filter(station => !visited.has(station.stationuuid))
+  const advance = (station: Station | null, patch: Partial<RoamTour> = {}) =>
+    station ? { tour: { ...tour, ...patch, stops: [...tour.stops, station] }, station } : null
+
+  switch (tour.rule) {
+    case 'nearest':
+      return advance(nearestHop(current, unvisited))
+
+    case 'longitude': {
+      const band = unvisited.filter(station => Math.abs(lngDelta(tour.bandLng, station.longitude)) <= BAND_HALF_WIDTH)
+      const ahead = (heading: RoamTour['heading']) =>
+        band.filter(station => (heading === 'north' ? station.latitude > current.latitude : station.latitude < current.latitude))
+      const forward = ahead(tour.heading)
+      if (forward.length > 0) return advance(nearestHop(current, forward))
+      // Reached the end of the band, turn around
+      const heading = tour.heading === 'north' ? 'south' : 'north'
+      return advance(nearestHop(current, ahead(heading)), { heading })
+    }
+
+    case 'country': {
+      const countries = new Set(tour.stops.map(station => station.countrycode))
+      const elsewhere = unvisited.filter(station => station.countrycode && !countries.has(station.countrycode))
+      const closest = nearestTo(current, elsewhere)
+      if (!closest) return null
+      // The best-voted station of the nearest new country represents it
+      const representative = elsewhere
+        .filter(station => station.countrycode === closest.countrycode)
+        .reduce((best, station) => (station.votes > best.votes ? station : best), closest)
+      return advance(representative)
+    }
+
+    case 'genre': {
+      const genre = new Set(tour.genreTags)
+      return advance(nearestHop(current, unvisited.filter(station => stationTags(station).some(tag => genre.has(tag)))))
+    }
+  }
+}
+
+export function describeTour(tour: Pick<RoamTour, 'rule' | 'stops'>) {
+  const countries = new Set(tour.stops.map(station => station.country).filter(Boolean))
+  const rule = ROAM_RULES.find(option => option.value === tour.rule)?.label ?? tour.rule
+  return `${rule} · ${tour.stops.length} stations · ${countries.size} ${countries.size === 1 ? 'country' : 'countries'}`
+}
+
+export function saveRoute(state: RoamRoutesState, tour: RoamTour, name: string): RoamRoutesState {
+  const route: RoamRoute = {
+    id: createId(),
+    name: name.trim() || `Tour of ${tour.stops.length} stations`,
+    rule: tour.rule,
+    dwellMs: tour.dwellMs,
+    stops: tour.stops,
+    createdAt: Date.now()
+  }
+  return { routes: [route, ...state.routes].slice(0, MAX_SAVED_ROUTES) }
+}
+
+export function removeRoute(state: RoamRoutesState, id: string): RoamRoutesState {
+  return { routes: state.routes.filter(route => route.id !== id) }
+}
@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { WEEKDAYS, dueSchedules, nextOccurrence } from './schedules'
+import type { Schedule, SchedulesState } from './schedules'
+import type { Station } from './normalizeStations'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Berlin springs forward on 29 March 2026 and falls back on 25 October 2026
+beforeAll(() => {
+  vi.stubEnv('TZ', 'Europe/Berlin')
+})
+
+afterAll(() => {
+  vi.unstubAllEnvs()
+})
+
+function local(month: number, day: number, hours: number, minutes = 0) {
+  return new Date(2026, month - 1, day, hours, minutes).getTime()
+}
+
+function schedule(id: string, fields: Partial<Schedule> = {}): Schedule {
+  return {
+    id,
+    station: { stationuuid: id } as Station,
+    time: '07:30',
+    days: [],
+    fadeInMs: 0,
+    enabled: true,
+    createdAt: 0,
+    lastFiredAt: null,
+    ...fields
+  }
+}
+
+describe('nextOccurrence', () => {
+  it('goes off later the same day, or the next day once the time has passed', () => {
+    expect(nextOccurrence({ time: '07:30', days: [] }, local(3, 10, 6))).toBe(local(3, 10, 7, 30))
+    expect(nextOccurrence({ time: '07:30', days: [] }, local(3, 10, 7, 30))).toBe(local(3, 11, 7, 30))
+  })
+
+  it('keeps the clock time across DST changes', () => {
+    const spring = nextOccurrence({ time: '07:30', days: [] }, local(3, 28, 12))
+    const autumn = nextOccurrence({ time: '07:30', days: [] }, local(10, 24, 12))
+
+    expect(spring).toBe(local(3, 29, 7, 30))
+    expect(spring! - local(3, 28, 12)).toBe(18.5 * HOUR_MS)
+    expect(autumn).toBe(local(10, 25, 7, 30))
+    expect(autumn! - local(10, 24, 12)).toBe(20.5 * HOUR_MS)
+  })
+
+  it('does not skip the morning after a late-night spring forward', () => {
+    expect(nextOccurrence({ time: '07:30', days: [] }, local(3, 28, 23, 30))).toBe(local(3, 29, 7, 30))
+  })
+
+  it('goes off an hour late when its time falls in the skipped hour', () => {
+    expect(new Date(nextOccurrence({ time: '02:30', days: [] }, local(3, 29, 0))!).getHours()).toBe(3)
+  })
+
+  it('wraps around the week to the next matching day', () => {
+    // 3 April 2026 is a Friday
+    expect(nextOccurrence({ time: '07:30', days: WEEKDAYS }, local(4, 3, 8))).toBe(local(4, 6, 7, 30))
+    expect(nextOccurrence({ time: '07:30', days: [5] }, local(4, 3, 8))).toBe(local(4, 10, 7, 30))
+  })
+
+  it('returns null for a time it cannot read', () => {
+    expect(nextOccurrence({ time: '24:00', days: [] }, local(3, 10, 6))).toBeNull()
+    expect(nextOccurrence({ time: '7.30', days: [] }, local(3, 10, 6))).toBeNull()
+  })
+})
+
+describe('dueSchedules', () => {
+  it('returns enabled schedules due in the window, soonest first', () => {
+    const state: SchedulesState = {
+      schedules: [
+        schedule('later', { time: '07:45' }),
+        schedule('sooner', { time: '07:31' }),
+        schedule('off', { time: '07:40', enabled: false }),
+        schedule('outside', { time: '08:00' })
+      ]
+    }
+
+    expect(dueSchedules(state, local(4, 3, 7, 30), local(4, 3, 7, 59)).map(({ id }) => id)).toEqual(['sooner', 'later'])
+  })
+
+  it('skips schedules that already went off in the window', () => {
+    const state: SchedulesState = { schedules: [schedule('fired', { time: '07:31', lastFiredAt: local(4, 3, 7, 31) })] }
+
+    expect(dueSchedules(state, local(4, 3, 7, 30), local(4, 3, 7, 32))).toEqual([])
+    expect(dueSchedules(state, local(4, 3, 7, 31), local(4, 4, 7, 31))).toHaveLength(1)
+  })
+})
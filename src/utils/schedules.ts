@@ -0,0 +1,136 @@
+import type { Station } from './normalizeStations'
+import { createId, createVersionedStore } from './persistentStore'
+
+// Wake-up alarms and recurring listening schedules, in the browser's local time
+
+export interface Schedule {
+  id: string
+  // Snapshot of the station to start, like favorites
+  station: Station
+  // Time of day, "HH:MM"
+  time: string
+  // Days of the week it repeats on (0 is Sunday); empty for a one-off alarm
+  days: number[]
+  fadeInMs: number
+  enabled: boolean
+  createdAt: number
+  lastFiredAt: number | null
+}
+
+export type NewSchedule = Pick<Schedule, 'station' | 'time' | 'days' | 'fadeInMs'>
+
+export interface SchedulesState {
+  schedules: Schedule[]
+}
+
+export interface SleepTimer {
+  endsAt: number
+  // The fade out ends at `endsAt`
+  fadeMs: number
+}
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+export const WEEKDAYS = [1, 2, 3, 4, 5]
+export const WEEKEND = [0, 6]
+
+export function emptySchedules(): SchedulesState {
+  return { schedules: [] }
+}
+
+export const schedulesStore = createVersionedStore<SchedulesState>({
+  key: 'roamfm:schedules',
+  version: 1,
+  fallback: emptySchedules
+})
+
+export function parseTime(time: string) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim())
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null
+}
+
+// First time the schedule goes off strictly after `from`, or null if it can't
+export function nextOccurrence(schedule: Pick<Schedule, 'time' | 'days'>, from: number): number | null {
+  const time = parseTime(schedule.time)
+  if (!time) return null
+
+  // Stepping by calendar day and setting the clock time keeps DST changes right;
+  // adding 24 hours would skip a day after a late-night spring forward
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(from)
+    candidate.setDate(candidate.getDate() + offset)
+    candidate.setHours(time.hours, time.minutes, 0, 0)
+    if (candidate.getTime() <= from) continue
+    if (schedule.days.length === 0 || schedule.days.includes(candidate.getDay())) {
+      return candidate.getTime()
+    }
+  }
+  return null
+}
+
+// Enabled schedules with an occurrence in (since, until], soonest first
+export function dueSchedules(state: SchedulesState, since: number, until: number) {
+  return state.schedules
+    .filter(schedule => schedule.enabled && (schedule.lastFiredAt ?? 0) <= since)
+    .map(schedule => ({ schedule, at: nextOccurrence(schedule, since) }))
+    .filter((due): due is { schedule: Schedule; at: number } => due.at !== null && due.at <= until)
+    .sort((a, b) => a.at - b.at)
+    .map(({ schedule }) => schedule)
+}
+
+// The next schedule to go off, for the panel header
+export function upcomingSchedule(state: SchedulesState, now: number) {
+  let upcoming: { schedule: Schedule; at: number } | null = null
+  for (const schedule of state.schedules) {
+    if (!schedule.enabled) continue
+    const at = nextOccurrence(schedule, now)
+    if (at !== null && (!upcoming || at < upcoming.at)) upcoming = { schedule, at }
+  }
+  return upcoming
+}
+
+export function describeDays(days: number[]) {
+  if (days.length === 0) return 'Once'
+  const sorted = [...days].sort()
+  const key = sorted.join(',')
+  if (sorted.length === 7) return 'Every day'
+  if (key === WEEKDAYS.join(',')) return 'Weekdays'
+  if (key === WEEKEND.join(',')) return 'Weekends'
+  // Monday first reads more naturally
+  return [1, 2, 3, 4, 5, 6, 0].filter(day => days.includes(day)).map(day => DAY_LABELS[day]).join(', ')
+}
+
+export function addSchedule(state: SchedulesState, schedule: NewSchedule): SchedulesState {
+  if (!parseTime(schedule.time)) return state
+  const created: Schedule = {
+    ...schedule,
+    id: createId(),
+    enabled: true,
+    createdAt: Date.now(),
+    lastFiredAt: null
+  }
+  return { schedules: [...state.schedules, created] }
+}
+
+export function setScheduleEnabled(state: SchedulesState, id: string, enabled: boolean): SchedulesState {
+  return {
+    schedules: state.schedules.map(schedule => (schedule.id === id ? { ...schedule, enabled } : schedule))
+  }
+}
+
+export function removeSchedule(state: SchedulesState, id: string): SchedulesState {
+  return { schedules: state.schedules.filter(schedule => schedule.id !== id) }
+}
+
+// One-off alarms switch themselves off once they have gone off
+export function markFired(state: SchedulesState, id: string, at: number): SchedulesState {
+  return {
+    schedules: state.schedules.map(schedule =>
+      schedule.id === id
+        ? { ...schedule, lastFiredAt: at, enabled: schedule.days.length > 0 && schedule.enabled }
+        : schedule
+    )
+  }
+}
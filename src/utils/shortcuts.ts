@@ -0,0 +1,69 @@
+// Keyboard shortcuts for the whole app, listed in the help overlay in this order
+
+export type ShortcutAction =
+  | 'togglePlay'
+  | 'random'
+  | 'favorite'
+  | 'nextFavorite'
+  | 'previousFavorite'
+  | 'search'
+  | 'rotateLeft'
+  | 'rotateRight'
+  | 'rotateUp'
+  | 'rotateDown'
+  | 'help'
+
+export interface Shortcut {
+  action: ShortcutAction
+  // KeyboardEvent.key values, compared case-insensitively
+  keys: string[]
+  // How the keys are shown in the help overlay
+  label: string
+  description: string
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { action: 'togglePlay', keys: [' '], label: 'Space', description: 'Play / pause' },
+  { action: 'random', keys: ['n'], label: 'N', description: 'Random station' },
+  { action: 'favorite', keys: ['f'], label: 'F', description: 'Add or remove favorite' },
+  { action: 'nextFavorite', keys: ['.'], label: '.', description: 'Next favorite' },
+  { action: 'previousFavorite', keys: [','], label: ',', description: 'Previous favorite' },
+  { action: 'search', keys: ['/'], label: '/', description: 'Search stations' },
+  { action: 'rotateLeft', keys: ['ArrowLeft'], label: '←', description: 'Rotate west' },
+  { action: 'rotateRight', keys: ['ArrowRight'], label: '→', description: 'Rotate east' },
+  { action: 'rotateUp', keys: ['ArrowUp'], label: '↑', description: 'Rotate north' },
+  { action: 'rotateDown', keys: ['ArrowDown'], label: '↓', description: 'Rotate south' },
+  { action: 'help', keys: ['?'], label: '?', description: 'Show shortcuts' }
+]
+
+// Text fields, selects and the like keep their own keys
+export function isEditableTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+// Buttons, links and other controls that Space activates
+const SPACE_ACTIVATED = [
+  'button',
+  'a[href]',
+  'summary',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="checkbox"]',
+  '[role="switch"]',
+  '[role="tab"]',
+  '[role="menuitem"]',
+  '[role="option"]'
+].join(', ')
+
+// Space on a focused control belongs to that control, not to play / pause
+export function isSpaceActivatedTarget(target: EventTarget | null) {
+  return target instanceof Element && target.closest(SPACE_ACTIVATED) !== null
+}
+
+export function matchShortcut(event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey'>) {
+  // Leave browser and OS shortcuts alone
+  if (event.ctrlKey || event.metaKey || event.altKey) return null
+  const key = event.key.toLowerCase()
+  return SHORTCUTS.find(shortcut => shortcut.keys.some(candidate => candidate.toLowerCase() === key))?.action ?? null
+}
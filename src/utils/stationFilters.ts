@@ -0,0 +1,135 @@
+import type { Station } from './normalizeStations'
+
+// Attribute filters over the station fields Radio Browser reports. Empty lists and zero minimums mean "any".
+export interface StationFilters {
+  // ISO 3166-1 alpha-2 codes
+  countries: string[]
+  languages: string[]
+  codecs: string[]
+  minBitrate: number
+  httpsOnly: boolean
+  // Only stations that passed Radio Browser's last stream check
+  workingOnly: boolean
+  minVotes: number
+  minClicks: number
+}
+
+export type FacetField = 'countries' | 'languages' | 'codecs'
+
+export interface FacetOption {
+  value: string
+  label: string
+  // Stations this option would show, given every other active filter
+  count: number
+}
+
+export const DEFAULT_FILTERS: StationFilters = {
+  countries: [],
+  languages: [],
+  codecs: [],
+  minBitrate: 0,
+  httpsOnly: false,
+  workingOnly: false,
+  minVotes: 0,
+  minClicks: 0
+}
+
+export const BITRATE_STEPS = [0, 64, 96, 128, 192, 256, 320]
+export const VOTE_STEPS = [0, 10, 50, 100, 500, 1000]
+export const CLICK_STEPS = [0, 10, 50, 100, 500, 1000]
+
+// Values a station has for a facet; languages are comma separated in Radio Browser
+function facetValues(station: Station, field: FacetField): { value: string; label: string }[] {
+  switch (field) {
+    case 'countries':
+      return station.countrycode
+        ? [{ value: station.countrycode.toUpperCase(), label: station.country || station.countrycode }]
+        : []
+    case 'languages':
+      return station.language
+        .split(',')
+        .map(language => language.trim().toLowerCase())
+        .filter(Boolean)
+        .map(language => ({ value: language, label: language }))
+    case 'codecs':
+      return station.codec ? [{ value: station.codec.toUpperCase(), label: station.codec.toUpperCase() }] : []
+  }
+}
+
+function matchesFacet(station: Station, field: FacetField, selected: string[]) {
+  if (selected.length === 0) return true
+  return facetValues(station, field).some(({ value }) => selected.includes(value))
+}
+
+export function isHttpsStation(station: Station) {
+  return (station.url_resolved || station.url).toLowerCase().startsWith('https://')
+}
+
+// `ignore` leaves one facet out, which is how the counts for that facet's own options are computed
+export function matchesFilters(station: Station, filters: StationFilters, ignore?: FacetField) {
+  return (
+    (ignore === 'countries' || matchesFacet(station, 'countries', filters.countries)) &&
+    (ignore === 'languages' || matchesFacet(station, 'languages', filters.languages)) &&
+    (ignore === 'codecs' || matchesFacet(station, 'codecs', filters.codecs)) &&
+    // Unknown bitrate (0) only passes when there is no minimum
+    station.bitrate >= filters.minBitrate &&
+    (!filters.httpsOnly || isHttpsStation(station)) &&
+    (!filters.workingOnly || station.lastcheckok === 1) &&
+    station.votes >= filters.minVotes &&
+    station.clickcount >= filters.minClicks
+  )
+}
+
+// Options for a facet with live counts, most common first. Selected options are always listed.
+export function facetOptions(stations: Station[], filters: StationFilters, field: FacetField): FacetOption[] {
+  const options = new Map<string, FacetOption>()
+  for (const value of filters[field]) {
+    options.set(value, { value, label: value, count: 0 })
+  }
+
+  for (const station of stations) {
+    if (!matchesFilters(station, filters, field)) continue
+    for (const { value, label } of facetValues(station, field)) {
+      const option = options.get(value)
+      if (option) {
+        option.count++
+        if (option.label === value) option.label = label
+      } else {
+        options.set(value, { value, label, count: 1 })
+      }
+    }
+  }
+
+  return Array.from(options.values()).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+}
+
+// Stations each threshold would leave, for labelling the minimum selects
+export function countAtLeast(
+  stations: Station[],
+  filters: StationFilters,
+  key: 'minBitrate' | 'minVotes' | 'minClicks',
+  steps: number[]
+) {
+  const relaxed = { ...filters, [key]: 0 }
+  const candidates = stations.filter(station => matchesFilters(station, relaxed))
+  const field = key === 'minBitrate' ? 'bitrate' : key === 'minVotes' ? 'votes' : 'clickcount'
+  return new Map(steps.map(step => [step, candidates.filter(station => station[field] >= step).length]))
+}
+
+export function toggleFacetValue(filters: StationFilters, field: FacetField, value: string): StationFilters {
+  const selected = filters[field]
+  return {
+    ...filters,
+    [field]: selected.includes(value) ? selected.filter(existing => existing !== value) : [...selected, value]
+  }
+}
+
+export function activeFilterCount(filters: StationFilters) {
+  return (
+    filters.countries.length +
+    filters.languages.length +
+    filters.codecs.length +
+    [filters.minBitrate, filters.minVotes, filters.minClicks].filter(value => value > 0).length +
+    [filters.httpsOnly, filters.workingOnly].filter(Boolean).length
+  )
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { createSearchIndex } from './stationSearch'
+import type { Station } from './normalizeStations'
+
+function station(stationuuid: string, fields: Partial<Station> = {}) {
+  return { stationuuid, name: 'Radio', tags: '', state: '', country: '', language: '', votes: 0, ...fields } as Station
+}
+
+function ids(stations: Station[], query: string) {
+  return createSearchIndex(stations).search(query).map(result => result.station.stationuuid)
+}
+
+describe('createSearchIndex', () => {
+  it('ranks exact words over prefixes, and names over tags', () => {
+    const stations = [
+      station('tag', { tags: 'rock' }),
+      station('prefix', { name: 'Rockabilly Radio' }),
+      station('exact', { name: 'Rock Antenne' })
+    ]
+
+    expect(ids(stations, 'rock')).toEqual(['exact', 'prefix', 'tag'])
+  })
+
+  it('tolerates typos in longer words only', () => {
+    const stations = [station('a', { name: 'Rock Antenne' })]
+
+    // Transposed letters count as one edit
+    expect(ids(stations, 'anetnne')).toEqual(['a'])
+    expect(ids(stations, 'antene')).toEqual(['a'])
+    expect(ids(stations, 'rok')).toEqual([])
+  })
+
+  it('tolerates a typo in a word that is still being typed', () => {
+    const [result] = createSearchIndex([station('a', { name: 'Klassik Radio' })]).search('clas')
+
+    expect(result.matches[0].ranges).toEqual([[0, 4]])
+  })
+
+  it('ignores case and diacritics', () => {
+    const [result] = createSearchIndex([station('a', { name: 'Radio Zürich' })]).search('ZURICH')
+
+    expect(result.matches).toEqual([{ field: 'name', text: 'Radio Zürich', ranges: [[6, 12]] }])
+  })
+
+  it('requires every query word to match', () => {
+    const stations = [station('a', { name: 'Rock Antenne' }), station('b', { name: 'Jazz FM' })]
+
+    expect(ids(stations, 'rock jazz')).toEqual([])
+  })
+
+  it('prefers the name typed as written over the same words scattered', () => {
+    const stations = [
+      station('scattered', { name: 'City Big Radio', votes: 10000 }),
+      station('phrase', { name: 'Big City Radio' })
+    ]
+
+    expect(ids(stations, 'big city')).toEqual(['phrase', 'scattered'])
+  })
+
+  it('breaks ties by votes', () => {
+    const stations = [station('few', { name: 'Jazz FM', votes: 2 }), station('many', { name: 'Jazz FM', votes: 500 })]
+
+    expect(ids(stations, 'jazz')).toEqual(['many', 'few'])
+  })
+
+  it('reports merged highlight ranges per field, best field first', () => {
+    const stations = [station('a', { name: 'TSF Jazz', tags: 'jazz,smooth jazz', state: 'Paris' })]
+
+    const [result] = createSearchIndex(stations).search('paris jazz ja')
+
+    expect(result.matches).toEqual([
+      // Both "jazz" and "ja" land on the same word
+      { field: 'name', text: 'TSF Jazz', ranges: [[4, 8]] },
+      { field: 'state', text: 'Paris', ranges: [[0, 5]] }
+    ])
+  })
+
+  it('highlights only the matched part of a longer word', () => {
+    const [result] = createSearchIndex([station('a', { tags: 'dance,drumandbass' })]).search('bass')
+
+    expect(result.matches).toEqual([{ field: 'tags', text: 'dance, drumandbass', ranges: [[14, 18]] }])
+  })
+
+  it('returns nothing for an empty query and honours the limit', () => {
+    const index = createSearchIndex([station('a', { name: 'Jazz FM' }), station('b', { name: 'Jazz Radio' })])
+
+    expect(index.search('  , ')).toEqual([])
+    expect(index.search('jazz', 1)).toHaveLength(1)
+  })
+})
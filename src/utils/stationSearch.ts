@@ -0,0 +1,213 @@
+import { searchStations } from './fetchStations'
+import { normalizeStations } from './normalizeStations'
+import type { Station } from './normalizeStations'
+
+// Typo tolerant search over the loaded stations
+
+export type SearchField = 'name' | 'tags' | 'state' | 'country' | 'language'
+
+export interface SearchMatch {
+  field: SearchField
+  text: string
+  // [start, end) offsets into `text` to highlight, sorted and non-overlapping
+  ranges: [number, number][]
+}
+
+export interface SearchResult {
+  station: Station
+  score: number
+  // Best field first
+  matches: SearchMatch[]
+}
+
+interface IndexedWord {
+  field: SearchField
+  // Lowercased without diacritics
+  folded: string
+  start: number
+  length: number
+}
+
+interface IndexedStation {
+  station: Station
+  texts: Record<SearchField, string>
+  words: IndexedWord[]
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  tags: 2,
+  state: 1.5,
+  country: 1.5,
+  language: 1
+}
+
+function fold(text: string) {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+function tokenize(text: string) {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), match => ({ word: match[0], start: match.index ?? 0 }))
+}
+
+// Typos allowed for a query word of this length
+function maxEdits(length: number) {
+  if (length <= 3) return 0
+  if (length <= 6) return 1
+  return 2
+}
+
+// Optimal string alignment distance, or Infinity once it exceeds `max`
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return Infinity
+  let previous2: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1)
+      }
+      current[j] = value
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return Infinity
+    previous2 = previous
+    previous = current
+  }
+
+  return previous[b.length] <= max ? previous[b.length] : Infinity
+}
+
+// How well one query word matches one indexed word (0 to 1), and how much of the word to highlight
+function matchWord(token: string, word: IndexedWord): { quality: number; offset: number; length: number } | null {
+  const { folded } = word
+  if (folded === token) return { quality: 1, offset: 0, length: word.length }
+  if (folded.startsWith(token)) return { quality: 0.9, offset: 0, length: token.length }
+
+  if (token.length >= 3) {
+    const index = folded.indexOf(token)
+    if (index >= 0) return { quality: 0.6, offset: index, length: token.length }
+  }
+
+  const max = maxEdits(token.length)
+  if (max === 0) return null
+
+  const distance = editDistance(token, folded, max)
+  if (distance !== Infinity) return { quality: 0.75 - 0.15 * distance, offset: 0, length: word.length }
+
+  // Typo in a word that is still being typed
+  if (folded.length > token.length) {
+    const prefix = editDistance(token, folded.slice(0, token.length), max)
+    if (prefix !== Infinity) return { quality: 0.6 - 0.15 * prefix, offset: 0, length: token.length }
+  }
+  return null
+}
+
+function mergeRanges(ranges: [number, number][]) {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: [number, number][] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+  }
+  return merged
+}
+
+function indexStation(station: Station): IndexedStation {
+  const texts: Record<SearchField, string> = {
+    name: station.name,
+    tags: station.tags.split(',').map(tag => tag.trim()).filter(Boolean).join(', '),
+    state: station.state,
+    country: station.country,
+    language: station.language.split(',').map(language => language.trim()).filter(Boolean).join(', ')
+  }
+  const words = (Object.keys(texts) as SearchField[]).flatMap(field =>
+    tokenize(texts[field]).map(({ word, start }) => ({ field, folded: fold(word), start, length: word.length }))
+  )
+  return { station, texts, words }
+}
+
+function scoreStation(indexed: IndexedStation, tokens: string[], phrase: string): SearchResult | null {
+  let score = 0
+  const ranges = new Map<SearchField, [number, number][]>()
+  const fieldScores = new Map<SearchField, number>()
+
+  // Every query word has to match somewhere
+  for (const token of tokens) {
+    let best: { word: IndexedWord; score: number; offset: number; length: number } | null = null
+    for (const word of indexed.words) {
+      const match = matchWord(token, word)
+      if (!match) continue
+      const wordScore = match.quality * FIELD_WEIGHTS[word.field]
+      if (!best || wordScore > best.score) best = { word, score: wordScore, offset: match.offset, length: match.length }
+    }
+    if (!best) return null
+
+    score += best.score
+    const { field, start } = best.word
+    ranges.set(field, [...(ranges.get(field) ?? []), [start + best.offset, start + best.offset + best.length]])
+    fieldScores.set(field, (fieldScores.get(field) ?? 0) + best.score)
+  }
+
+  // Typing the name as written beats matching scattered words
+  if (tokens.length > 1 && fold(indexed.texts.name).includes(phrase)) score += FIELD_WEIGHTS.name
+
+  // Popular stations win ties
+  score += Math.log10(indexed.station.votes + 1) * 0.01
+
+  const matches = Array.from(ranges, ([field, fieldRanges]) => ({
+    field,
+    text: indexed.texts[field],
+    ranges: mergeRanges(fieldRanges)
+  })).sort((a, b) => (fieldScores.get(b.field) ?? 0) - (fieldScores.get(a.field) ?? 0))
+
+  return { station: indexed.station, score, matches }
+}
+
+export function createSearchIndex(stations: Station[]) {
+  const indexed = stations.map(indexStation)
+
+  return {
+    // Results best first; an empty query matches nothing
+    search(query: string, limit = Infinity): SearchResult[] {
+      const tokens = tokenize(query).map(({ word }) => fold(word))
+      if (tokens.length === 0) return []
+      const phrase = fold(query.trim())
+
+      const results: SearchResult[] = []
+      for (const entry of indexed) {
+        const result = scoreStation(entry, tokens, phrase)
+        if (result) results.push(result)
+      }
+      return results.sort((a, b) => b.score - a.score).slice(0, limit)
+    }
+  }
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>
+
+// Name search across all of Radio Browser, for when nothing loaded matches
+export async function searchWorldwide(query: string, limit = 30): Promise<SearchResult[]> {
+  const name = query.trim()
+  if (!name) return []
+  const raw = await searchStations({ name, has_geo_info: true, hidebroken: true, order: 'votes', reverse: true, limit })
+  const stations = normalizeStations(raw)
+  const ranked = createSearchIndex(stations).search(name)
+  // Radio Browser matched these by name already, keep the ones our tokenizer scores differently too
+  const rankedIds = new Set(ranked.map(result => result.station.stationuuid))
+  return [
+    ...ranked,
+    ...stations
+      .filter(station => !rankedIds.has(station.stationuuid))
+      .map(station => ({ station, score: 0, matches: [] }))
+  ]
+}
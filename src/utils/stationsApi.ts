@@ -0,0 +1,80 @@
+import { reportStationClick, voteForStation } from './fetchStations'
+import type { Station } from './normalizeStations'
+import type { StreamProbe } from './streamProbe'
+
+// Whether stations need any or all of the selected tags
+export type TagMatch = 'any' | 'all'
+
+export interface StationsResponse {
+  stations: Station[]
+  // Number of stations Radio Browser returned before normalization and deduping
+  total: number
+  fetchedAt: string
+}
+
+// Client for our own /api/stations route
+export async function fetchStations(
+  tags: string[],
+  match: TagMatch = 'any',
+  signal?: AbortSignal
+): Promise<StationsResponse> {
+  const query = new URLSearchParams({ tag: tags.join(','), match })
+  const res = await fetch(`/api/stations?${query}`, { signal })
+
+  if (!res.ok) {
+    throw new Error(`Station API returned ${res.status}`)
+  }
+
+  return res.json()
+}
+
+export interface StationActionResult {
+  ok: boolean
+  message: string
+}
+
+// Test runs set this along with RADIO_BROWSER_FIXTURE, so votes and clicks go to our stub routes
+const USE_ACTION_STUB = Boolean(process.env.NEXT_PUBLIC_RADIO_BROWSER_FIXTURE)
+
+async function postStationAction(stationuuid: string, action: 'vote' | 'click'): Promise<StationActionResult> {
+  const res = await fetch(`/api/stations/${encodeURIComponent(stationuuid)}/${action}`, { method: 'POST' })
+  const body = await res.json().catch(() => null)
+  if (!res.ok) {
+    return { ok: false, message: body?.message ?? body?.error ?? `Station API returned ${res.status}` }
+  }
+  return body
+}
+
+// Radio Browser counts votes and clicks per client IP, so they go straight from
+// the browser rather than through our server, where they'd all share one
+export async function voteStation(stationuuid: string): Promise<StationActionResult> {
+  return USE_ACTION_STUB ? postStationAction(stationuuid, 'vote') : voteForStation(stationuuid)
+}
+
+export async function reportClick(stationuuid: string): Promise<StationActionResult> {
+  return USE_ACTION_STUB ? postStationAction(stationuuid, 'click') : reportStationClick(stationuuid)
+}
+
+export interface StreamHealthResponse {
+  // Keyed by stationuuid; unknown stations are left out
+  results: Record<string, StreamProbe>
+}
+
+// Most stations /api/stream-health checks in one request
+export const MAX_HEALTH_STATIONS = 50
+
+// Client for our own /api/stream-health route
+export async function fetchStreamHealth(stationuuids: string[], signal?: AbortSignal): Promise<StreamHealthResponse> {
+  const res = await fetch('/api/stream-health', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ stations: stationuuids }),
+    signal
+  })
+
+  if (!res.ok) {
+    throw new Error(`Stream health API returned ${res.status}`)
+  }
+
+  return res.json()
+}
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { mapConcurrent, probeStream, sniffFormat } from './streamProbe'
+
+function bytes(...values: (number | string)[]) {
+  return Uint8Array.from(values.flatMap(value => (typeof value === 'string' ? Array.from(value, char => char.charCodeAt(0)) : [value])))
+}
+
+function respondWith(body: BodyInit | null, init: ResponseInit = {}) {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, init)))
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('sniffFormat', () => {
+  it('recognises container signatures', () => {
+    expect(sniffFormat(bytes('#EXTM3U\n#EXT-X-VERSION:3'))).toBe('hls')
+    expect(sniffFormat(bytes('OggS', 0, 2))).toBe('ogg')
+    expect(sniffFormat(bytes('fLaC', 0, 0, 0, 34))).toBe('flac')
+    expect(sniffFormat(bytes('ID3', 4, 0))).toBe('mp3')
+  })
+
+  it('tells ADTS AAC frames from MPEG audio frames by the layer bits', () => {
+    // MPEG-4 and MPEG-2 ADTS, layer 0
+    expect(sniffFormat(bytes(0xff, 0xf1, 0x50))).toBe('aac')
+    expect(sniffFormat(bytes(0xff, 0xf9, 0x50))).toBe('aac')
+    // MPEG-1 layer III, and MPEG-2.5 layer III
+    expect(sniffFormat(bytes(0xff, 0xfb, 0x90))).toBe('mp3')
+    expect(sniffFormat(bytes(0xff, 0xe3, 0x18))).toBe('mp3')
+  })
+
+  it('returns unknown for anything else, including too few bytes', () => {
+    expect(sniffFormat(bytes('<!DOCTYPE html>'))).toBe('unknown')
+    expect(sniffFormat(bytes(0xff))).toBe('unknown')
+    expect(sniffFormat(bytes(0xff, 0x1f))).toBe('unknown')
+    expect(sniffFormat(new Uint8Array())).toBe('unknown')
+  })
+})
+
+describe('probeStream', () => {
+  it('reports a stream that sends audio as ok, with its icy headers', async () => {
+    respondWith(bytes('ID3', 4, 0), { headers: { 'content-type': 'audio/mpeg', 'icy-name': 'Jazz FM', 'icy-br': '128' } })
+
+    expect(await probeStream('http://8.8.8.8/live')).toMatchObject({
+      status: 'ok',
+      reason: null,
+      httpStatus: 200,
+      format: 'mp3',
+      icyName: 'Jazz FM',
+      icyBitrate: 128
+    })
+  })
+
+  it('reports error statuses, web pages and empty responses as dead', async () => {
+    respondWith('gone', { status: 404 })
+    expect(await probeStream('http://8.8.8.8/live')).toMatchObject({ status: 'dead', reason: 'HTTP 404' })
+
+    respondWith('<html>', { headers: { 'content-type': 'text/html; charset=utf-8' } })
+    expect(await probeStream('http://8.8.8.8/live')).toMatchObject({ status: 'dead', reason: 'Not audio (text/html; charset=utf-8)' })
+
+    respondWith(new ReadableStream({ start: controller => controller.close() }))
+    expect(await probeStream('http://8.8.8.8/live')).toMatchObject({ status: 'dead', reason: 'No data' })
+  })
+
+  it('gives up on streams that never send anything', async () => {
+    vi.useFakeTimers()
+    vi.stubGlobal('fetch', vi.fn((_url: URL, init: RequestInit) => new Promise((_, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')))
+    })))
+
+    const probe = probeStream('http://8.8.8.8/live', { timeoutMs: 1000 })
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(await probe).toMatchObject({ status: 'dead', reason: 'Timed out' })
+  })
+
+  it('refuses private addresses', async () => {
+    respondWith(bytes('ID3'))
+
+    expect(await probeStream('http://10.0.0.1/live')).toMatchObject({ status: 'dead', httpStatus: null })
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('mapConcurrent', () => {
+  it('keeps the order while running at most `concurrency` at a time', async () => {
+    let running = 0
+    let peak = 0
+    const worker = async (item: number) => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, (5 - item) * 2))
+      running--
+      return item * 10
+    }
+
+    expect(await mapConcurrent([1, 2, 3, 4, 5], 2, worker)).toEqual([10, 20, 30, 40, 50])
+    expect(peak).toBe(2)
+  })
+})
@@ -0,0 +1,99 @@
+import { fetchPublic } from './publicFetch'
+
+// Server-side health checks for station streams: connect, then look at the
+// response headers and the first chunk of data, and hang up
+
+export type StreamStatus = 'ok' | 'dead'
+
+export type StreamFormat = 'mp3' | 'aac' | 'ogg' | 'flac' | 'hls' | 'unknown'
+
+export interface StreamProbe {
+  status: StreamStatus
+  // Why a stream counts as dead, for tooltips and logs
+  reason: string | null
+  httpStatus: number | null
+  contentType: string | null
+  // Guessed from the first bytes, which is more reliable than the content type some servers send
+  format: StreamFormat
+  icyName: string | null
+  icyBitrate: number | null
+  checkedAt: string
+}
+
+export interface ProbeOptions {
+  // For the whole check, headers and first chunk together
+  timeoutMs?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 8 * 1000
+
+// Served instead of audio by parked domains, error pages and dead APIs
+const NON_AUDIO_TYPES = ['text/html', 'application/json', 'application/xml', 'text/xml']
+
+export function sniffFormat(bytes: Uint8Array): StreamFormat {
+  const ascii = (length: number) => String.fromCharCode(...bytes.subarray(0, length))
+  if (ascii(7) === '#EXTM3U') return 'hls'
+  if (ascii(4) === 'OggS') return 'ogg'
+  if (ascii(4) === 'fLaC') return 'flac'
+  if (ascii(3) === 'ID3') return 'mp3'
+  if (bytes.length >= 2 && bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) return 'aac'
+  if (bytes.length >= 2 && bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return 'mp3'
+  return 'unknown'
+}
+
+function isNonAudio(contentType: string | null) {
+  const type = contentType?.split(';')[0].trim().toLowerCase()
+  return Boolean(type && NON_AUDIO_TYPES.includes(type))
+}
+
+export async function probeStream(url: string, { timeoutMs = DEFAULT_TIMEOUT_MS }: ProbeOptions = {}): Promise<StreamProbe> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  const probe: StreamProbe = {
+    status: 'dead',
+    reason: null,
+    httpStatus: null,
+    contentType: null,
+    format: 'unknown',
+    icyName: null,
+    icyBitrate: null,
+    checkedAt: new Date().toISOString()
+  }
+
+  try {
+    // No Icy-MetaData header, so the first chunk is plain audio; servers send the icy-* headers anyway
+    const res = await fetchPublic(url, { signal: controller.signal, cache: 'no-store' })
+    probe.httpStatus = res.status
+    probe.contentType = res.headers.get('content-type')
+    probe.icyName = res.headers.get('icy-name')
+    probe.icyBitrate = Number(res.headers.get('icy-br')) || null
+
+    if (!res.ok || !res.body) return { ...probe, reason: `HTTP ${res.status}` }
+    if (isNonAudio(probe.contentType)) return { ...probe, reason: `Not audio (${probe.contentType})` }
+
+    const { done, value } = await res.body.getReader().read()
+    if (done || value.byteLength === 0) return { ...probe, reason: 'No data' }
+    probe.format = sniffFormat(value)
+    return { ...probe, status: 'ok' }
+  } catch (error) {
+    const reason = controller.signal.aborted ? 'Timed out' : error instanceof Error ? error.message : 'Connection failed'
+    return { ...probe, reason }
+  } finally {
+    clearTimeout(timer)
+    controller.abort()
+  }
+}
+
+// Runs `worker` over `items` with at most `concurrency` at a time, keeping the order
+export async function mapConcurrent<T, R>(items: T[], concurrency: number, worker: (item: T) => Promise<R>) {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await worker(items[index])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, run))
+  return results
+}
@@ -0,0 +1,16 @@
+// Stream URLs handed to our API routes by the client
+
+export function parseStreamUrl(value: string | null) {
+  try {
+    const url = new URL(value ?? '')
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+// Same-origin copy of a stream, so Web Audio can process it and http streams play on https pages.
+// The proxy only relays URLs Radio Browser lists for the station.
+export function proxiedStreamUrl(stationuuid: string, url: string) {
+  return `/api/stream?station=${encodeURIComponent(stationuuid)}&url=${encodeURIComponent(url)}`
+}
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createSwrCache } from './swrCache'
+
+let time = 0
+
+function cache(maxEntries?: number) {
+  return createSwrCache<string>({ ttlMs: 1000, staleMs: 5000, maxEntries, now: () => time })
+}
+
+// Resolves with `value` once `release` is called, and counts calls
+function deferredLoader(value: string) {
+  let release = () => {}
+  const loader = vi.fn(() => new Promise<string>(resolve => {
+    release = () => resolve(value)
+  }))
+  return { loader, release: () => release() }
+}
+
+beforeEach(() => {
+  time = 0
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('createSwrCache', () => {
+  it('loads on a miss and serves fresh entries without loading again', async () => {
+    const entries = cache()
+    const loader = vi.fn(async () => 'first')
+
+    expect(await entries.get('rock', loader)).toEqual({ value: 'first', status: 'MISS' })
+    time = 999
+    expect(await entries.get('rock', loader)).toEqual({ value: 'first', status: 'HIT' })
+    expect(loader).toHaveBeenCalledTimes(1)
+  })
+
+  it('serves stale entries while refreshing them in the background', async () => {
+    const entries = cache()
+    await entries.get('rock', async () => 'first')
+
+    time = 1000
+    const refresh = deferredLoader('second')
+    expect(await entries.get('rock', refresh.loader)).toEqual({ value: 'first', status: 'STALE' })
+    expect(refresh.loader).toHaveBeenCalledTimes(1)
+
+    refresh.release()
+    await vi.waitFor(async () => {
+      expect(await entries.get('rock', async () => 'unused')).toEqual({ value: 'second', status: 'HIT' })
+    })
+  })
+
+  it('keeps serving the stale entry when the background refresh fails', async () => {
+    const entries = cache()
+    await entries.get('rock', async () => 'first')
+
+    time = 2000
+    await entries.get('rock', async () => {
+      throw new Error('upstream down')
+    })
+    await vi.waitFor(() => expect(console.warn).toHaveBeenCalled())
+
+    expect(await entries.get('rock', async () => 'unused')).toEqual({ value: 'first', status: 'STALE' })
+  })
+
+  it('waits for a new value once the entry is past the stale window', async () => {
+    const entries = cache()
+    await entries.get('rock', async () => 'first')
+
+    time = 1000 + 5000
+    expect(await entries.get('rock', async () => 'second')).toEqual({ value: 'second', status: 'MISS' })
+  })
+
+  it('shares one load between concurrent requests for the same key', async () => {
+    const entries = cache()
+    const { loader, release } = deferredLoader('shared')
+
+    const requests = [entries.get('rock', loader), entries.get('rock', loader), entries.get('jazz', async () => 'other')]
+    release()
+
+    expect((await Promise.all(requests)).map(({ value }) => value)).toEqual(['shared', 'shared', 'other'])
+    expect(loader).toHaveBeenCalledTimes(1)
+  })
+
+  it('loads again after a failed load instead of caching the error', async () => {
+    const entries = cache()
+
+    await expect(entries.get('rock', async () => {
+      throw new Error('upstream down')
+    })).rejects.toThrow('upstream down')
+    expect(await entries.get('rock', async () => 'recovered')).toEqual({ value: 'recovered', status: 'MISS' })
+  })
+
+  it('evicts the least recently stored entries beyond maxEntries', async () => {
+    const entries = cache(2)
+    await entries.get('a', async () => 'a')
+    await entries.get('b', async () => 'b')
+    await entries.get('c', async () => 'c')
+
+    expect((await entries.get('a', async () => 'a again')).status).toBe('MISS')
+    expect((await entries.get('c', async () => 'unused')).status).toBe('HIT')
+  })
+})
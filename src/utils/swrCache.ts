@@ -0,0 +1,80 @@
+// In-memory cache with a freshness TTL and a stale-while-revalidate window
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS'
+
+export interface SwrCacheOptions {
+  // Entries younger than this are served without touching the loader
+  ttlMs: number
+  // Past the TTL, entries are still served for this long while a refresh runs in the background
+  staleMs: number
+  maxEntries?: number
+  now?: () => number
+}
+
+interface CacheEntry<T> {
+  value: T
+  storedAt: number
+}
+
+export interface SwrCache<T> {
+  get(key: string, loader: () => Promise<T>): Promise<{ value: T; status: CacheStatus }>
+  clear(): void
+}
+
+export function createSwrCache<T>({
+  ttlMs,
+  staleMs,
+  maxEntries = 100,
+  now = () => Date.now()
+}: SwrCacheOptions): SwrCache<T> {
+  const entries = new Map<string, CacheEntry<T>>()
+  const inFlight = new Map<string, Promise<T>>()
+
+  function store(key: string, value: T) {
+    // Maps iterate in insertion order, so re-inserting keeps the oldest entry first for eviction
+    entries.delete(key)
+    entries.set(key, { value, storedAt: now() })
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value as string
+      entries.delete(oldest)
+    }
+  }
+
+  // Concurrent requests for the same key share a single upstream call
+  function load(key: string, loader: () => Promise<T>) {
+    const pending = inFlight.get(key)
+    if (pending) return pending
+
+    const promise = loader()
+      .then(value => {
+        store(key, value)
+        return value
+      })
+      .finally(() => inFlight.delete(key))
+    inFlight.set(key, promise)
+    return promise
+  }
+
+  return {
+    async get(key, loader) {
+      const entry = entries.get(key)
+      const age = entry ? now() - entry.storedAt : Infinity
+
+      if (entry && age < ttlMs) {
+        return { value: entry.value, status: 'HIT' }
+      }
+
+      if (entry && age < ttlMs + staleMs) {
+        load(key, loader).catch(error => {
+          console.warn(`Background refresh failed for ${key}:`, error)
+        })
+        return { value: entry.value, status: 'STALE' }
+      }
+
+      return { value: await load(key, loader), status: 'MISS' }
+    },
+    clear() {
+      entries.clear()
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { fetchTags } from './fetchStations'
+import type { RadioBrowserTag } from './fetchStations'
+import type { Station } from './normalizeStations'
+import { createVersionedStore } from './persistentStore'
+
+// Genre selection: several Radio Browser tags at once, plus custom tags pinned to the filter bar
+
+// Each selected tag is a separate upstream request
+export const MAX_SELECTED_TAGS = 10
+
+export function normalizeTag(tag: string) {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+// Parses `rock,jazz` style lists, dropping blanks and duplicates
+export function parseTagList(value: string | null | undefined) {
+  if (!value) return []
+  const tags = value.split(',').map(normalizeTag).filter(Boolean)
+  return Array.from(new Set(tags)).slice(0, MAX_SELECTED_TAGS)
+}
+
+// Adds or removes a tag; the last selected tag can't be removed
+export function toggleTag(selected: string[], tag: string) {
+  const normalized = normalizeTag(tag)
+  if (!normalized) return selected
+  if (selected.includes(normalized)) {
+    return selected.length > 1 ? selected.filter(existing => existing !== normalized) : selected
+  }
+  return selected.length < MAX_SELECTED_TAGS ? [...selected, normalized] : selected
+}
+
+// The selected tags a station was actually found through, used as its genre hint
+export function matchedTags(station: Station, selected: string[]) {
+  const stationTags = station.tags.toLowerCase()
+  const matches = selected.filter(tag => stationTags.includes(tag))
+  return matches.length > 0 ? matches : selected
+}
+
+export const pinnedTagsStore = createVersionedStore<string[]>({
+  key: 'roamfm:pinned-tags',
+  version: 1,
+  fallback: () => []
+})
+
+// Autocomplete over the whole Radio Browser tag catalogue, most used tags first
+export async function searchTagCatalogue(query: string, limit = 8): Promise<RadioBrowserTag[]> {
+  const filter = normalizeTag(query)
+  if (!filter) return []
+  const tags = await fetchTags({ filter, order: 'stationcount', reverse: true, hidebroken: true, limit })
+  return tags.filter(tag => tag.stationcount > 0)
+}
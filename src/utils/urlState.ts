@@ -0,0 +1,58 @@
+import { MOODS } from './moodInference'
+import type { Mood } from './moodInference'
+import type { TagMatch } from './stationsApi'
+import { parseTagList } from './tags'
+
+// View state kept in the query string, e.g. ?tag=rock,jazz&match=all&station=<uuid>&lat=48.85&lng=2.35&alt=0.8&mood=chill
+export interface ViewState {
+  tags?: string[]
+  match?: TagMatch
+  station?: string
+  mood?: Mood
+  lat?: number
+  lng?: number
+  alt?: number
+}
+
+function parseNumber(value: string | null, limit: number) {
+  if (value === null || value.trim() === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && Math.abs(parsed) <= limit ? parsed : undefined
+}
+
+export function parseViewState(search: string | URLSearchParams): ViewState {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search
+  const mood = params.get('mood')
+  const alt = parseNumber(params.get('alt'), 100)
+  const tags = parseTagList(params.get('tag'))
+
+  return {
+    tags: tags.length > 0 ? tags : undefined,
+    match: params.get('match') === 'all' ? 'all' : undefined,
+    station: params.get('station')?.trim() || undefined,
+    mood: MOODS.includes(mood as Mood) ? (mood as Mood) : undefined,
+    lat: parseNumber(params.get('lat'), 90),
+    lng: parseNumber(params.get('lng'), 180),
+    alt: alt !== undefined && alt > 0 ? alt : undefined
+  }
+}
+
+export function serializeViewState(view: ViewState) {
+  const params = new URLSearchParams()
+  if (view.tags?.length) params.set('tag', view.tags.join(','))
+  // `any` is the default and left out
+  if (view.match === 'all') params.set('match', 'all')
+  if (view.station) params.set('station', view.station)
+  if (view.mood) params.set('mood', view.mood)
+  if (view.lat !== undefined && view.lng !== undefined && view.alt !== undefined) {
+    params.set('lat', view.lat.toFixed(2))
+    params.set('lng', view.lng.toFixed(2))
+    params.set('alt', view.alt.toFixed(2))
+  }
+  return params.toString()
+}
+
+export function viewStateUrl(view: ViewState) {
+  const query = serializeViewState(view)
+  return `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ''}`
+}